@@ -0,0 +1,7 @@
+import bleno from '@stoprocent/bleno';
+import { PeripheralAdapter } from './peripheral-adapter';
+
+/**
+ * The bleno singleton, importing this module initializes the Bluetooth adapter
+ */
+export const blenoPeripheralAdapter: PeripheralAdapter = bleno;
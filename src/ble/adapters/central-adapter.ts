@@ -0,0 +1,42 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Characteristic of a remote peripheral, emits 'data' with the notified value
+ */
+export interface RemoteCharacteristic extends EventEmitter {
+    readonly uuid: string;
+    readonly properties: ReadonlyArray<string>;
+    readAsync(): Promise<Buffer>;
+    subscribeAsync(): Promise<void>;
+}
+
+export interface RemoteService {
+    readonly uuid: string;
+    readonly characteristics: ReadonlyArray<RemoteCharacteristic>;
+}
+
+export interface RemoteServiceData {
+    uuid: string;
+    data: Buffer;
+}
+
+/**
+ * Peripheral the central connected to (e.g. a heart rate strap), emits 'disconnect'
+ */
+export interface RemotePeripheral extends EventEmitter {
+    readonly id: string;
+    readonly rssi: number;
+    readonly advertisement: { localName?: string; serviceUuids?: Array<string>; serviceData?: Array<RemoteServiceData> };
+    discoverAllServicesAndCharacteristicsAsync(): Promise<{ services: ReadonlyArray<RemoteService> }>;
+    disconnectAsync(): Promise<void>;
+}
+
+/**
+ * BLE central role (noble), emits 'discover' with a RemotePeripheral while scanning
+ */
+export interface CentralAdapter extends EventEmitter {
+    waitForPoweredOnAsync(): Promise<void>;
+    startScanningAsync(serviceUuids?: Array<string>, allowDuplicates?: boolean): Promise<void>;
+    stopScanningAsync(): Promise<void>;
+    connectAsync(id: string): Promise<RemotePeripheral>;
+}
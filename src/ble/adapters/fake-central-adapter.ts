@@ -0,0 +1,214 @@
+import { EventEmitter } from 'events';
+import { CentralAdapter, RemoteCharacteristic, RemotePeripheral, RemoteService, RemoteServiceData } from './central-adapter';
+
+/**
+ * In-memory characteristic of a FakePeripheral
+ */
+export class FakeRemoteCharacteristic extends EventEmitter implements RemoteCharacteristic {
+    private subscribed = false;
+    public reads = 0;
+
+    constructor(
+        public readonly uuid: string,
+        public value: Buffer = Buffer.alloc(0),
+        public readonly properties: ReadonlyArray<string> = ['read'],
+    ) {
+        super();
+    }
+
+    public async readAsync(): Promise<Buffer> {
+        this.reads++;
+        return this.value;
+    }
+
+    public async subscribeAsync(): Promise<void> {
+        this.subscribed = true;
+    }
+
+    public isSubscribed(): boolean {
+        return this.subscribed;
+    }
+
+    /// sends a notification to the subscribed central
+    public notify(data: Buffer): void {
+        this.value = data;
+        if (this.subscribed) {
+            this.emit('data', data, true);
+        }
+    }
+}
+
+/**
+ * In-memory peripheral that can be discovered and connected by the FakeCentralAdapter
+ */
+export class FakePeripheral extends EventEmitter implements RemotePeripheral {
+    public readonly advertisement: { localName?: string; serviceUuids: Array<string>; serviceData: Array<RemoteServiceData> };
+    public readonly services: Array<RemoteService>;
+    public rssi = -60;
+    public connected = false;
+    // number of upcoming connection attempts that fail, simulates a strap out of range
+    public failingConnects = 0;
+
+    constructor(public readonly id: string, localName: string | undefined, services: Array<RemoteService>) {
+        super();
+        this.services = services;
+        this.advertisement = { localName, serviceUuids: services.map(s => s.uuid), serviceData: [] };
+    }
+
+    public async discoverAllServicesAndCharacteristicsAsync(): Promise<{ services: ReadonlyArray<RemoteService> }> {
+        return { services: this.services };
+    }
+
+    public async disconnectAsync(): Promise<void> {
+        this.simulateDisconnect();
+    }
+
+    /// the connection is dropped by the peripheral, e.g. the strap was taken off
+    public simulateDisconnect(): void {
+        if (!this.connected) {
+            return;
+        }
+
+        this.connected = false;
+        this.services
+            .flatMap(s => s.characteristics)
+            .forEach(c => c.removeAllListeners('data'));
+        this.emit('disconnect', 'remote user terminated connection');
+    }
+
+    public findCharacteristic(uuid: string): FakeRemoteCharacteristic | undefined {
+        return this.services
+            .flatMap(s => s.characteristics)
+            .find(c => c.uuid === uuid) as FakeRemoteCharacteristic | undefined;
+    }
+}
+
+/**
+ * Heart rate strap with Generic Access, Battery and Heart Rate services
+ */
+export class FakeHeartRateStrap extends FakePeripheral {
+    constructor(id: string, name: string, batteryLevel: number = 100, batteryNotifications: boolean = true) {
+        super(id, name, [
+            { uuid: '1800', characteristics: [new FakeRemoteCharacteristic('2a00', Buffer.from(name, 'utf8'))] },
+            {
+                uuid: '180f',
+                characteristics: [
+                    new FakeRemoteCharacteristic('2a19', Buffer.from([batteryLevel]), batteryNotifications ? ['read', 'notify'] : ['read']),
+                ],
+            },
+            { uuid: '180d', characteristics: [new FakeRemoteCharacteristic('2a37', Buffer.alloc(0), ['notify'])] },
+        ]);
+    }
+
+    /// changes the battery level, notified if the central subscribed
+    public setBatteryLevel(batteryLevel: number): void {
+        this.findCharacteristic('2a19')?.notify(Buffer.from([batteryLevel]));
+    }
+
+    /// puts the battery level into the advertised service data, like some straps do
+    public advertiseBatteryLevel(batteryLevel: number): void {
+        this.advertisement.serviceData = [{ uuid: '180f', data: Buffer.from([batteryLevel]) }];
+    }
+
+    /// notifies a raw Heart Rate Measurement value
+    public notifyMeasurement(data: Buffer): void {
+        this.findCharacteristic('2a37')?.notify(data);
+    }
+
+    /// notifies an 8bit heart rate without further fields
+    public notifyHeartRate(heartRate: number): void {
+        this.notifyMeasurement(Buffer.from([0x00, heartRate]));
+    }
+}
+
+/**
+ * Rowing machine with the Fitness Machine Service
+ */
+export class FakeFtmsRower extends FakePeripheral {
+    constructor(id: string, name: string) {
+        super(id, name, [
+            { uuid: '1826', characteristics: [new FakeRemoteCharacteristic('2ad1', Buffer.alloc(0), ['notify'])] },
+        ]);
+    }
+
+    /// notifies a raw Rower Data value
+    public notifyRowerData(data: Buffer): void {
+        this.findCharacteristic('2ad1')?.notify(data);
+    }
+}
+
+/**
+ * In-memory central adapter replacing noble in tests
+ */
+export class FakeCentralAdapter extends EventEmitter implements CentralAdapter {
+    private readonly peripherals = new Map<string, FakePeripheral>();
+    private poweredOn = true;
+    private poweredOnWaiters: Array<() => void> = [];
+    private scanFilter: Array<string> | null = null;
+
+    public addPeripheral(peripheral: FakePeripheral): void {
+        this.peripherals.set(peripheral.id, peripheral);
+        this.advertise(peripheral);
+    }
+
+    public removePeripheral(id: string): void {
+        this.peripherals.get(id)?.simulateDisconnect();
+        this.peripherals.delete(id);
+    }
+
+    public setPoweredOn(poweredOn: boolean): void {
+        this.poweredOn = poweredOn;
+        if (poweredOn) {
+            this.poweredOnWaiters.forEach(resolve => resolve());
+            this.poweredOnWaiters = [];
+        }
+    }
+
+    public isScanning(): boolean {
+        return this.scanFilter != null;
+    }
+
+    public waitForPoweredOnAsync(): Promise<void> {
+        if (this.poweredOn) {
+            return Promise.resolve();
+        }
+        return new Promise(resolve => this.poweredOnWaiters.push(resolve));
+    }
+
+    public async startScanningAsync(serviceUuids: Array<string> = []): Promise<void> {
+        this.scanFilter = serviceUuids;
+        // emit the peripherals in range once the caller had the chance to attach its listener
+        setImmediate(() => this.peripherals.forEach(p => this.advertise(p)));
+    }
+
+    public async stopScanningAsync(): Promise<void> {
+        this.scanFilter = null;
+    }
+
+    public async connectAsync(id: string): Promise<RemotePeripheral> {
+        const peripheral = this.peripherals.get(id);
+        if (peripheral == null) {
+            throw new Error(`Peripheral ${id} not found`);
+        }
+
+        if (peripheral.failingConnects > 0) {
+            peripheral.failingConnects--;
+            throw new Error(`Connection to ${id} failed`);
+        }
+
+        peripheral.connected = true;
+        return peripheral;
+    }
+
+    private advertise(peripheral: FakePeripheral): void {
+        if (this.scanFilter == null) {
+            return;
+        }
+
+        const matches = this.scanFilter.length === 0
+            || this.scanFilter.some(uuid => peripheral.advertisement.serviceUuids.includes(uuid));
+        if (matches) {
+            this.emit('discover', peripheral);
+        }
+    }
+}
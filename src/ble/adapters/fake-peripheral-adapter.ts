@@ -0,0 +1,139 @@
+import { EventEmitter } from 'events';
+import { Characteristic, ConnectionHandle, PrimaryService, State } from '@stoprocent/bleno';
+import { PeripheralAdapter } from './peripheral-adapter';
+
+// ATT_MTU 23 leaves 20 bytes for the notification payload
+const DEFAULT_MAX_VALUE_SIZE = 20;
+
+/**
+ * Central connected to the FakePeripheralAdapter, drives the GATT server like a phone app would
+ */
+export class FakeCentral {
+    private readonly subscriptions = new Map<string, Array<Buffer>>();
+
+    constructor(
+        private readonly adapter: FakePeripheralAdapter,
+        public readonly address: string,
+        public readonly handle: ConnectionHandle,
+        private readonly maxValueSize: number,
+    ) { }
+
+    /// enables notifications or indications, the returned array collects the received values
+    public subscribe(uuid: string): Array<Buffer> {
+        const notifications: Array<Buffer> = [];
+        this.subscriptions.set(uuid, notifications);
+        this.adapter.findCharacteristic(uuid)
+            .emit('subscribe', this.handle, this.maxValueSize, (data: Buffer) => notifications.push(data));
+        return notifications;
+    }
+
+    public unsubscribe(uuid: string): void {
+        if (this.subscriptions.delete(uuid)) {
+            this.adapter.findCharacteristic(uuid).emit('unsubscribe', this.handle);
+        }
+    }
+
+    public read(uuid: string, offset: number = 0): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            this.adapter.findCharacteristic(uuid).emit('readRequest', this.handle, offset, (result: number, data?: Buffer) => {
+                if (result !== Characteristic.RESULT_SUCCESS) {
+                    reject(new Error(`Read of ${uuid} failed with 0x${result.toString(16)}`));
+                    return;
+                }
+                resolve(data ?? Buffer.alloc(0));
+            });
+        });
+    }
+
+    /// resolves with the ATT result of the write request
+    public write(uuid: string, data: Buffer): Promise<number> {
+        return new Promise(resolve => {
+            this.adapter.findCharacteristic(uuid).emit('writeRequest', this.handle, data, 0, false, resolve);
+        });
+    }
+
+    public disconnect(): void {
+        this.adapter.disconnect(this.handle);
+    }
+
+    /// @internal called by the adapter when the connection is dropped
+    public dropSubscriptions(): void {
+        [...this.subscriptions.keys()].forEach(uuid => this.unsubscribe(uuid));
+    }
+}
+
+/**
+ * In-memory peripheral adapter replacing bleno in tests
+ */
+export class FakePeripheralAdapter extends EventEmitter implements PeripheralAdapter {
+    public state: State = 'unknown';
+    public advertising = false;
+    public advertisedName: string | null = null;
+    public advertisedServiceUuids: ReadonlyArray<string> = [];
+    public services: ReadonlyArray<PrimaryService> = [];
+
+    private readonly centrals = new Map<ConnectionHandle, FakeCentral>();
+    private nextHandle = 1;
+
+    public powerOn(): void {
+        this.setState('poweredOn');
+    }
+
+    public setState(state: State): void {
+        this.state = state;
+        this.emit('stateChange', state);
+    }
+
+    public startAdvertising(name: string, serviceUuids: ReadonlyArray<string> = []): void {
+        this.advertisedName = name;
+        this.advertisedServiceUuids = serviceUuids;
+        this.advertising = true;
+        this.emit('advertisingStart', null);
+    }
+
+    public stopAdvertising(): void {
+        if (!this.advertising) {
+            return;
+        }
+        this.advertising = false;
+        this.emit('advertisingStop');
+    }
+
+    public setServices(services: ReadonlyArray<PrimaryService>, callback?: (error: Error | undefined | null) => void): void {
+        this.services = services;
+        callback?.(null);
+    }
+
+    public disconnect(handle?: ConnectionHandle): void {
+        const handles = handle == null ? [...this.centrals.keys()] : [handle];
+        handles.forEach(h => {
+            const central = this.centrals.get(h);
+            if (central == null) {
+                return;
+            }
+
+            central.dropSubscriptions();
+            this.centrals.delete(h);
+            this.emit('disconnect', central.address, h);
+        });
+    }
+
+    /// a central connects, bleno stops advertising while connected
+    public connectCentral(address: string, maxValueSize: number = DEFAULT_MAX_VALUE_SIZE): FakeCentral {
+        const central = new FakeCentral(this, address, this.nextHandle++, maxValueSize);
+        this.centrals.set(central.handle, central);
+        this.stopAdvertising();
+        this.emit('accept', address, central.handle);
+        return central;
+    }
+
+    public findCharacteristic(uuid: string): Characteristic {
+        const characteristic = this.services
+            .flatMap(s => s.characteristics)
+            .find(c => c.uuid.toLowerCase() === uuid.toLowerCase());
+        if (characteristic == null) {
+            throw new Error(`Characteristic ${uuid} is not published`);
+        }
+        return characteristic;
+    }
+}
@@ -0,0 +1,3 @@
+export { CentralAdapter, RemoteCharacteristic, RemotePeripheral, RemoteService } from './central-adapter';
+export { PeripheralAdapter } from './peripheral-adapter';
+export { ScanCoordinator } from './scan-coordinator';
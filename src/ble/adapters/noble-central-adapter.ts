@@ -0,0 +1,10 @@
+import noble from '@stoprocent/noble';
+import { CentralAdapter } from './central-adapter';
+
+// the HRM, the discovery and the reconnect loop all listen to the adapter
+noble.setMaxListeners(20);
+
+/**
+ * The noble singleton, importing this module initializes the Bluetooth adapter
+ */
+export const nobleCentralAdapter: CentralAdapter = noble;
@@ -0,0 +1,14 @@
+import { EventEmitter } from 'events';
+import { ConnectionHandle, PrimaryService, State } from '@stoprocent/bleno';
+
+/**
+ * BLE peripheral role (bleno). Emits 'stateChange', 'advertisingStart', 'advertisingStartError',
+ * 'advertisingStop', 'servicesSetError', 'accept' and 'disconnect' with the arguments of bleno.
+ */
+export interface PeripheralAdapter extends EventEmitter {
+    readonly state: State;
+    startAdvertising(name: string, serviceUuids?: ReadonlyArray<string>): void;
+    stopAdvertising(): void;
+    setServices(services: ReadonlyArray<PrimaryService>, callback?: (error: Error | undefined | null) => void): void;
+    disconnect(handle?: ConnectionHandle): void;
+}
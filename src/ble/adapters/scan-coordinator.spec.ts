@@ -0,0 +1,83 @@
+import { ScanCoordinator } from './scan-coordinator';
+import { FakeCentralAdapter } from './fake-central-adapter';
+
+describe('ScanCoordinator', () => {
+    let central: FakeCentralAdapter;
+    let coordinator: ScanCoordinator;
+    let startScanning: jasmine.Spy<FakeCentralAdapter['startScanningAsync']>;
+    let stopScanning: jasmine.Spy<FakeCentralAdapter['stopScanningAsync']>;
+    const heartRateScan = {};
+    const rowerScan = {};
+
+    beforeEach(() => {
+        central = new FakeCentralAdapter();
+        coordinator = ScanCoordinator.of(central);
+        startScanning = spyOn(central, 'startScanningAsync').and.callThrough();
+        stopScanning = spyOn(central, 'stopScanningAsync').and.callThrough();
+    });
+
+    // the service filters the adapter scanned with
+    const scanFilters = (): Array<Array<string> | undefined> => startScanning.calls.allArgs().map(([serviceUuids]) => serviceUuids);
+
+    it('should share the coordinator of an adapter', () => {
+        expect(ScanCoordinator.of(central)).toBe(coordinator);
+        expect(ScanCoordinator.of(new FakeCentralAdapter())).not.toBe(coordinator);
+    });
+
+    it('should scan for the services of every owner', async () => {
+        await coordinator.startScanningAsync(heartRateScan, ['180D']);
+        await coordinator.startScanningAsync(rowerScan, ['1826']);
+
+        expect(scanFilters()).toEqual([['180d'], ['180d', '1826']]);
+    });
+
+    it('should not restart the scan for services already scanned for', async () => {
+        await coordinator.startScanningAsync(heartRateScan, ['180d']);
+        await coordinator.startScanningAsync(rowerScan, ['180d']);
+
+        expect(scanFilters()).toEqual([['180d']]);
+    });
+
+    it('should report every peripheral if an owner scans without filter', async () => {
+        await coordinator.startScanningAsync(heartRateScan, ['180d']);
+        await coordinator.startScanningAsync(rowerScan);
+
+        expect(scanFilters()).toEqual([['180d'], []]);
+    });
+
+    it('should keep scanning for the other owners', async () => {
+        await coordinator.startScanningAsync(heartRateScan, ['180d']);
+        await coordinator.startScanningAsync(rowerScan, ['1826']);
+
+        await coordinator.stopScanningAsync(heartRateScan);
+
+        expect(stopScanning).not.toHaveBeenCalled();
+        expect(scanFilters()).toEqual([['180d'], ['180d', '1826'], ['1826']]);
+        expect(central.isScanning()).toBeTrue();
+    });
+
+    it('should stop scanning after the last owner', async () => {
+        await coordinator.startScanningAsync(heartRateScan, ['180d']);
+        await coordinator.startScanningAsync(rowerScan, ['1826']);
+
+        await coordinator.stopScanningAsync(heartRateScan);
+        await coordinator.stopScanningAsync(rowerScan);
+        await coordinator.stopScanningAsync(rowerScan);
+
+        expect(stopScanning).toHaveBeenCalledTimes(1);
+        expect(coordinator.isScanning()).toBeFalse();
+        expect(central.isScanning()).toBeFalse();
+    });
+
+    it('should start again after the adapter failed to scan', async () => {
+        startScanning.and.rejectWith(new Error('Adapter busy'));
+        await expectAsync(coordinator.startScanningAsync(heartRateScan, ['180d'])).toBeRejectedWithError('Adapter busy');
+        expect(coordinator.isScanning()).toBeFalse();
+
+        startScanning.and.callThrough();
+        await coordinator.startScanningAsync(rowerScan, ['1826']);
+
+        expect(scanFilters()).toEqual([['180d'], ['180d', '1826']]);
+        expect(coordinator.isScanning()).toBeTrue();
+    });
+});
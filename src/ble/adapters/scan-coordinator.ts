@@ -0,0 +1,74 @@
+import debug from 'debug';
+import { CentralAdapter } from './central-adapter';
+
+const logger = debug('BLE_SCAN');
+
+const coordinators = new WeakMap<CentralAdapter, ScanCoordinator>();
+
+/**
+ * Shares the scan of a central adapter, e.g. between the heart rate discovery and the search for the FTMS rower.
+ * The adapter scans with one service filter, it is merged from every running scan and the scan stops after the last one.
+ */
+export class ScanCoordinator {
+    // service filter of each running scan, an empty filter reports every peripheral
+    private readonly scans = new Map<object, Array<string>>();
+    private filter: Array<string> | null = null;
+
+    constructor(private readonly central: CentralAdapter) {
+    }
+
+    /// the coordinator shared by everyone scanning with the adapter
+    public static of(central: CentralAdapter): ScanCoordinator {
+        let coordinator = coordinators.get(central);
+        if (coordinator == null) {
+            coordinator = new ScanCoordinator(central);
+            coordinators.set(central, coordinator);
+        }
+        return coordinator;
+    }
+
+    /// starts or widens the scan, the owner stops its scan with stopScanningAsync
+    public async startScanningAsync(owner: object, serviceUuids: Array<string> = []): Promise<void> {
+        this.scans.set(owner, serviceUuids.map(uuid => uuid.toLowerCase()));
+        await this.updateScanAsync();
+    }
+
+    /// narrows the scan to the other owners, the adapter stops scanning after the last one
+    public async stopScanningAsync(owner: object): Promise<void> {
+        if (!this.scans.delete(owner)) {
+            return;
+        }
+        await this.updateScanAsync();
+    }
+
+    public isScanning(): boolean {
+        return this.filter != null;
+    }
+
+    private async updateScanAsync(): Promise<void> {
+        if (this.scans.size === 0) {
+            if (this.filter != null) {
+                this.filter = null;
+                logger('Stop scanning');
+                await this.central.stopScanningAsync();
+            }
+            return;
+        }
+
+        const filters = [...this.scans.values()];
+        const filter = filters.some(f => f.length === 0) ? [] : [...new Set(filters.flat())].sort();
+        if (this.filter != null && this.filter.join() === filter.join()) {
+            return;
+        }
+
+        this.filter = filter;
+        logger(`Scanning for ${filter.length > 0 ? filter.join(', ') : 'every peripheral'}`);
+        try {
+            await this.central.startScanningAsync(filter, false);
+        } catch (err) {
+            // the next start or stop of a scan tries again
+            this.filter = null;
+            throw err;
+        }
+    }
+}
@@ -0,0 +1,43 @@
+import { Characteristic, Descriptor } from '@stoprocent/bleno';
+import debug from 'debug';
+import { BatteryLevelUUID, CharacteristicUserDescriptionUUID } from '../uuids';
+import { CharacteristicEvents } from '../characteristic-events';
+
+const logger = debug('BAS');
+
+export class BatteryLevelCharacteristic extends Characteristic {
+
+    private _batteryLevel: number = 100;
+
+    public constructor() {
+        logger(`[${BatteryLevelUUID}][BatteryLevelCharacteristic] constructor`);
+        super({
+            uuid: BatteryLevelUUID,
+            properties: ['read', 'notify'],
+            descriptors: [
+                new Descriptor({
+                    uuid: CharacteristicUserDescriptionUUID,
+                    value: 'Battery Level',
+                }),
+            ],
+        });
+    }
+
+    public onReadRequest(_handle: number, _offset: number, callback: (result: number, data?: Buffer) => void): void {
+        logger(`[${BatteryLevelUUID}][BatteryLevelCharacteristic] onReadRequest`);
+        callback(this.RESULT_SUCCESS, Buffer.from([this._batteryLevel]));
+    }
+
+    public updateBatteryLevel(batteryLevel: number): void {
+        // Battery Level (8bit, percent)
+        const value = Math.min(Math.max(Math.round(batteryLevel), 0), 100);
+        if (value === this._batteryLevel) {
+            return;
+        }
+
+        this._batteryLevel = value;
+        const data = Buffer.from([value]);
+        this.notify(data);
+        this.emit(CharacteristicEvents.NOTIFICATION, data);
+    }
+}
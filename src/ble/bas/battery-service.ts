@@ -0,0 +1,29 @@
+import debug from 'debug';
+import { PrimaryService } from '@stoprocent/bleno';
+import { BatteryServiceUUID } from '../uuids';
+import { BatteryLevelCharacteristic } from './battery-level-characteristic';
+
+const logger = debug('BAS_SRV');
+
+export class BatteryService extends PrimaryService {
+    private readonly _batteryLevelCharacteristic: BatteryLevelCharacteristic;
+
+    public constructor() {
+        logger(`[${BatteryServiceUUID}][BatteryService] constructor`);
+
+        const batteryLevelCharacteristic = new BatteryLevelCharacteristic();
+
+        super({
+            uuid: BatteryServiceUUID,
+            characteristics: [
+                batteryLevelCharacteristic,
+            ],
+        });
+
+        this._batteryLevelCharacteristic = batteryLevelCharacteristic;
+    }
+
+    public updateBatteryLevel(batteryLevel: number): void {
+        this._batteryLevelCharacteristic.updateBatteryLevel(batteryLevel);
+    }
+}
@@ -0,0 +1 @@
+export { BatteryService } from './battery-service';
\ No newline at end of file
@@ -0,0 +1,12 @@
+/**
+ * Event names emitted by BleBridge
+ */
+export const BleBridgeEvents = {
+    STATE_CHANGED: Symbol('BleBridge:stateChanged'),
+    ADVERTISING_STARTED: Symbol('BleBridge:advertisingStarted'),
+    ADVERTISING_STOPPED: Symbol('BleBridge:advertisingStopped'),
+    CENTRAL_CONNECTED: Symbol('BleBridge:centralConnected'),
+    CENTRAL_DISCONNECTED: Symbol('BleBridge:centralDisconnected'),
+    CENTRALS_UPDATED: Symbol('BleBridge:centralsUpdated'),
+    ERROR: Symbol('BleBridge:error'),
+} as const;
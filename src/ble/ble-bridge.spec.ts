@@ -0,0 +1,326 @@
+import { EventEmitter } from 'events';
+import { Subject } from 'rxjs';
+
+import { BleBridge } from './ble-bridge';
+import { BleBridgeEvents } from './ble-bridge-events';
+import { FakeCentralAdapter, FakeHeartRateStrap } from './adapters/fake-central-adapter';
+import { FakePeripheralAdapter } from './adapters/fake-peripheral-adapter';
+import { BatteryLevelUUID, FirmwareRevisionStringUUID, HeartRateMeasurementUUID, ModelNumberStringUUID, RowerDataUUID } from './uuids';
+import { AppConfig, ConfigManager } from '../helper/config-manager';
+import { HeartRateSourceManager } from '../heart-rate/heart-rate-source-manager';
+import { WaterRower } from '../waterrower-serial/waterrower-serial';
+import { WaterRowerEvents } from '../waterrower-serial/waterrower-events';
+import { DataPoint } from '../waterrower-serial/data-point';
+import { DataPointName } from '../waterrower-serial/datapoints-config';
+import { S4Metrics, decodeS4Metrics } from '../waterrower-serial/s4-metrics';
+
+type BleConfig = NonNullable<AppConfig['ble']>;
+
+const BLE_CONFIG: BleConfig = {
+    machineType: 'rower',
+    heartRateService: true,
+    batteryService: true,
+    ftmsHeartRate: false,
+    cyclingPowerService: false,
+    cyclingSpeedCadenceService: false,
+    deviceName: 'Living Room Rower',
+    deviceInformation: {
+        manufacturerName: 'WaterRower',
+        modelNumber: '',
+        serialNumber: '',
+    },
+    bikeConversion: {
+        strategy: 'power-equivalent',
+        cadenceFactor: 4,
+        powerFactor: 1.5,
+        speedFactor: 2,
+    },
+};
+
+/// WaterRower without serial port, the spec pushes the datapoints
+class FakeWaterRower extends EventEmitter {
+    public datapoints$ = new Subject<DataPoint>();
+    private registers: Partial<Record<DataPointName, number>> = {};
+
+    public getModelInformation(): null {
+        return null;
+    }
+
+    public getMetrics(): S4Metrics {
+        return decodeS4Metrics(name => this.registers[name]);
+    }
+
+    public push(name: DataPointName, value: number): void {
+        this.registers[name] = value;
+        this.datapoints$.next({ time: new Date(), name, address: '000', length: 1, value });
+    }
+}
+
+describe('BleBridge', () => {
+    let peripheral: FakePeripheralAdapter;
+    let central: FakeCentralAdapter;
+    let waterRower: FakeWaterRower;
+    let heartRateSources: HeartRateSourceManager;
+    let bridge: BleBridge;
+
+    const createBridge = (bleConfig: Partial<BleConfig> = {}): BleBridge => {
+        const configManager = jasmine.createSpyObj<ConfigManager>('ConfigManager', ['getBleConfig']);
+        configManager.getBleConfig.and.returnValue({ ...BLE_CONFIG, ...bleConfig });
+
+        return new BleBridge({
+            peripheral,
+            waterRower: waterRower as unknown as WaterRower,
+            heartRateSources,
+            configManager,
+        });
+    };
+
+    beforeEach(() => {
+        peripheral = new FakePeripheralAdapter();
+        central = new FakeCentralAdapter();
+        waterRower = new FakeWaterRower();
+        heartRateSources = new HeartRateSourceManager(central);
+        bridge = createBridge();
+    });
+
+    afterEach(() => {
+        bridge.stop();
+    });
+
+    describe('advertising', () => {
+        it('should advertise the configured name once powered on', () => {
+            bridge.start();
+            expect(peripheral.advertising).toBeFalse();
+
+            peripheral.powerOn();
+
+            expect(peripheral.advertising).toBeTrue();
+            expect(peripheral.advertisedName).toBe('Living Room Rower');
+            expect(peripheral.advertisedServiceUuids).toEqual(['1826', '180D']);
+            expect(bridge.getStatus().advertising).toBeTrue();
+        });
+
+        it('should advertise when the adapter was powered on before start', () => {
+            peripheral.powerOn();
+
+            bridge.start();
+
+            expect(peripheral.advertising).toBeTrue();
+            expect(peripheral.services.map(s => s.uuid)).toEqual(['1826', '180A', '180D', '180F']);
+        });
+
+        it('should advertise again after the central disconnected', () => {
+            bridge.start();
+            peripheral.powerOn();
+
+            const phone = peripheral.connectCentral('aa:bb:cc:dd:ee:ff');
+            expect(peripheral.advertising).toBeFalse();
+
+            phone.disconnect();
+            expect(peripheral.advertising).toBeTrue();
+        });
+
+        it('should set the services once per power on', () => {
+            const setServices = spyOn(peripheral, 'setServices').and.callThrough();
+            bridge.start();
+            peripheral.powerOn();
+
+            peripheral.connectCentral('aa:bb:cc:dd:ee:ff').disconnect();
+            expect(setServices).toHaveBeenCalledTimes(1);
+
+            peripheral.setState('poweredOff');
+            peripheral.powerOn();
+            expect(setServices).toHaveBeenCalledTimes(2);
+        });
+
+        it('should stop advertising when the adapter is powered off', () => {
+            bridge.start();
+            peripheral.powerOn();
+
+            peripheral.setState('poweredOff');
+
+            expect(peripheral.advertising).toBeFalse();
+            expect(bridge.getStatus().state).toBe('poweredOff');
+        });
+    });
+
+    describe('rower data', () => {
+        beforeEach(() => {
+            bridge.start();
+            peripheral.powerOn();
+        });
+
+        it('should notify the encoded WaterRower values', () => {
+            const phone = peripheral.connectCentral('aa:bb:cc:dd:ee:ff', 64);
+            const notifications = phone.subscribe(RowerDataUUID);
+
+            waterRower.push('stroke_rate', 24);
+            waterRower.push('m_s_total', 300);
+
+            expect(notifications.length).toBe(2);
+            expect([...notifications[1]]).toEqual([
+                0x3C, 0x09, // flags: distance, pace, average pace, power, energy and elapsed time present
+                0x30, // stroke rate 48 * 0.5 spm
+                0x00, 0x00, // stroke count
+                0x00, 0x00, 0x00, // total distance
+                0xA7, 0x00, // instantaneous pace 167 s/500m at 3 m/s
+                0x00, 0x00, // average pace
+                0x4C, 0x00, // power 2.8 * 3³ = 76 W
+                0x00, 0x00, // total energy
+                0xFF, 0xFF, // energy per hour not available
+                0xFF, // energy per minute not available
+                0x00, 0x00, // elapsed time
+            ]);
+        });
+
+        it('should split the notification for the default MTU', () => {
+            const phone = peripheral.connectCentral('aa:bb:cc:dd:ee:ff');
+            const notifications = phone.subscribe(RowerDataUUID);
+
+            waterRower.push('stroke_rate', 24);
+
+            expect(notifications.length).toBe(2);
+            expect(notifications.every(n => n.length <= 20)).toBeTrue();
+        });
+
+        it('should stop notifying after the central unsubscribed', () => {
+            const phone = peripheral.connectCentral('aa:bb:cc:dd:ee:ff', 64);
+            const notifications = phone.subscribe(RowerDataUUID);
+
+            phone.unsubscribe(RowerDataUUID);
+            waterRower.push('stroke_rate', 24);
+
+            expect(notifications.length).toBe(0);
+        });
+    });
+
+    describe('heart rate', () => {
+        let strap: FakeHeartRateStrap;
+
+        beforeEach(async () => {
+            strap = new FakeHeartRateStrap('strap-1', 'HRM-Pro', 64);
+            central.addPeripheral(strap);
+
+            bridge.start();
+            peripheral.powerOn();
+            await heartRateSources.connectBleDeviceAsync('strap-1');
+        });
+
+        it('should re-broadcast the heart rate of the strap', () => {
+            const phone = peripheral.connectCentral('aa:bb:cc:dd:ee:ff');
+            const notifications = phone.subscribe(HeartRateMeasurementUUID);
+
+            strap.notifyHeartRate(128);
+
+            expect(notifications.map(n => [...n])).toEqual([[0x00, 128]]);
+        });
+
+        it('should keep notifying the heart rate to a central after another one unsubscribed', () => {
+            const phone = peripheral.connectCentral('aa:bb:cc:dd:ee:ff');
+            const watch = peripheral.connectCentral('11:22:33:44:55:66');
+            const phoneNotifications = phone.subscribe(HeartRateMeasurementUUID);
+            const watchNotifications = watch.subscribe(HeartRateMeasurementUUID);
+
+            watch.unsubscribe(HeartRateMeasurementUUID);
+            strap.notifyHeartRate(128);
+
+            expect(phoneNotifications.map(n => [...n])).toEqual([[0x00, 128]]);
+            expect(watchNotifications).toEqual([]);
+        });
+
+        it('should publish the battery level of the strap', async () => {
+            const phone = peripheral.connectCentral('aa:bb:cc:dd:ee:ff');
+
+            expect([...await phone.read(BatteryLevelUUID)]).toEqual([64]);
+        });
+
+        it('should notify the changed battery level of the strap', () => {
+            const phone = peripheral.connectCentral('aa:bb:cc:dd:ee:ff');
+            const notifications = phone.subscribe(BatteryLevelUUID);
+
+            strap.setBatteryLevel(63);
+
+            expect(notifications.map(n => [...n])).toEqual([[63]]);
+        });
+
+        it('should notify the changed battery level to every subscribed central', () => {
+            const phone = peripheral.connectCentral('aa:bb:cc:dd:ee:ff');
+            const watch = peripheral.connectCentral('11:22:33:44:55:66');
+            const phoneNotifications = phone.subscribe(BatteryLevelUUID);
+            const watchNotifications = watch.subscribe(BatteryLevelUUID);
+
+            strap.setBatteryLevel(63);
+
+            expect(phoneNotifications.map(n => [...n])).toEqual([[63]]);
+            expect(watchNotifications.map(n => [...n])).toEqual([[63]]);
+        });
+    });
+
+    describe('device information', () => {
+        it('should publish the model and the firmware of the rowing computer', async () => {
+            bridge.start();
+            peripheral.powerOn();
+            const phone = peripheral.connectCentral('aa:bb:cc:dd:ee:ff');
+
+            waterRower.emit(WaterRowerEvents.MODEL_INFORMATION, { model: 4, firmwareVersion: '2.10' });
+
+            expect((await phone.read(ModelNumberStringUUID)).toString()).toBe('S4');
+            expect((await phone.read(FirmwareRevisionStringUUID)).toString()).toBe('2.10');
+        });
+
+        it('should keep the configured model number', async () => {
+            bridge = createBridge({ deviceInformation: { ...BLE_CONFIG.deviceInformation, modelNumber: 'A1 Home' } });
+            bridge.start();
+            peripheral.powerOn();
+            const phone = peripheral.connectCentral('aa:bb:cc:dd:ee:ff');
+
+            waterRower.emit(WaterRowerEvents.MODEL_INFORMATION, { model: 4, firmwareVersion: '2.10' });
+
+            expect((await phone.read(ModelNumberStringUUID)).toString()).toBe('A1 Home');
+        });
+    });
+
+    describe('centrals', () => {
+        beforeEach(() => {
+            bridge.start();
+            peripheral.powerOn();
+        });
+
+        it('should track the connected centrals and their subscriptions', () => {
+            const updated = jasmine.createSpy('updated');
+            bridge.on(BleBridgeEvents.CENTRALS_UPDATED, updated);
+
+            const phone = peripheral.connectCentral('aa:bb:cc:dd:ee:ff');
+            phone.subscribe(RowerDataUUID);
+
+            const centrals = bridge.getCentrals();
+            expect(centrals.map(c => c.address)).toEqual(['aa:bb:cc:dd:ee:ff']);
+            expect(centrals[0].subscriptions.map(s => s.name)).toEqual(['Rower Data']);
+            expect(bridge.getStatus().centrals).toEqual(['aa:bb:cc:dd:ee:ff']);
+            expect(updated).toHaveBeenCalled();
+        });
+
+        it('should disconnect a central by address', () => {
+            const disconnected = jasmine.createSpy('disconnected');
+            bridge.on(BleBridgeEvents.CENTRAL_DISCONNECTED, disconnected);
+            peripheral.connectCentral('aa:bb:cc:dd:ee:ff');
+
+            expect(bridge.disconnectCentral('11:22:33:44:55:66')).toBeFalse();
+            expect(bridge.disconnectCentral('aa:bb:cc:dd:ee:ff')).toBeTrue();
+
+            expect(disconnected).toHaveBeenCalledOnceWith('aa:bb:cc:dd:ee:ff');
+            expect(bridge.getCentrals()).toEqual([]);
+        });
+
+        it('should disconnect all centrals when stopped', () => {
+            const phone = peripheral.connectCentral('aa:bb:cc:dd:ee:ff');
+            const notifications = phone.subscribe(RowerDataUUID);
+
+            bridge.stop();
+            waterRower.push('stroke_rate', 24);
+
+            expect(notifications.length).toBe(0);
+            expect(peripheral.advertising).toBeFalse();
+        });
+    });
+});
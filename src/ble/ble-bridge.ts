@@ -0,0 +1,484 @@
+import debug from 'debug';
+import { EventEmitter } from 'events';
+import { Subscription, filter } from 'rxjs';
+import { PrimaryService, State } from '@stoprocent/bleno';
+
+import { FitnessMachineService } from './ftms/ftms-service';
+import { HeartRateService } from './hrs';
+import { BatteryService } from './bas';
+import { CyclingPowerService } from './cps';
+import { CyclingSpeedCadenceService } from './cscs';
+import { DeviceInformationService } from './dis';
+import { CrankRevolutionCounter } from './crank-revolution-counter';
+import { CentralInfo, CentralRegistry } from './central-registry';
+import { CentralRegistryEvents } from './central-registry-events';
+import { PeripheralAdapter } from './adapters';
+import { HeartRateSourceManager } from '../heart-rate/heart-rate-source-manager';
+import { HeartRateSourceManagerEvents } from '../heart-rate/heart-rate-source-manager-events';
+import { HeartRateSourceInfo } from '../heart-rate/heart-rate-source';
+import { FitnessMachineControlHandler } from './ftms/fitness-machine-control-point-characteristic';
+import { FitnessMachineStatusOpCode, TrainingStatus } from './ftms/IndoorBike/indoor-bike-data';
+import { BleBridgeEvents } from './ble-bridge-events';
+import { ConfigManager, FtmsMachineType } from '../helper/config-manager';
+import { SessionState, TrainingDataPoint, TrainingSession } from '../training/training-session';
+import { TrainingSessionEvents } from '../training/training-session-events';
+import { WaterRowerEvents } from '../waterrower-serial/waterrower-events';
+import { RowerDataSource } from '../rower/rower-data-source';
+import { DataPoint } from '../waterrower-serial/data-point';
+import { ModelInformation } from '../waterrower-serial/model-information';
+
+const logger = debug('BLE_BRIDGE');
+
+const DEFAULT_DEVICE_NAME = 'WaterRower';
+
+// Fitness Machine Status parameter of the "Stopped or Paused by the User" procedure
+const STATUS_PARAMETER_STOP = 0x01;
+const STATUS_PARAMETER_PAUSE = 0x02;
+
+export interface BleBridgeOptions {
+    peripheral: PeripheralAdapter;
+    waterRower: RowerDataSource;
+    heartRateSources: HeartRateSourceManager;
+    configManager: ConfigManager;
+}
+
+export interface BleBridgeStatus {
+    state: State;
+    advertising: boolean;
+    deviceName: string;
+    machineType: FtmsMachineType;
+    services: Array<string>;
+    centrals: Array<string>;
+}
+
+/**
+ * Publishes the rower as BLE peripheral. Live values are taken from the
+ * WaterRower datapoints while no session is running and from the
+ * TrainingSession datapoints while a session is attached.
+ */
+export class BleBridge extends EventEmitter {
+    private readonly peripheral: PeripheralAdapter;
+    private readonly waterRower: RowerDataSource;
+    private readonly heartRateSources: HeartRateSourceManager;
+    private readonly ftmsService: FitnessMachineService;
+    private readonly deviceInformationService: DeviceInformationService;
+    private readonly heartRateService: HeartRateService | null = null;
+    private readonly batteryService: BatteryService | null = null;
+    private readonly cyclingPowerService: CyclingPowerService | null = null;
+    private readonly cyclingSpeedCadenceService: CyclingSpeedCadenceService | null = null;
+    private readonly crankRevolutionCounter = new CrankRevolutionCounter();
+    private readonly services: Array<PrimaryService>;
+    private readonly ftmsHeartRate: boolean;
+    private readonly deviceName: string;
+    private readonly modelNumber: string;
+
+    private state: State = 'unknown';
+    private advertising = false;
+    // bleno keeps the GATT database until the adapter is powered off or reset
+    private servicesSet = false;
+    private started = false;
+    private readonly centrals = new CentralRegistry();
+
+    private session: TrainingSession | null = null;
+    private datapointsSubscription: Subscription | null = null;
+    private heartRateSubscription: Subscription | null = null;
+    private liveData: Partial<TrainingDataPoint> = {};
+
+    constructor(options: BleBridgeOptions) {
+        super();
+        this.peripheral = options.peripheral;
+        this.waterRower = options.waterRower;
+        this.heartRateSources = options.heartRateSources;
+
+        const bleConfig = options.configManager.getBleConfig();
+        this.ftmsHeartRate = bleConfig.ftmsHeartRate;
+        this.deviceName = bleConfig.deviceName.trim() || DEFAULT_DEVICE_NAME;
+        this.modelNumber = bleConfig.deviceInformation.modelNumber;
+        this.ftmsService = new FitnessMachineService(bleConfig.machineType, bleConfig.ftmsHeartRate, bleConfig.bikeConversion);
+        this.deviceInformationService = new DeviceInformationService({
+            ...bleConfig.deviceInformation,
+            firmwareRevision: '',
+            softwareRevision: process.env.npm_package_version ?? '',
+        });
+        this.services = [this.ftmsService, this.deviceInformationService];
+
+        // re-broadcast the connected strap, it can only be paired with one central at a time
+        if (bleConfig.heartRateService) {
+            this.heartRateService = new HeartRateService();
+            this.services.push(this.heartRateService);
+        }
+        if (bleConfig.batteryService) {
+            this.batteryService = new BatteryService();
+            this.services.push(this.batteryService);
+        }
+
+        // legacy profiles for apps and bike computers without FTMS support
+        if (bleConfig.cyclingPowerService) {
+            this.cyclingPowerService = new CyclingPowerService();
+            this.services.push(this.cyclingPowerService);
+        }
+        if (bleConfig.cyclingSpeedCadenceService) {
+            this.cyclingSpeedCadenceService = new CyclingSpeedCadenceService();
+            this.services.push(this.cyclingSpeedCadenceService);
+        }
+    }
+
+    public start(): void {
+        if (this.started) {
+            return;
+        }
+
+        logger(`Starting BLE bridge. Machine type = ${this.ftmsService.getMachineType()}`);
+        this.started = true;
+
+        this.peripheral.on('stateChange', this.handleStateChange);
+        this.peripheral.on('advertisingStart', this.handleAdvertisingStart);
+        this.peripheral.on('advertisingStartError', this.handleAdvertisingStartError);
+        this.peripheral.on('advertisingStop', this.handleAdvertisingStop);
+        this.peripheral.on('servicesSetError', this.handleServicesSetError);
+        this.peripheral.on('accept', this.handleAccept);
+        this.peripheral.on('disconnect', this.handleDisconnect);
+        this.centrals.attach(this.services);
+        this.centrals.on(CentralRegistryEvents.UPDATED, this.handleCentralsUpdated);
+
+        this.subscribeWaterRower();
+        this.subscribeHeartRateSources();
+        this.waterRower.on(WaterRowerEvents.INITIALIZED, this.handleWaterRowerInitialized);
+        this.waterRower.on(WaterRowerEvents.CLOSE, this.handleWaterRowerClosed);
+        this.waterRower.on(WaterRowerEvents.MODEL_INFORMATION, this.handleWaterRowerModelInformation);
+        const modelInformation = this.waterRower.getModelInformation();
+        if (modelInformation != null) {
+            this.handleWaterRowerModelInformation(modelInformation);
+        }
+
+        // bleno may already be powered on when the bridge is started
+        if (this.peripheral.state === 'poweredOn') {
+            this.handleStateChange(this.peripheral.state);
+        }
+    }
+
+    public stop(): void {
+        if (!this.started) {
+            return;
+        }
+
+        logger('Stopping BLE bridge');
+        this.started = false;
+        this.detachSession();
+        this.datapointsSubscription?.unsubscribe();
+        this.datapointsSubscription = null;
+        this.waterRower.removeListener(WaterRowerEvents.INITIALIZED, this.handleWaterRowerInitialized);
+        this.waterRower.removeListener(WaterRowerEvents.CLOSE, this.handleWaterRowerClosed);
+        this.waterRower.removeListener(WaterRowerEvents.MODEL_INFORMATION, this.handleWaterRowerModelInformation);
+        this.heartRateSubscription?.unsubscribe();
+        this.heartRateSubscription = null;
+        this.heartRateSources.removeListener(HeartRateSourceManagerEvents.PRIMARY_CHANGED, this.handleHeartRatePrimaryChanged);
+        this.heartRateSources.removeListener(HeartRateSourceManagerEvents.BATTERY_LEVEL_CHANGED, this.handleHeartRateBatteryLevel);
+
+        this.peripheral.removeListener('stateChange', this.handleStateChange);
+        this.peripheral.removeListener('advertisingStart', this.handleAdvertisingStart);
+        this.peripheral.removeListener('advertisingStartError', this.handleAdvertisingStartError);
+        this.peripheral.removeListener('advertisingStop', this.handleAdvertisingStop);
+        this.peripheral.removeListener('servicesSetError', this.handleServicesSetError);
+        this.peripheral.removeListener('accept', this.handleAccept);
+        this.peripheral.removeListener('disconnect', this.handleDisconnect);
+
+        if (this.centrals.size > 0) {
+            this.peripheral.disconnect();
+        }
+        this.peripheral.stopAdvertising();
+        this.advertising = false;
+        this.servicesSet = false;
+        this.centrals.detach();
+        this.centrals.removeListener(CentralRegistryEvents.UPDATED, this.handleCentralsUpdated);
+    }
+
+    /**
+     * Feed the FTMS data characteristic from the given session until it is stopped
+     */
+    public attachSession(session: TrainingSession): void {
+        this.detachSession();
+
+        logger(`Attaching training session ${session.getSessionId()}`);
+        this.session = session;
+        session.on(TrainingSessionEvents.DATAPOINT, this.handleSessionDataPoint);
+        session.on(TrainingSessionEvents.STARTED, this.handleSessionStarted);
+        session.on(TrainingSessionEvents.PAUSED, this.handleSessionPaused);
+        session.on(TrainingSessionEvents.RESUMED, this.handleSessionResumed);
+        session.once(TrainingSessionEvents.STOPPED, this.handleSessionStopped);
+    }
+
+    /**
+     * Register the handler executing Start/Stop/Pause/Reset requests of the FTMS control point
+     */
+    public setControlHandler(handler: FitnessMachineControlHandler | null): void {
+        this.ftmsService.setControlHandler(handler);
+    }
+
+    public getStatus(): BleBridgeStatus {
+        return {
+            state: this.state,
+            advertising: this.advertising,
+            deviceName: this.deviceName,
+            machineType: this.ftmsService.getMachineType(),
+            services: this.services.map(s => s.uuid),
+            centrals: this.centrals.getAddresses(),
+        };
+    }
+
+    public getCentrals(): Array<CentralInfo> {
+        return this.centrals.getCentrals();
+    }
+
+    /**
+     * Drop the connection of a central, e.g. a client that holds the control point or floods requests
+     */
+    public disconnectCentral(address: string): boolean {
+        const handle = this.centrals.findHandle(address);
+        if (handle == null) {
+            return false;
+        }
+
+        logger(`Disconnecting central ${address}`);
+        this.peripheral.disconnect(handle);
+        return true;
+    }
+
+    private detachSession(): void {
+        if (this.session == null) {
+            return;
+        }
+
+        this.session.removeListener(TrainingSessionEvents.DATAPOINT, this.handleSessionDataPoint);
+        this.session.removeListener(TrainingSessionEvents.STARTED, this.handleSessionStarted);
+        this.session.removeListener(TrainingSessionEvents.PAUSED, this.handleSessionPaused);
+        this.session.removeListener(TrainingSessionEvents.RESUMED, this.handleSessionResumed);
+        this.session.removeListener(TrainingSessionEvents.STOPPED, this.handleSessionStopped);
+        this.session = null;
+    }
+
+    private subscribeWaterRower(): void {
+        this.datapointsSubscription = this.waterRower.datapoints$
+            .pipe(filter(() => this.session?.getState() !== SessionState.ACTIVE))
+            .subscribe({
+                next: dataPoint => this.handleWaterRowerDataPoint(dataPoint),
+                error: err => {
+                    logger('WaterRower datapoints error:', err);
+                    this.emit(BleBridgeEvents.ERROR, err);
+                },
+            });
+    }
+
+    private subscribeHeartRateSources(): void {
+        this.heartRateSubscription = this.heartRateSources.heartRate$
+            .subscribe(data => {
+                this.heartRateService?.updateHeartRate(data.heartRate);
+
+                // the session datapoints carry the heart rate while a session is active
+                if (this.ftmsHeartRate && this.session?.getState() !== SessionState.ACTIVE) {
+                    this.liveData.heartRate = data.heartRate;
+                }
+            });
+
+        this.heartRateSources.on(HeartRateSourceManagerEvents.PRIMARY_CHANGED, this.handleHeartRatePrimaryChanged);
+        this.heartRateSources.on(HeartRateSourceManagerEvents.BATTERY_LEVEL_CHANGED, this.handleHeartRateBatteryLevel);
+        this.handleHeartRatePrimaryChanged(this.heartRateSources.getPrimary());
+    }
+
+    // the battery level follows the source the heart rate is taken from
+    private handleHeartRatePrimaryChanged = (primary: HeartRateSourceInfo | null): void => {
+        if (primary == null) {
+            this.liveData.heartRate = undefined;
+            return;
+        }
+
+        if (primary.batteryLevel != null) {
+            this.batteryService?.updateBatteryLevel(primary.batteryLevel);
+        }
+    };
+
+    private handleHeartRateBatteryLevel = (batteryLevel: number): void => {
+        this.batteryService?.updateBatteryLevel(batteryLevel);
+    };
+
+    private handleWaterRowerDataPoint(dataPoint: DataPoint): void {
+        // the values are taken scaled from the metrics, e.g. the distance with its decimetres
+        const metrics = this.waterRower.getMetrics();
+        switch (dataPoint.name) {
+            case 'stroke_rate':
+                this.liveData.strokeRate = metrics.strokeRate;
+                break;
+            case 'distance':
+                this.liveData.distance = metrics.distance;
+                break;
+            case 'strokes_cnt':
+                this.liveData.totalStrokes = metrics.strokes;
+                break;
+            case 'total_kcal':
+                this.liveData.calories = metrics.calories;
+                break;
+            case 'm_s_total':
+                // power using the rowing formula: Power (watts) = 2.8 × speed³
+                this.liveData.speed = metrics.speed ?? 0;
+                this.liveData.power = 2.8 * Math.pow(this.liveData.speed, 3);
+                break;
+            default:
+                return;
+        }
+
+        this.publishTrainingData({
+            timestamp: dataPoint.time,
+            elapsedTime: 0,
+            ...this.liveData,
+        });
+    }
+
+    private publishTrainingData(dataPoint: TrainingDataPoint): void {
+        this.ftmsService.updateTrainingData(dataPoint);
+
+        if (this.cyclingPowerService == null && this.cyclingSpeedCadenceService == null) {
+            return;
+        }
+
+        const crank = dataPoint.totalStrokes != null
+            ? this.crankRevolutionCounter.update(dataPoint.totalStrokes, dataPoint.timestamp.getTime(), dataPoint.strokeRate)
+            : this.crankRevolutionCounter.getData();
+        this.cyclingPowerService?.updateData(dataPoint.power ?? 0, crank);
+        this.cyclingSpeedCadenceService?.updateData(crank);
+    }
+
+    private handleSessionDataPoint = (dataPoint: TrainingDataPoint): void => {
+        this.publishTrainingData(dataPoint);
+    };
+
+    // Training status follows the workout: Idle (no rower or paused), Pre-Workout (rower ready),
+    // Manual Mode (session active) and Post-Workout (session stopped)
+    private handleSessionStarted = (): void => {
+        this.ftmsService.resetTrainingData();
+        this.handleSessionResumed();
+    };
+
+    private handleSessionResumed = (): void => {
+        this.ftmsService.updateMachineStatus(FitnessMachineStatusOpCode.FitnessMachineStartedOrResumed);
+        this.ftmsService.updateTrainingStatus(TrainingStatus.ManualMode);
+    };
+
+    private handleSessionPaused = (): void => {
+        this.ftmsService.updateMachineStatus(FitnessMachineStatusOpCode.FitnessMachineStoppedOrPaused, STATUS_PARAMETER_PAUSE);
+        this.ftmsService.updateTrainingStatus(TrainingStatus.Idle);
+    };
+
+    private handleSessionStopped = (): void => {
+        logger('Training session stopped, detaching');
+        this.ftmsService.updateMachineStatus(FitnessMachineStatusOpCode.FitnessMachineStoppedOrPaused, STATUS_PARAMETER_STOP);
+        this.ftmsService.updateTrainingStatus(TrainingStatus.PostWorkout);
+        this.detachSession();
+        this.liveData = {};
+    };
+
+    private handleWaterRowerInitialized = (): void => {
+        if (this.session?.getState() === SessionState.ACTIVE) {
+            return;
+        }
+        this.ftmsService.updateTrainingStatus(TrainingStatus.PreWorkout);
+    };
+
+    private handleWaterRowerClosed = (): void => {
+        this.ftmsService.updateTrainingStatus(TrainingStatus.Idle);
+    };
+
+    private handleWaterRowerModelInformation = (modelInformation: ModelInformation): void => {
+        this.deviceInformationService.updateFirmwareRevision(modelInformation.firmwareVersion);
+        if (this.modelNumber.length === 0) {
+            this.deviceInformationService.updateModelNumber(`S${modelInformation.model}`);
+        }
+    };
+
+    private handleStateChange = (state: State): void => {
+        logger(`BLENO stateChange. State = ${state}`);
+        this.state = state;
+        this.emit(BleBridgeEvents.STATE_CHANGED, state);
+
+        if (state === 'poweredOn') {
+            this.startAdvertising();
+            return;
+        }
+
+        // adapter was switched off or reset, bleno advertises and sets the services again on the next poweredOn
+        this.servicesSet = false;
+        this.centrals.clear();
+        this.ftmsService.releaseControl();
+        if (this.advertising) {
+            this.peripheral.stopAdvertising();
+        }
+    };
+
+    private handleAdvertisingStart = (error?: Error | null): void => {
+        logger(`BLENO advertisingStart. Error = ${error}`);
+        if (error != null) {
+            this.emit(BleBridgeEvents.ERROR, error);
+            return;
+        }
+
+        this.advertising = true;
+        if (!this.servicesSet) {
+            this.servicesSet = true;
+            this.peripheral.setServices(this.services, err => {
+                logger(`BLENO set services: ${err ?? 'success'}`);
+                if (err != null) {
+                    this.servicesSet = false;
+                    this.emit(BleBridgeEvents.ERROR, err);
+                }
+            });
+        }
+        this.emit(BleBridgeEvents.ADVERTISING_STARTED);
+    };
+
+    private handleAdvertisingStartError = (error: Error): void => {
+        logger('BLENO advertisingStartError:', error);
+        this.advertising = false;
+        this.emit(BleBridgeEvents.ERROR, error);
+    };
+
+    private handleAdvertisingStop = (): void => {
+        logger('BLENO advertisingStop');
+        this.advertising = false;
+        this.emit(BleBridgeEvents.ADVERTISING_STOPPED);
+    };
+
+    private handleServicesSetError = (error: Error): void => {
+        logger('BLENO servicesSetError:', error);
+        this.emit(BleBridgeEvents.ERROR, error);
+    };
+
+    private handleAccept = (address: string, handle: string | number): void => {
+        logger(`BLENO accept. Central = ${address}`);
+        this.centrals.connect(handle, address);
+        this.emit(BleBridgeEvents.CENTRAL_CONNECTED, address);
+    };
+
+    private handleDisconnect = (address: string, handle: string | number): void => {
+        logger(`BLENO disconnect. Central = ${address}`);
+        this.centrals.disconnect(handle);
+        this.ftmsService.releaseControl(handle);
+        this.emit(BleBridgeEvents.CENTRAL_DISCONNECTED, address);
+
+        // advertising stops while a central is connected, make the rower visible again
+        if (this.state === 'poweredOn') {
+            this.startAdvertising();
+        }
+    };
+
+    private handleCentralsUpdated = (centrals: Array<CentralInfo>): void => {
+        this.emit(BleBridgeEvents.CENTRALS_UPDATED, centrals);
+    };
+
+    private startAdvertising(): void {
+        logger(`Start advertising as ${this.deviceName}`);
+        // the battery belongs to the strap, only the profiles apps search for are advertised
+        const uuids = this.services
+            .filter(s => s !== this.batteryService && s !== this.deviceInformationService)
+            .map(s => s.uuid);
+        this.peripheral.startAdvertising(this.deviceName, uuids);
+    }
+}
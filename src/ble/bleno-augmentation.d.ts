@@ -0,0 +1,20 @@
+// Members of @stoprocent/bleno that exist at runtime but are missing in its type declarations
+import { EventEmitter } from 'events';
+
+declare module '@stoprocent/bleno' {
+    // characteristics are event emitters, bleno emits subscribe, unsubscribe and notify on them
+    interface Characteristic {
+        on(...args: Parameters<EventEmitter['on']>): this;
+        removeListener(...args: Parameters<EventEmitter['removeListener']>): this;
+        emit(...args: Parameters<EventEmitter['emit']>): boolean;
+        // the MTU of the subscribed connection
+        getMaxValueSize(handle: ConnectionHandle): number | undefined;
+        // to the subscribed connection, to every subscribed connection without handle
+        notify(data: Buffer, handle?: ConnectionHandle | null): void;
+    }
+
+    interface Bleno {
+        // disconnects a single central, all centrals without handle
+        disconnect(handle?: ConnectionHandle): void;
+    }
+}
@@ -0,0 +1,6 @@
+/**
+ * Event names emitted by CentralRegistry
+ */
+export const CentralRegistryEvents = {
+    UPDATED: Symbol('CentralRegistry:updated'),
+} as const;
@@ -0,0 +1,163 @@
+import { Characteristic, Descriptor, PrimaryService } from '@stoprocent/bleno';
+
+import { CentralInfo, CentralRegistry } from './central-registry';
+import { CentralRegistryEvents } from './central-registry-events';
+import { CharacteristicEvents } from './characteristic-events';
+import { CharacteristicUserDescriptionUUID } from './uuids';
+
+describe('CentralRegistry', () => {
+    let rowerData: Characteristic;
+    let controlPoint: Characteristic;
+    let registry: CentralRegistry;
+    let updates: Array<Array<CentralInfo>>;
+
+    beforeEach(() => {
+        rowerData = new Characteristic({
+            uuid: '2AD1',
+            properties: ['notify'],
+            descriptors: [new Descriptor({ uuid: CharacteristicUserDescriptionUUID, value: 'Rower Data' })],
+        });
+        controlPoint = new Characteristic({ uuid: '2AD9', properties: ['write', 'indicate'] });
+
+        registry = new CentralRegistry();
+        registry.attach([new PrimaryService({ uuid: '1826', characteristics: [rowerData, controlPoint] })]);
+        updates = [];
+        registry.on(CentralRegistryEvents.UPDATED, (centrals: Array<CentralInfo>) => updates.push(centrals));
+
+        registry.connect(1, 'aa:bb:cc:dd:ee:ff');
+        registry.connect(2, '11:22:33:44:55:66');
+        jasmine.clock().install();
+        jasmine.clock().mockDate(new Date(2026, 0, 1));
+    });
+
+    afterEach(() => {
+        registry.detach();
+        jasmine.clock().uninstall();
+    });
+
+    const subscriptions = (address: string): Array<string> =>
+        registry.getCentrals().find(c => c.address === address)!.subscriptions.map(s => s.name);
+
+    it('should track the subscriptions of each central', () => {
+        rowerData.emit('subscribe', 1);
+        controlPoint.emit('subscribe', 1);
+        rowerData.emit('subscribe', 2);
+
+        rowerData.emit('unsubscribe', 1);
+
+        expect(subscriptions('aa:bb:cc:dd:ee:ff')).toEqual(['2AD9']);
+        expect(subscriptions('11:22:33:44:55:66')).toEqual(['Rower Data']);
+    });
+
+    it('should ignore the subscriptions of an unknown central', () => {
+        updates = [];
+
+        rowerData.emit('subscribe', 3);
+
+        expect(updates).toEqual([]);
+        expect(registry.getCentrals().every(c => c.subscriptions.length === 0)).toBeTrue();
+    });
+
+    it('should drop the subscriptions of a disconnected central', () => {
+        rowerData.emit('subscribe', 1);
+
+        registry.disconnect(1);
+        registry.connect(1, 'aa:bb:cc:dd:ee:ff');
+
+        expect(subscriptions('aa:bb:cc:dd:ee:ff')).toEqual([]);
+    });
+
+    it('should count a notification without handle for every subscribed central', () => {
+        rowerData.emit('subscribe', 1);
+        rowerData.emit('subscribe', 2);
+
+        rowerData.emit(CharacteristicEvents.NOTIFICATION, Buffer.from([0x01, 0x02]));
+
+        const notified = registry.getCentrals().map(c => c.subscriptions[0]);
+        expect(notified.map(s => s.notifications)).toEqual([1, 1]);
+        expect(notified.map(s => s.lastPayload)).toEqual(['0102', '0102']);
+        expect(notified[0].lastNotificationAt).toEqual(new Date(2026, 0, 1));
+    });
+
+    it('should count a notification with handle for that central only', () => {
+        controlPoint.emit('subscribe', 1);
+        controlPoint.emit('subscribe', 2);
+
+        controlPoint.emit(CharacteristicEvents.NOTIFICATION, Buffer.from([0x80, 0x00, 0x01]), 2);
+
+        expect(registry.getCentrals().map(c => c.subscriptions[0].notifications)).toEqual([0, 1]);
+    });
+
+    it('should not count a notification for a central that did not subscribe', () => {
+        rowerData.emit('subscribe', 1);
+
+        rowerData.emit(CharacteristicEvents.NOTIFICATION, Buffer.from([0x01]), 2);
+
+        expect(registry.getCentrals()[0].subscriptions[0].notifications).toBe(0);
+    });
+
+    it('should publish the notification statistics at most once per second', () => {
+        rowerData.emit('subscribe', 1);
+        updates = [];
+
+        rowerData.emit(CharacteristicEvents.NOTIFICATION, Buffer.from([0x01]));
+        rowerData.emit(CharacteristicEvents.NOTIFICATION, Buffer.from([0x02]));
+        jasmine.clock().tick(999);
+        expect(updates.length).toBe(0);
+
+        jasmine.clock().tick(1);
+        expect(updates.length).toBe(1);
+        expect(updates[0][0].subscriptions[0]).toEqual(jasmine.objectContaining({ notifications: 2, lastPayload: '02' }));
+    });
+
+    it('should publish a subscription right away', () => {
+        rowerData.emit('subscribe', 1);
+        rowerData.emit(CharacteristicEvents.NOTIFICATION, Buffer.from([0x01]));
+        updates = [];
+
+        controlPoint.emit('subscribe', 1);
+        jasmine.clock().tick(1000);
+
+        expect(updates.length).toBe(1);
+    });
+
+    it('should rate the notifications of the last 10 seconds', () => {
+        rowerData.emit('subscribe', 1);
+
+        for (let i = 0; i < 10; i++) {
+            rowerData.emit(CharacteristicEvents.NOTIFICATION, Buffer.from([i]));
+            jasmine.clock().tick(1000);
+        }
+        expect(registry.getCentrals()[0].subscriptions[0].notificationRate).toBe(0.9);
+
+        jasmine.clock().tick(5000);
+        expect(registry.getCentrals()[0].subscriptions[0].notificationRate).toBe(0.4);
+
+        jasmine.clock().tick(5000);
+        const subscription = registry.getCentrals()[0].subscriptions[0];
+        expect(subscription.notificationRate).toBe(0);
+        expect(subscription.notifications).toBe(10);
+    });
+
+    it('should find the handle of a central by its address', () => {
+        expect(registry.findHandle('AA:BB:CC:DD:EE:FF')).toBe(1);
+        expect(registry.findHandle('11:22:33:44:55:66')).toBe(2);
+    });
+
+    it('should not find the handle of an unknown address', () => {
+        registry.disconnect(2);
+
+        expect(registry.findHandle('11:22:33:44:55:66')).toBeNull();
+        expect(registry.findHandle('de:ad:be:ef:00:00')).toBeNull();
+    });
+
+    it('should stop listening to the characteristics once detached', () => {
+        registry.detach();
+        expect(registry.size).toBe(0);
+
+        registry.connect(1, 'aa:bb:cc:dd:ee:ff');
+        rowerData.emit('subscribe', 1);
+
+        expect(subscriptions('aa:bb:cc:dd:ee:ff')).toEqual([]);
+    });
+});
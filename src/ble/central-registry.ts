@@ -0,0 +1,238 @@
+import debug from 'debug';
+import { EventEmitter } from 'events';
+import { Characteristic, ConnectionHandle, PrimaryService } from '@stoprocent/bleno';
+
+import { CharacteristicEvents } from './characteristic-events';
+import { CentralRegistryEvents } from './central-registry-events';
+import { CharacteristicUserDescriptionUUID } from './uuids';
+
+const logger = debug('BLE_CENTRALS');
+
+// notifications of the last 10 seconds are used for the rate
+const RATE_WINDOW_MS = 10000;
+// notification statistics are published at most once per second
+const UPDATE_THROTTLE_MS = 1000;
+
+export interface CentralSubscription {
+    characteristic: string;
+    name: string;
+    subscribedAt: Date;
+    notifications: number;
+    notificationRate: number; // per second
+    lastPayload: string | null; // hex
+    lastNotificationAt: Date | null;
+}
+
+export interface CentralInfo {
+    address: string;
+    connectedAt: Date;
+    subscriptions: Array<CentralSubscription>;
+}
+
+interface SubscriptionEntry {
+    characteristic: Characteristic;
+    subscribedAt: Date;
+    notifications: number;
+    notificationTimes: Array<number>;
+    lastPayload: Buffer | null;
+    lastNotificationAt: Date | null;
+}
+
+interface CentralEntry {
+    address: string;
+    connectedAt: Date;
+    subscriptions: Map<string, SubscriptionEntry>;
+}
+
+interface CharacteristicListeners {
+    subscribe: (handle: ConnectionHandle) => void;
+    unsubscribe: (handle: ConnectionHandle) => void;
+    notification: (data: Buffer, handle?: ConnectionHandle) => void;
+}
+
+/**
+ * Keeps track of the connected centrals, the characteristics they subscribed
+ * and the notifications sent to them
+ */
+export class CentralRegistry extends EventEmitter {
+    private readonly centrals = new Map<ConnectionHandle, CentralEntry>();
+    private readonly characteristicListeners = new Map<Characteristic, CharacteristicListeners>();
+    private updateTimer: NodeJS.Timeout | null = null;
+
+    /**
+     * Listen to the subscriptions and notifications of all characteristics of the services
+     */
+    public attach(services: ReadonlyArray<PrimaryService>): void {
+        services
+            .flatMap(service => service.characteristics)
+            .filter(characteristic => !this.characteristicListeners.has(characteristic))
+            .forEach(characteristic => {
+                const listeners: CharacteristicListeners = {
+                    subscribe: handle => this.subscribe(handle, characteristic),
+                    unsubscribe: handle => this.unsubscribe(handle, characteristic),
+                    notification: (data, handle) => this.notification(characteristic, data, handle),
+                };
+                characteristic.on('subscribe', listeners.subscribe);
+                characteristic.on('unsubscribe', listeners.unsubscribe);
+                characteristic.on(CharacteristicEvents.NOTIFICATION, listeners.notification);
+                this.characteristicListeners.set(characteristic, listeners);
+            });
+    }
+
+    public detach(): void {
+        this.characteristicListeners.forEach((listeners, characteristic) => {
+            characteristic.removeListener('subscribe', listeners.subscribe);
+            characteristic.removeListener('unsubscribe', listeners.unsubscribe);
+            characteristic.removeListener(CharacteristicEvents.NOTIFICATION, listeners.notification);
+        });
+        this.characteristicListeners.clear();
+        this.clear();
+    }
+
+    public connect(handle: ConnectionHandle, address: string): void {
+        logger(`Central connected. Address = ${address}, Handle = ${handle}`);
+        this.centrals.set(handle, { address, connectedAt: new Date(), subscriptions: new Map() });
+        this.emitUpdated();
+    }
+
+    public disconnect(handle: ConnectionHandle): void {
+        if (!this.centrals.delete(handle)) {
+            return;
+        }
+
+        logger(`Central disconnected. Handle = ${handle}`);
+        this.emitUpdated();
+    }
+
+    public clear(): void {
+        if (this.updateTimer != null) {
+            clearTimeout(this.updateTimer);
+            this.updateTimer = null;
+        }
+
+        if (this.centrals.size === 0) {
+            return;
+        }
+
+        this.centrals.clear();
+        this.emitUpdated();
+    }
+
+    public get size(): number {
+        return this.centrals.size;
+    }
+
+    public getAddresses(): Array<string> {
+        return [...this.centrals.values()].map(central => central.address);
+    }
+
+    public findHandle(address: string): ConnectionHandle | null {
+        const entry = [...this.centrals.entries()]
+            .find(([, central]) => central.address.toLowerCase() === address.toLowerCase());
+        return entry?.[0] ?? null;
+    }
+
+    public getCentrals(): Array<CentralInfo> {
+        const now = Date.now();
+        return [...this.centrals.values()].map(central => ({
+            address: central.address,
+            connectedAt: central.connectedAt,
+            subscriptions: [...central.subscriptions.values()].map(subscription => {
+                this.pruneNotificationTimes(subscription, now);
+                return {
+                    characteristic: subscription.characteristic.uuid,
+                    name: this.getName(subscription.characteristic),
+                    subscribedAt: subscription.subscribedAt,
+                    notifications: subscription.notifications,
+                    notificationRate: subscription.notificationTimes.length * 1000 / RATE_WINDOW_MS,
+                    lastPayload: subscription.lastPayload?.toString('hex') ?? null,
+                    lastNotificationAt: subscription.lastNotificationAt,
+                };
+            }),
+        }));
+    }
+
+    private subscribe(handle: ConnectionHandle, characteristic: Characteristic): void {
+        const central = this.centrals.get(handle);
+        if (central == null) {
+            return;
+        }
+
+        logger(`Central ${central.address} subscribed to ${characteristic.uuid}`);
+        central.subscriptions.set(characteristic.uuid, {
+            characteristic,
+            subscribedAt: new Date(),
+            notifications: 0,
+            notificationTimes: [],
+            lastPayload: null,
+            lastNotificationAt: null,
+        });
+        this.emitUpdated();
+    }
+
+    private unsubscribe(handle: ConnectionHandle, characteristic: Characteristic): void {
+        const central = this.centrals.get(handle);
+        if (central == null || !central.subscriptions.delete(characteristic.uuid)) {
+            return;
+        }
+
+        logger(`Central ${central.address} unsubscribed from ${characteristic.uuid}`);
+        this.emitUpdated();
+    }
+
+    // a notification sent without handle went to every central that subscribed the characteristic
+    private notification(characteristic: Characteristic, data: Buffer, handle?: ConnectionHandle): void {
+        const now = Date.now();
+        let notified = false;
+
+        this.centrals.forEach((central, centralHandle) => {
+            if (handle != null && handle !== centralHandle) {
+                return;
+            }
+
+            const subscription = central.subscriptions.get(characteristic.uuid);
+            if (subscription == null) {
+                return;
+            }
+
+            subscription.notifications++;
+            subscription.notificationTimes.push(now);
+            this.pruneNotificationTimes(subscription, now);
+            subscription.lastPayload = Buffer.from(data);
+            subscription.lastNotificationAt = new Date(now);
+            notified = true;
+        });
+
+        if (notified) {
+            this.scheduleUpdated();
+        }
+    }
+
+    private pruneNotificationTimes(subscription: SubscriptionEntry, now: number): void {
+        const index = subscription.notificationTimes.findIndex(time => now - time < RATE_WINDOW_MS);
+        subscription.notificationTimes.splice(0, index === -1 ? subscription.notificationTimes.length : index);
+    }
+
+    private getName(characteristic: Characteristic): string {
+        const description = characteristic.descriptors.find(d => d.uuid === CharacteristicUserDescriptionUUID);
+        return description?.value?.toString() ?? characteristic.uuid;
+    }
+
+    private emitUpdated(): void {
+        if (this.updateTimer != null) {
+            clearTimeout(this.updateTimer);
+            this.updateTimer = null;
+        }
+        this.emit(CentralRegistryEvents.UPDATED, this.getCentrals());
+    }
+
+    private scheduleUpdated(): void {
+        if (this.updateTimer != null) {
+            return;
+        }
+        this.updateTimer = setTimeout(() => {
+            this.updateTimer = null;
+            this.emitUpdated();
+        }, UPDATE_THROTTLE_MS);
+    }
+}
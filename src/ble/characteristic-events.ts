@@ -0,0 +1,6 @@
+/**
+ * Event names emitted by the notifying characteristics
+ */
+export const CharacteristicEvents = {
+    NOTIFICATION: Symbol('Characteristic:notification'),
+} as const;
@@ -0,0 +1,44 @@
+import { bit } from '../../helper';
+
+export const CyclingPowerMeasurementFlag = {
+    PedalPowerBalancePresent: bit(0),           // 0x0001
+    PedalPowerBalanceReference: bit(1),         // 0x0002
+    AccumulatedTorquePresent: bit(2),           // 0x0004
+    AccumulatedTorqueSource: bit(3),            // 0x0008
+    WheelRevolutionDataPresent: bit(4),         // 0x0010
+    CrankRevolutionDataPresent: bit(5),         // 0x0020
+    ExtremeForceMagnitudesPresent: bit(6),      // 0x0040
+    ExtremeTorqueMagnitudesPresent: bit(7),     // 0x0080
+    ExtremeAnglesPresent: bit(8),               // 0x0100
+    TopDeadSpotAnglePresent: bit(9),            // 0x0200
+    BottomDeadSpotAnglePresent: bit(10),        // 0x0400
+    AccumulatedEnergyPresent: bit(11),          // 0x0800
+    OffsetCompensationIndicator: bit(12),       // 0x1000
+};
+
+export const CyclingPowerFeatureFlag = {
+    PedalPowerBalanceSupported: bit(0),         // 0x00000001
+    AccumulatedTorqueSupported: bit(1),         // 0x00000002
+    WheelRevolutionDataSupported: bit(2),       // 0x00000004
+    CrankRevolutionDataSupported: bit(3),       // 0x00000008
+};
+
+export const enum SensorLocation {
+    Other = 0x00,
+    TopOfShoe = 0x01,
+    InShoe = 0x02,
+    Hip = 0x03,
+    FrontWheel = 0x04,
+    LeftCrank = 0x05,
+    RightCrank = 0x06,
+    LeftPedal = 0x07,
+    RightPedal = 0x08,
+    FrontHub = 0x09,
+    RearDropout = 0x0A,
+    Chainstay = 0x0B,
+    RearWheel = 0x0C,
+    RearHub = 0x0D,
+    Chest = 0x0E,
+    Spider = 0x0F,
+    ChainRing = 0x10,
+}
@@ -0,0 +1,32 @@
+import { Characteristic, Descriptor } from '@stoprocent/bleno';
+import debug from 'debug';
+import { CharacteristicUserDescriptionUUID, CyclingPowerFeatureUUID } from '../uuids';
+import { CyclingPowerFeatureFlag } from './cycling-power-data';
+
+const logger = debug('CPS');
+
+export class CyclingPowerFeatureCharacteristic extends Characteristic {
+    public constructor() {
+        logger(`[${CyclingPowerFeatureUUID}][CyclingPowerFeatureCharacteristic] constructor`);
+        super({
+            uuid: CyclingPowerFeatureUUID,
+            properties: ['read'],
+            descriptors: [
+                new Descriptor({
+                    uuid: CharacteristicUserDescriptionUUID,
+                    value: 'Cycling Power Feature',
+                }),
+            ],
+        });
+    }
+
+    public onReadRequest(_handle: number, _offset: number, callback: (result: number, data?: Buffer) => void): void {
+        logger(`[${CyclingPowerFeatureUUID}][CyclingPowerFeatureCharacteristic] onReadRequest`);
+
+        // Cycling Power Features (32bit)
+        const flags = Buffer.alloc(4);
+        flags.writeUInt32LE(CyclingPowerFeatureFlag.CrankRevolutionDataSupported);
+
+        callback(this.RESULT_SUCCESS, flags);
+    }
+}
@@ -0,0 +1,37 @@
+import { Characteristic, Descriptor } from '@stoprocent/bleno';
+import debug from 'debug';
+import { CharacteristicUserDescriptionUUID, CyclingPowerMeasurementUUID } from '../uuids';
+import { CyclingPowerMeasurementFlag } from './cycling-power-data';
+import { CrankRevolutionData } from '../crank-revolution-counter';
+import { CharacteristicEvents } from '../characteristic-events';
+
+const logger = debug('CPS');
+
+export class CyclingPowerMeasurementCharacteristic extends Characteristic {
+
+    public constructor() {
+        logger(`[${CyclingPowerMeasurementUUID}][CyclingPowerMeasurementCharacteristic] constructor`);
+        super({
+            uuid: CyclingPowerMeasurementUUID,
+            properties: ['notify'],
+            descriptors: [
+                new Descriptor({
+                    uuid: CharacteristicUserDescriptionUUID,
+                    value: 'Cycling Power Measurement',
+                }),
+            ],
+        });
+    }
+
+    public updateData(power: number, crank: CrankRevolutionData): void {
+        // Flags (16bit), Instantaneous Power (sint16), Cumulative Crank Revolutions (uint16), Last Crank Event Time (uint16)
+        const data = Buffer.alloc(8);
+        data.writeUInt16LE(CyclingPowerMeasurementFlag.CrankRevolutionDataPresent, 0);
+        data.writeInt16LE(Number.isNaN(power) ? 0 : Math.min(Math.max(Math.round(power), 0), 0x7FFF), 2);
+        data.writeUInt16LE(crank.cumulativeCrankRevolutions, 4);
+        data.writeUInt16LE(crank.lastCrankEventTime, 6);
+
+        this.notify(data);
+        this.emit(CharacteristicEvents.NOTIFICATION, data);
+    }
+}
@@ -0,0 +1,66 @@
+import { CyclingPowerService } from './cycling-power-service';
+import { FakeCentral, FakePeripheralAdapter } from '../adapters/fake-peripheral-adapter';
+import { CyclingPowerFeatureUUID, CyclingPowerMeasurementUUID, SensorLocationUUID } from '../uuids';
+
+describe('CyclingPowerService', () => {
+    let service: CyclingPowerService;
+    let peripheral: FakePeripheralAdapter;
+    let bikeComputer: FakeCentral;
+
+    beforeEach(() => {
+        service = new CyclingPowerService();
+        peripheral = new FakePeripheralAdapter();
+        peripheral.setServices([service]);
+        peripheral.powerOn();
+        bikeComputer = peripheral.connectCentral('aa:bb:cc:dd:ee:ff');
+    });
+
+    it('should notify the power and the crank revolution data', () => {
+        const notifications = bikeComputer.subscribe(CyclingPowerMeasurementUUID);
+
+        service.updateData(215.4, { cumulativeCrankRevolutions: 0x1234, lastCrankEventTime: 0xABCD });
+
+        expect([...notifications[0]]).toEqual([
+            0x20, 0x00, // flags: crank revolution data present
+            0xD7, 0x00, // power 215 W
+            0x34, 0x12, // cumulative crank revolutions
+            0xCD, 0xAB, // last crank event time 1/1024 s
+        ]);
+    });
+
+    it('should clamp the power', () => {
+        const notifications = bikeComputer.subscribe(CyclingPowerMeasurementUUID);
+
+        service.updateData(-20, { cumulativeCrankRevolutions: 0, lastCrankEventTime: 0 });
+        service.updateData(40000, { cumulativeCrankRevolutions: 0, lastCrankEventTime: 0 });
+        service.updateData(NaN, { cumulativeCrankRevolutions: 0, lastCrankEventTime: 0 });
+
+        expect(notifications.map(n => n.readInt16LE(2))).toEqual([0, 0x7FFF, 0]);
+    });
+
+    it('should not notify without subscriber', () => {
+        const notifications = bikeComputer.subscribe(CyclingPowerMeasurementUUID);
+        bikeComputer.unsubscribe(CyclingPowerMeasurementUUID);
+
+        service.updateData(100, { cumulativeCrankRevolutions: 1, lastCrankEventTime: 1024 });
+
+        expect(notifications.length).toBe(0);
+    });
+
+    it('should keep notifying a central after another one unsubscribed', () => {
+        const phone = peripheral.connectCentral('11:22:33:44:55:66');
+        const notifications = bikeComputer.subscribe(CyclingPowerMeasurementUUID);
+        const phoneNotifications = phone.subscribe(CyclingPowerMeasurementUUID);
+        phone.unsubscribe(CyclingPowerMeasurementUUID);
+
+        service.updateData(100, { cumulativeCrankRevolutions: 1, lastCrankEventTime: 1024 });
+
+        expect(notifications.length).toBe(1);
+        expect(phoneNotifications.length).toBe(0);
+    });
+
+    it('should report the crank revolution data feature and the sensor location', async () => {
+        expect([...await bikeComputer.read(CyclingPowerFeatureUUID)]).toEqual([0x08, 0x00, 0x00, 0x00]);
+        expect([...await bikeComputer.read(SensorLocationUUID)]).toEqual([0x00]);
+    });
+});
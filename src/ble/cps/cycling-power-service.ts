@@ -0,0 +1,34 @@
+import debug from 'debug';
+import { PrimaryService } from '@stoprocent/bleno';
+import { CyclingPowerServiceUUID } from '../uuids';
+import { CyclingPowerMeasurementCharacteristic } from './cycling-power-measurement-characteristic';
+import { CyclingPowerFeatureCharacteristic } from './cycling-power-feature-characteristic';
+import { SensorLocationCharacteristic } from './sensor-location-characteristic';
+import { CrankRevolutionData } from '../crank-revolution-counter';
+
+const logger = debug('CPS_SRV');
+
+export class CyclingPowerService extends PrimaryService {
+    private readonly _cyclingPowerMeasurementCharacteristic: CyclingPowerMeasurementCharacteristic;
+
+    public constructor() {
+        logger(`[${CyclingPowerServiceUUID}][CyclingPowerService] constructor`);
+
+        const cyclingPowerMeasurementCharacteristic = new CyclingPowerMeasurementCharacteristic();
+
+        super({
+            uuid: CyclingPowerServiceUUID,
+            characteristics: [
+                cyclingPowerMeasurementCharacteristic,
+                new CyclingPowerFeatureCharacteristic(),
+                new SensorLocationCharacteristic(),
+            ],
+        });
+
+        this._cyclingPowerMeasurementCharacteristic = cyclingPowerMeasurementCharacteristic;
+    }
+
+    public updateData(power: number, crank: CrankRevolutionData): void {
+        this._cyclingPowerMeasurementCharacteristic.updateData(power, crank);
+    }
+}
@@ -0,0 +1 @@
+export { CyclingPowerService } from './cycling-power-service';
\ No newline at end of file
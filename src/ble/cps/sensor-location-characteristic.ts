@@ -0,0 +1,27 @@
+import { Characteristic, Descriptor } from '@stoprocent/bleno';
+import debug from 'debug';
+import { CharacteristicUserDescriptionUUID, SensorLocationUUID } from '../uuids';
+import { SensorLocation } from './cycling-power-data';
+
+const logger = debug('CPS');
+
+export class SensorLocationCharacteristic extends Characteristic {
+    public constructor(private readonly location: SensorLocation = SensorLocation.Other) {
+        logger(`[${SensorLocationUUID}][SensorLocationCharacteristic] constructor`);
+        super({
+            uuid: SensorLocationUUID,
+            properties: ['read'],
+            descriptors: [
+                new Descriptor({
+                    uuid: CharacteristicUserDescriptionUUID,
+                    value: 'Sensor Location',
+                }),
+            ],
+        });
+    }
+
+    public onReadRequest(_handle: number, _offset: number, callback: (result: number, data?: Buffer) => void): void {
+        logger(`[${SensorLocationUUID}][SensorLocationCharacteristic] onReadRequest`);
+        callback(this.RESULT_SUCCESS, Buffer.from([this.location]));
+    }
+}
@@ -0,0 +1,55 @@
+import { CrankRevolutionCounter } from './crank-revolution-counter';
+
+describe('CrankRevolutionCounter', () => {
+    let counter: CrankRevolutionCounter;
+
+    beforeEach(() => {
+        counter = new CrankRevolutionCounter();
+    });
+
+    it('should count the strokes since the first update', () => {
+        expect(counter.update(40, 1000)).toEqual({ cumulativeCrankRevolutions: 0, lastCrankEventTime: 0 });
+
+        expect(counter.update(42, 2000)).toEqual({ cumulativeCrankRevolutions: 2, lastCrankEventTime: 2048 });
+        expect(counter.update(42, 3000).lastCrankEventTime).toBe(2048);
+    });
+
+    it('should keep counting after the S4 was reset', () => {
+        counter.update(40, 1000);
+        counter.update(42, 2000);
+
+        counter.update(0, 3000);
+        const data = counter.update(1, 4000);
+
+        expect(data.cumulativeCrankRevolutions).toBe(3);
+    });
+
+    it('should roll over the revolutions and the event time', () => {
+        counter.update(0, 0);
+        expect(counter.update(0xFFFF, 0).cumulativeCrankRevolutions).toBe(0xFFFF);
+        const data = counter.update(0x10000, 64000);
+
+        expect(data.cumulativeCrankRevolutions).toBe(0);
+        // 65536 / 1024 s
+        expect(data.lastCrankEventTime).toBe(0);
+    });
+
+    it('should space the strokes of the polled counter by the stroke rate', () => {
+        // a stroke every 2.5s at 24 spm, the counter polled every second
+        counter.update(0, 0, 24);
+        counter.update(1, 1000, 24);
+        const times = [3000, 6000, 8000, 11000].map((time, i) => counter.update(i + 2, time, 24).lastCrankEventTime);
+
+        expect(times).toEqual([3000, 5500, 8000, 10500].map(ms => ms * 1024 / 1000));
+    });
+
+    it('should not place the stroke before the stroke time or after the poll', () => {
+        counter.update(0, 0, 24);
+        counter.update(1, 1000, 24);
+
+        // the rower paused
+        expect(counter.update(2, 60000, 24).lastCrankEventTime).toBe(Math.round(57500 * 1024 / 1000) & 0xFFFF);
+        // faster than the stroke rate reported
+        expect(counter.update(4, 61000, 24).lastCrankEventTime).toBe(Math.round(61000 * 1024 / 1000) & 0xFFFF);
+    });
+});
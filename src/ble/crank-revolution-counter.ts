@@ -0,0 +1,45 @@
+export interface CrankRevolutionData {
+    cumulativeCrankRevolutions: number; // uint16, rolls over
+    lastCrankEventTime: number;         // uint16, 1/1024 s, rolls over
+}
+
+/**
+ * Derives the crank revolution data of the cycling profiles from the stroke
+ * counter of the S4, one stroke is reported as one crank revolution.
+ */
+export class CrankRevolutionCounter {
+    private lastStrokeCount: number | null = null;
+    private cumulativeCrankRevolutions = 0;
+    private lastCrankEventTime: number | null = null; // ms
+
+    /// the strokes counted since the last update are spread over the stroke time of the stroke rate
+    public update(strokeCount: number, time: number = Date.now(), strokeRate?: number): CrankRevolutionData {
+        // the S4 restarts counting after a reset, apps expect a counter that never goes backwards
+        if (this.lastStrokeCount != null && strokeCount > this.lastStrokeCount) {
+            const strokes = strokeCount - this.lastStrokeCount;
+            this.cumulativeCrankRevolutions = (this.cumulativeCrankRevolutions + strokes) & 0xFFFF;
+            this.lastCrankEventTime = this.getCrankEventTime(strokes, time, strokeRate);
+        }
+        this.lastStrokeCount = strokeCount;
+
+        return this.getData();
+    }
+
+    public getData(): CrankRevolutionData {
+        return {
+            cumulativeCrankRevolutions: this.cumulativeCrankRevolutions,
+            lastCrankEventTime: Math.round((this.lastCrankEventTime ?? 0) * 1024 / 1000) & 0xFFFF,
+        };
+    }
+
+    /// the stroke counter is polled, the stroke was rowed up to one stroke time before the poll. Apps derive the
+    /// cadence from the event times, the strokes are placed one stroke time after the previous one
+    private getCrankEventTime(strokes: number, time: number, strokeRate?: number): number {
+        if (this.lastCrankEventTime == null || strokeRate == null || strokeRate <= 0) {
+            return time;
+        }
+
+        const strokeTime = 60000 / strokeRate;
+        return Math.min(Math.max(this.lastCrankEventTime + strokes * strokeTime, time - strokeTime), time);
+    }
+}
@@ -0,0 +1,38 @@
+import { Characteristic, Descriptor } from '@stoprocent/bleno';
+import debug from 'debug';
+import { CharacteristicUserDescriptionUUID, CSCFeatureUUID } from '../uuids';
+import { bit } from '../../helper';
+
+const logger = debug('CSCS');
+
+export const CSCFeatureFlag = {
+    WheelRevolutionDataSupported: bit(0),       // 0x0001
+    CrankRevolutionDataSupported: bit(1),       // 0x0002
+    MultipleSensorLocationsSupported: bit(2),   // 0x0004
+};
+
+export class CSCFeatureCharacteristic extends Characteristic {
+    public constructor() {
+        logger(`[${CSCFeatureUUID}][CSCFeatureCharacteristic] constructor`);
+        super({
+            uuid: CSCFeatureUUID,
+            properties: ['read'],
+            descriptors: [
+                new Descriptor({
+                    uuid: CharacteristicUserDescriptionUUID,
+                    value: 'CSC Feature',
+                }),
+            ],
+        });
+    }
+
+    public onReadRequest(_handle: number, _offset: number, callback: (result: number, data?: Buffer) => void): void {
+        logger(`[${CSCFeatureUUID}][CSCFeatureCharacteristic] onReadRequest`);
+
+        // CSC Features (16bit)
+        const flags = Buffer.alloc(2);
+        flags.writeUInt16LE(CSCFeatureFlag.CrankRevolutionDataSupported);
+
+        callback(this.RESULT_SUCCESS, flags);
+    }
+}
@@ -0,0 +1,41 @@
+import { Characteristic, Descriptor } from '@stoprocent/bleno';
+import debug from 'debug';
+import { CharacteristicUserDescriptionUUID, CSCMeasurementUUID } from '../uuids';
+import { CrankRevolutionData } from '../crank-revolution-counter';
+import { bit } from '../../helper';
+import { CharacteristicEvents } from '../characteristic-events';
+
+const logger = debug('CSCS');
+
+export const CSCMeasurementFlag = {
+    WheelRevolutionDataPresent: bit(0),     // 0x01
+    CrankRevolutionDataPresent: bit(1),     // 0x02
+};
+
+export class CSCMeasurementCharacteristic extends Characteristic {
+
+    public constructor() {
+        logger(`[${CSCMeasurementUUID}][CSCMeasurementCharacteristic] constructor`);
+        super({
+            uuid: CSCMeasurementUUID,
+            properties: ['notify'],
+            descriptors: [
+                new Descriptor({
+                    uuid: CharacteristicUserDescriptionUUID,
+                    value: 'CSC Measurement',
+                }),
+            ],
+        });
+    }
+
+    public updateData(crank: CrankRevolutionData): void {
+        // Flags (8bit), Cumulative Crank Revolutions (uint16), Last Crank Event Time (uint16)
+        const data = Buffer.alloc(5);
+        data.writeUInt8(CSCMeasurementFlag.CrankRevolutionDataPresent, 0);
+        data.writeUInt16LE(crank.cumulativeCrankRevolutions, 1);
+        data.writeUInt16LE(crank.lastCrankEventTime, 3);
+
+        this.notify(data);
+        this.emit(CharacteristicEvents.NOTIFICATION, data);
+    }
+}
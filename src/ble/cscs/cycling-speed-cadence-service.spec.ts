@@ -0,0 +1,54 @@
+import { CyclingSpeedCadenceService } from './cycling-speed-cadence-service';
+import { FakeCentral, FakePeripheralAdapter } from '../adapters/fake-peripheral-adapter';
+import { CSCFeatureUUID, CSCMeasurementUUID } from '../uuids';
+
+describe('CyclingSpeedCadenceService', () => {
+    let service: CyclingSpeedCadenceService;
+    let peripheral: FakePeripheralAdapter;
+    let bikeComputer: FakeCentral;
+
+    beforeEach(() => {
+        service = new CyclingSpeedCadenceService();
+        peripheral = new FakePeripheralAdapter();
+        peripheral.setServices([service]);
+        peripheral.powerOn();
+        bikeComputer = peripheral.connectCentral('aa:bb:cc:dd:ee:ff');
+    });
+
+    it('should notify the crank revolution data', () => {
+        const notifications = bikeComputer.subscribe(CSCMeasurementUUID);
+
+        service.updateData({ cumulativeCrankRevolutions: 0xFFFF, lastCrankEventTime: 0x0400 });
+
+        expect([...notifications[0]]).toEqual([
+            0x02, // flags: crank revolution data present
+            0xFF, 0xFF, // cumulative crank revolutions
+            0x00, 0x04, // last crank event time 1/1024 s
+        ]);
+    });
+
+    it('should not notify without subscriber', () => {
+        const notifications = bikeComputer.subscribe(CSCMeasurementUUID);
+        bikeComputer.unsubscribe(CSCMeasurementUUID);
+
+        service.updateData({ cumulativeCrankRevolutions: 1, lastCrankEventTime: 1024 });
+
+        expect(notifications.length).toBe(0);
+    });
+
+    it('should keep notifying a central after another one unsubscribed', () => {
+        const phone = peripheral.connectCentral('11:22:33:44:55:66');
+        const notifications = bikeComputer.subscribe(CSCMeasurementUUID);
+        const phoneNotifications = phone.subscribe(CSCMeasurementUUID);
+        phone.unsubscribe(CSCMeasurementUUID);
+
+        service.updateData({ cumulativeCrankRevolutions: 1, lastCrankEventTime: 1024 });
+
+        expect(notifications.length).toBe(1);
+        expect(phoneNotifications.length).toBe(0);
+    });
+
+    it('should report the crank revolution data feature', async () => {
+        expect([...await bikeComputer.read(CSCFeatureUUID)]).toEqual([0x02, 0x00]);
+    });
+});
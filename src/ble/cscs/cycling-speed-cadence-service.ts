@@ -0,0 +1,32 @@
+import debug from 'debug';
+import { PrimaryService } from '@stoprocent/bleno';
+import { CyclingSpeedAndCadenceServiceUUID } from '../uuids';
+import { CSCMeasurementCharacteristic } from './csc-measurement-characteristic';
+import { CSCFeatureCharacteristic } from './csc-feature-characteristic';
+import { CrankRevolutionData } from '../crank-revolution-counter';
+
+const logger = debug('CSCS_SRV');
+
+export class CyclingSpeedCadenceService extends PrimaryService {
+    private readonly _cscMeasurementCharacteristic: CSCMeasurementCharacteristic;
+
+    public constructor() {
+        logger(`[${CyclingSpeedAndCadenceServiceUUID}][CyclingSpeedCadenceService] constructor`);
+
+        const cscMeasurementCharacteristic = new CSCMeasurementCharacteristic();
+
+        super({
+            uuid: CyclingSpeedAndCadenceServiceUUID,
+            characteristics: [
+                cscMeasurementCharacteristic,
+                new CSCFeatureCharacteristic(),
+            ],
+        });
+
+        this._cscMeasurementCharacteristic = cscMeasurementCharacteristic;
+    }
+
+    public updateData(crank: CrankRevolutionData): void {
+        this._cscMeasurementCharacteristic.updateData(crank);
+    }
+}
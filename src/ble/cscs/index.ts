@@ -0,0 +1 @@
+export { CyclingSpeedCadenceService } from './cycling-speed-cadence-service';
\ No newline at end of file
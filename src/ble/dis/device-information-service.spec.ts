@@ -0,0 +1,47 @@
+import { Characteristic } from '@stoprocent/bleno';
+
+import { DeviceInformationService } from './device-information-service';
+import { FirmwareRevisionStringUUID, ManufacturerNameStringUUID, ModelNumberStringUUID, SoftwareRevisionStringUUID } from '../uuids';
+
+describe('DeviceInformationService', () => {
+    let service: DeviceInformationService;
+
+    const read = (uuid: string, offset: number = 0): { result: number; value?: string } => {
+        let response: { result: number; value?: string } = { result: -1 };
+        service.characteristics.find(c => c.uuid === uuid)!
+            .onReadRequest(0, offset, (result, data) => response = { result, value: data?.toString('utf-8') });
+        return response;
+    };
+
+    beforeEach(() => {
+        service = new DeviceInformationService({
+            manufacturerName: 'WaterRower',
+            modelNumber: 'A1 Home',
+            serialNumber: '',
+            firmwareRevision: '',
+            softwareRevision: '1.4.0',
+        });
+    });
+
+    it('should read the configured strings', () => {
+        expect(read(ManufacturerNameStringUUID).value).toBe('WaterRower');
+        expect(read(SoftwareRevisionStringUUID).value).toBe('1.4.0');
+    });
+
+    it('should read the rest of the string from an offset', () => {
+        expect(read(ManufacturerNameStringUUID, 5).value).toBe('Rower');
+        expect(read(ManufacturerNameStringUUID, 10).value).toBe('');
+    });
+
+    it('should reject an offset beyond the string', () => {
+        expect(read(ManufacturerNameStringUUID, 11)).toEqual({ result: Characteristic.RESULT_INVALID_OFFSET, value: undefined });
+    });
+
+    it('should read the updated model number and firmware revision', () => {
+        service.updateModelNumber('S4');
+        service.updateFirmwareRevision('2.10');
+
+        expect(read(ModelNumberStringUUID).value).toBe('S4');
+        expect(read(FirmwareRevisionStringUUID).value).toBe('2.10');
+    });
+});
@@ -0,0 +1,55 @@
+import debug from 'debug';
+import { PrimaryService } from '@stoprocent/bleno';
+import {
+    DeviceInformationServiceUUID,
+    FirmwareRevisionStringUUID,
+    ManufacturerNameStringUUID,
+    ModelNumberStringUUID,
+    SerialNumberStringUUID,
+    SoftwareRevisionStringUUID,
+} from '../uuids';
+import { StringCharacteristic } from './string-characteristic';
+
+const logger = debug('DIS_SRV');
+
+export interface DeviceInformation {
+    manufacturerName: string;
+    modelNumber: string;
+    serialNumber: string;
+    firmwareRevision: string;
+    softwareRevision: string;
+}
+
+export class DeviceInformationService extends PrimaryService {
+    private readonly _modelNumberCharacteristic: StringCharacteristic;
+    private readonly _firmwareRevisionCharacteristic: StringCharacteristic;
+
+    public constructor(deviceInformation: DeviceInformation) {
+        logger(`[${DeviceInformationServiceUUID}][DeviceInformationService] constructor`);
+
+        const modelNumberCharacteristic = new StringCharacteristic(ModelNumberStringUUID, 'Model Number', deviceInformation.modelNumber);
+        const firmwareRevisionCharacteristic = new StringCharacteristic(FirmwareRevisionStringUUID, 'Firmware Revision', deviceInformation.firmwareRevision);
+
+        super({
+            uuid: DeviceInformationServiceUUID,
+            characteristics: [
+                new StringCharacteristic(ManufacturerNameStringUUID, 'Manufacturer Name', deviceInformation.manufacturerName),
+                modelNumberCharacteristic,
+                new StringCharacteristic(SerialNumberStringUUID, 'Serial Number', deviceInformation.serialNumber),
+                firmwareRevisionCharacteristic,
+                new StringCharacteristic(SoftwareRevisionStringUUID, 'Software Revision', deviceInformation.softwareRevision),
+            ],
+        });
+
+        this._modelNumberCharacteristic = modelNumberCharacteristic;
+        this._firmwareRevisionCharacteristic = firmwareRevisionCharacteristic;
+    }
+
+    public updateModelNumber(modelNumber: string): void {
+        this._modelNumberCharacteristic.setValue(modelNumber);
+    }
+
+    public updateFirmwareRevision(firmwareRevision: string): void {
+        this._firmwareRevisionCharacteristic.setValue(firmwareRevision);
+    }
+}
@@ -0,0 +1 @@
+export { DeviceInformation, DeviceInformationService } from './device-information-service';
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { Characteristic, Descriptor } from '@stoprocent/bleno';
+import debug from 'debug';
+import { CharacteristicUserDescriptionUUID } from '../uuids';
+
+const logger = debug('DIS');
+
+/**
+ * Read-only UTF-8 string characteristic of the Device Information Service
+ */
+export class StringCharacteristic extends Characteristic {
+
+    private _value: string;
+
+    public constructor(uuid: string, description: string, value: string = '') {
+        logger(`[${uuid}][StringCharacteristic] constructor. ${description} = ${value}`);
+        super({
+            uuid,
+            properties: ['read'],
+            descriptors: [
+                new Descriptor({
+                    uuid: CharacteristicUserDescriptionUUID,
+                    value: description,
+                }),
+            ],
+        });
+        this._value = value;
+    }
+
+    public onReadRequest(_handle: number, offset: number, callback: (result: number, data?: Buffer) => void): void {
+        logger(`[${this.uuid}][StringCharacteristic] onReadRequest. Offset = ${offset}`);
+        const data = Buffer.from(this._value, 'utf-8');
+        if (offset > data.length) {
+            callback(this.RESULT_INVALID_OFFSET);
+            return;
+        }
+
+        // values longer than the MTU are fetched with Read Blob requests
+        callback(this.RESULT_SUCCESS, data.subarray(offset));
+    }
+
+    public setValue(value: string): void {
+        this._value = value;
+    }
+}
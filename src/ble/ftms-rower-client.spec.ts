@@ -0,0 +1,235 @@
+import { FtmsRowerClient } from './ftms-rower-client';
+import { FakeCentralAdapter, FakeFtmsRower, FakeHeartRateStrap } from './adapters/fake-central-adapter';
+import { ScanCoordinator } from './adapters';
+import { RowerData, RowerDataCharacteristic } from './ftms/Rower';
+import { DataPoint } from '../waterrower-serial/data-point';
+import { WaterRowerEvents } from '../waterrower-serial/waterrower-events';
+import { ConnectionState } from '../waterrower-serial/connection-state';
+
+describe('FtmsRowerClient', () => {
+    let central: FakeCentralAdapter;
+    let rower: FakeFtmsRower;
+    let client: FtmsRowerClient;
+    let datapoints: Array<DataPoint>;
+
+    // encodes the notifications like the rower data characteristic of our own peripheral
+    const notify = (data: RowerData, maxValueSize: number = 512): void => {
+        const characteristic = new RowerDataCharacteristic();
+        characteristic.onSubscribe(1, maxValueSize, buffer => rower.notifyRowerData(buffer!));
+        characteristic.updateData(data);
+    };
+
+    // lets the promises of the fake adapter settle while the clock is mocked
+    const flush = async (): Promise<void> => {
+        for (let i = 0; i < 5; i++) {
+            await new Promise(resolve => setImmediate(resolve));
+        }
+    };
+
+    const values = (): Record<string, number> =>
+        Object.fromEntries(datapoints.map(d => [d.name, d.value]));
+
+    beforeEach(() => {
+        central = new FakeCentralAdapter();
+        rower = new FakeFtmsRower('pm5-1', 'PM5 430000000');
+        central.addPeripheral(rower);
+
+        client = new FtmsRowerClient(central, 'pm5-1');
+        datapoints = [];
+        client.datapoints$.subscribe(d => datapoints.push(d));
+    });
+
+    afterEach(() => {
+        client.close();
+        client.datapoints$.complete();
+    });
+
+    it('should subscribe to the rower data and emit INITIALIZED', async () => {
+        const initialized = jasmine.createSpy('initialized');
+        client.on(WaterRowerEvents.INITIALIZED, initialized);
+
+        await client.connectAsync();
+
+        expect(initialized).toHaveBeenCalledTimes(1);
+        expect(client.isConnected()).toBeTrue();
+        expect(client.getDeviceName()).toBe('PM5 430000000');
+        expect(rower.findCharacteristic('2ad1')?.isSubscribed()).toBeTrue();
+    });
+
+    it('should discover the rower without device id', async () => {
+        const discovering = new FtmsRowerClient(central);
+
+        await discovering.connectAsync();
+
+        expect(discovering.getDeviceId()).toBe('pm5-1');
+        expect(central.isScanning()).toBeFalse();
+        discovering.close();
+    });
+
+    it('should translate the rower data into S4 datapoints', async () => {
+        await client.connectAsync();
+
+        notify({ strokeRate: 24.5, strokeCount: 112, totalDistance: 1250, instantaneousPace: 125, totalEnergy: 87 });
+
+        expect(values()).toEqual({
+            stroke_rate: 24.5,
+            strokes_cnt: 112,
+            distance: 1250,
+            total_kcal: 87000,
+            m_s_total: 400,
+        });
+        expect(datapoints.find(d => d.name === 'distance')).toEqual(jasmine.objectContaining({ address: '057', length: 2 }));
+    });
+
+    it('should report the metrics in the units of the web UI', async () => {
+        await client.connectAsync();
+
+        notify({ strokeRate: 24.5, strokeCount: 112, totalDistance: 1250, instantaneousPace: 125, totalEnergy: 87 });
+
+        expect(client.getMetrics()).toEqual({ distance: 1250, calories: 87, speed: 4, strokes: 112, strokeRate: 24.5 });
+    });
+
+    it('should combine the notifications split by a small MTU', async () => {
+        await client.connectAsync();
+
+        notify({ strokeRate: 20, strokeCount: 10, totalDistance: 50, instantaneousPace: 150 }, 20);
+
+        expect(values()).toEqual(jasmine.objectContaining({ stroke_rate: 20, strokes_cnt: 10, distance: 50, m_s_total: 333 }));
+    });
+
+    it('should count the session values from the last reset', async () => {
+        await client.connectAsync();
+        notify({ strokeCount: 112, totalDistance: 1250, totalEnergy: 87 });
+
+        client.reset();
+        datapoints = [];
+        notify({ strokeCount: 120, totalDistance: 1330, totalEnergy: 90 });
+
+        expect(values()).toEqual(jasmine.objectContaining({ strokes_cnt: 8, distance: 80, total_kcal: 3000 }));
+    });
+
+    it('should ignore the heart rate straps reported to a heart rate scan on the same adapter', async () => {
+        const discovering = new FtmsRowerClient(central);
+        central.removePeripheral('pm5-1');
+        const connecting = discovering.connectAsync();
+        await flush();
+
+        central.emit('discover', new FakeHeartRateStrap('strap-1', 'HRM-Pro'));
+        await flush();
+        expect(discovering.getDeviceId()).toBeNull();
+
+        central.addPeripheral(rower);
+        await connecting;
+
+        expect(discovering.getDeviceId()).toBe('pm5-1');
+        discovering.close();
+    });
+
+    it('should keep the heart rate scan on the same adapter scanning after the rower was discovered', async () => {
+        const heartRateScan = {};
+        await ScanCoordinator.of(central).startScanningAsync(heartRateScan, ['180d']);
+        const discovering = new FtmsRowerClient(central);
+
+        await discovering.connectAsync();
+
+        expect(discovering.getDeviceId()).toBe('pm5-1');
+        expect(central.isScanning()).toBeTrue();
+        await ScanCoordinator.of(central).stopScanningAsync(heartRateScan);
+        discovering.close();
+    });
+
+    it('should disconnect from the rower if subscribing to the rower data fails', async () => {
+        spyOn(rower.findCharacteristic('2ad1')!, 'subscribeAsync').and.rejectWith(new Error('ATT timeout'));
+
+        await expectAsync(client.connectAsync()).toBeRejectedWithError('ATT timeout');
+
+        expect(rower.connected).toBeFalse();
+        expect(client.isConnected()).toBeFalse();
+    });
+
+    it('should report the closed connection before the rower disconnected', async () => {
+        await client.connectAsync();
+        // the rower confirms the disconnect later
+        spyOn(rower, 'disconnectAsync').and.resolveTo();
+        const states: Array<ConnectionState> = [];
+        client.on(WaterRowerEvents.STATE_CHANGED, (state: ConnectionState) => states.push(state));
+
+        client.close();
+
+        expect(states).toEqual([ConnectionState.DISCONNECTED]);
+        expect(client.isConnected()).toBeFalse();
+    });
+
+    it('should publish the measured power', async () => {
+        const power: Array<number> = [];
+        client.power$.subscribe(p => power.push(p));
+        await client.connectAsync();
+
+        notify({ instantaneousPace: 125, instantaneousPower: 182 });
+
+        expect(power).toEqual([182]);
+    });
+
+    describe('connection lifecycle', () => {
+        beforeEach(() => {
+            jasmine.clock().install();
+        });
+
+        afterEach(() => {
+            jasmine.clock().uninstall();
+        });
+
+        it('should reconnect after the rower disconnected without emitting CLOSE', async () => {
+            const closed = jasmine.createSpy('closed');
+            client.on(WaterRowerEvents.CLOSE, closed);
+            client.connect();
+            await flush();
+
+            rower.simulateDisconnect();
+
+            expect(closed).not.toHaveBeenCalled();
+            expect(client.isConnected()).toBeFalse();
+            expect(client.getConnectionState()).toBe(ConnectionState.ERROR);
+
+            jasmine.clock().tick(1000);
+            await flush();
+
+            expect(client.isConnected()).toBeTrue();
+            expect(rower.findCharacteristic('2ad1')?.isSubscribed()).toBeTrue();
+        });
+
+        it('should search the rower again until it is switched on', async () => {
+            central.removePeripheral('pm5-1');
+            const discovering = new FtmsRowerClient(central);
+            discovering.connect();
+            await flush();
+
+            jasmine.clock().tick(30000);
+            await flush();
+            expect(discovering.getConnectionState()).toBe(ConnectionState.ERROR);
+
+            central.addPeripheral(rower);
+            jasmine.clock().tick(1000);
+            await flush();
+
+            expect(discovering.isConnected()).toBeTrue();
+            expect(discovering.getDeviceId()).toBe('pm5-1');
+            discovering.close();
+        });
+
+        it('should emit CLOSE and not reconnect when closed on request', async () => {
+            const closed = jasmine.createSpy('closed');
+            client.on(WaterRowerEvents.CLOSE, closed);
+            client.connect();
+            await flush();
+
+            client.close();
+            jasmine.clock().tick(10000);
+            await flush();
+
+            expect(closed).toHaveBeenCalledTimes(1);
+            expect(client.isConnected()).toBeFalse();
+            expect(client.getConnectionState()).toBe(ConnectionState.DISCONNECTED);
+        });
+    });
+});
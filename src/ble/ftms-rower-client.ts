@@ -0,0 +1,274 @@
+import debug from 'debug';
+import { EventEmitter } from 'events';
+import { Subject } from 'rxjs';
+
+import { CentralAdapter, RemotePeripheral, ScanCoordinator } from './adapters';
+import { parseRowerData } from './ftms/Rower';
+import { RowerDataSource } from '../rower/rower-data-source';
+import { WaterRowerEvents } from '../waterrower-serial/waterrower-events';
+import { DataPoint } from '../waterrower-serial/data-point';
+import { DataPointName, DataPoints } from '../waterrower-serial/datapoints-config';
+import { ModelInformation } from '../waterrower-serial/model-information';
+import { ConnectionState } from '../waterrower-serial/connection-state';
+import { S4Metrics, decodeS4Metrics } from '../waterrower-serial/s4-metrics';
+
+const logger = debug('FTMS_ROWER');
+
+const FITNESS_MACHINE_SERVICE_UUID = '1826';
+const ROWER_DATA_UUID = '2ad1';
+const DISCOVERY_TIMEOUT = 30000;
+// Backoff of the reconnection after the rower was not found or the connection was lost, e.g. the monitor went to sleep
+const RECONNECT_INITIAL_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 10000;
+const DEFAULT_DEVICE_NAME = 'FTMS Rower';
+// bytes of the S4 register the datapoint is reported for
+const REGISTER_SIZES: Record<string, number> = { S: 1, D: 2, T: 3 };
+
+interface RowerTotals {
+    distance: number; // m
+    strokes: number;
+    energy: number; // kcal
+}
+
+/**
+ * Rowing machine publishing the Fitness Machine Service, e.g. a Concept2 PM5 or a rower without S4 USB port.
+ * The Rower Data notifications are translated into the datapoints of the S4 so the rower can replace the WaterRower.
+ */
+export class FtmsRowerClient extends EventEmitter implements RowerDataSource {
+    private peripheral?: RemotePeripheral;
+    private connected = false;
+    private connecting = false;
+    // false once closed on request, the connection is not restored then
+    private keepConnected = false;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private reconnectAttempt = 0;
+    private deviceName = DEFAULT_DEVICE_NAME;
+    // the machine can not be reset remotely, the session values are counted from the totals at the last reset
+    private baseline: RowerTotals = { distance: 0, strokes: 0, energy: 0 };
+    private totals: RowerTotals = { distance: 0, strokes: 0, energy: 0 };
+    // the last value published for each datapoint, like the registers of the S4
+    private registers: Partial<Record<DataPointName, number>> = {};
+
+    public datapoints$ = new Subject<DataPoint>();
+    public power$ = new Subject<number>();
+
+    /// connects to the first rower advertising the Fitness Machine Service without device id
+    constructor(private readonly central: CentralAdapter, private deviceId: string | null = null) {
+        super();
+    }
+
+    /// connects until closed, the rower is searched again while it is switched off or out of range
+    public connect(): void {
+        if (this.connected || this.connecting) {
+            return;
+        }
+
+        this.keepConnected = true;
+        this.cancelReconnect();
+        this.openConnection();
+    }
+
+    public async connectAsync(): Promise<void> {
+        await this.central.waitForPoweredOnAsync();
+        const deviceId = this.deviceId ?? await this.discoverAsync();
+
+        logger(`Connecting to FTMS rower ${deviceId}...`);
+        const peripheral = await this.central.connectAsync(deviceId);
+        // reported as STATE_CHANGED only, a session keeps running while the connection is restored
+        peripheral.once('disconnect', () => {
+            logger('FTMS rower disconnected');
+            this.connected = false;
+            this.peripheral = undefined;
+            this.scheduleReconnect();
+            this.emit(WaterRowerEvents.STATE_CHANGED, this.getConnectionState());
+        });
+
+        try {
+            const { services } = await peripheral.discoverAllServicesAndCharacteristicsAsync();
+            const rowerData = services
+                .find(s => s.uuid === FITNESS_MACHINE_SERVICE_UUID)
+                ?.characteristics.find(c => c.uuid === ROWER_DATA_UUID);
+            if (rowerData == null) {
+                throw new Error('Rower Data characteristic not found');
+            }
+
+            rowerData.on('data', (data: Buffer) => this.handleRowerData(data));
+            await rowerData.subscribeAsync();
+        } catch (err) {
+            // a rower without rower data is of no use, it is searched again like a rower out of range
+            await peripheral.disconnectAsync()
+                .catch(disconnectErr => logger(`Failed to disconnect from the FTMS rower: ${disconnectErr}`));
+            throw err;
+        }
+
+        this.peripheral = peripheral;
+        this.deviceId = deviceId;
+        this.deviceName = peripheral.advertisement.localName || DEFAULT_DEVICE_NAME;
+        this.connected = true;
+        logger(`Receiving rower data of ${this.deviceName}`);
+        this.emit(WaterRowerEvents.STATE_CHANGED, this.getConnectionState());
+        this.emit(WaterRowerEvents.INITIALIZED);
+    }
+
+    public isConnected(): boolean {
+        return this.connected;
+    }
+
+    public getConnectionState(): ConnectionState {
+        if (this.connected) {
+            return ConnectionState.READY;
+        }
+        if (this.connecting) {
+            return ConnectionState.CONNECTING;
+        }
+        return this.reconnectTimer != null ? ConnectionState.ERROR : ConnectionState.DISCONNECTED;
+    }
+
+    public getDeviceId(): string | null {
+        return this.deviceId;
+    }
+
+    public getDeviceName(): string {
+        return this.deviceName;
+    }
+
+    public getModelInformation(): ModelInformation | null {
+        return null;
+    }
+
+    public getMetrics(): S4Metrics {
+        return decodeS4Metrics(name => this.registers[name]);
+    }
+
+    public reset(): void {
+        logger('Resetting FTMS rower session values...');
+        this.baseline = { ...this.totals };
+    }
+
+    /// closes the connection on request, connect connects again
+    public close(): void {
+        logger('Closing FTMS rower...');
+        this.keepConnected = false;
+        this.cancelReconnect();
+        // the state is reported as closed right away, the disconnect event follows
+        this.connected = false;
+        this.peripheral?.disconnectAsync()
+            .catch(err => logger(`Failed to disconnect from the FTMS rower: ${err}`));
+        this.emit(WaterRowerEvents.STATE_CHANGED, this.getConnectionState());
+        this.emit(WaterRowerEvents.CLOSE);
+    }
+
+    private openConnection(): void {
+        this.connecting = true;
+        this.emit(WaterRowerEvents.STATE_CHANGED, this.getConnectionState());
+        this.connectAsync()
+            .then(() => {
+                this.reconnectAttempt = 0;
+            })
+            .catch((err: Error) => {
+                logger(`Failed to connect to the FTMS rower: ${err.message}`);
+                this.emit(WaterRowerEvents.ERROR, err);
+                this.scheduleReconnect();
+            })
+            .finally(() => {
+                this.connecting = false;
+                this.emit(WaterRowerEvents.STATE_CHANGED, this.getConnectionState());
+            });
+    }
+
+    private scheduleReconnect(): void {
+        if (!this.keepConnected || this.reconnectTimer != null) {
+            return;
+        }
+
+        const delay = Math.min(RECONNECT_INITIAL_DELAY * Math.pow(2, this.reconnectAttempt), RECONNECT_MAX_DELAY);
+        this.reconnectAttempt++;
+        logger(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempt})`);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.openConnection();
+        }, delay);
+    }
+
+    private cancelReconnect(): void {
+        if (this.reconnectTimer != null) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        this.reconnectAttempt = 0;
+    }
+
+    private async discoverAsync(): Promise<string> {
+        logger('No FTMS rower configured. Attempting to discover...');
+        let onDiscover: ((peripheral: RemotePeripheral) => void) | undefined;
+        let timeout: NodeJS.Timeout | undefined;
+        try {
+            const discovered = new Promise<string>((resolve, reject) => {
+                // a heart rate scan on the same adapter reports its straps as well
+                onDiscover = peripheral => {
+                    if (peripheral.advertisement.serviceUuids?.some(uuid => uuid.toLowerCase() === FITNESS_MACHINE_SERVICE_UUID)) {
+                        resolve(peripheral.id);
+                    }
+                };
+                timeout = setTimeout(() => reject(new Error('No FTMS rower found')), DISCOVERY_TIMEOUT);
+            });
+            this.central.on('discover', onDiscover!);
+            await ScanCoordinator.of(this.central).startScanningAsync(this, [FITNESS_MACHINE_SERVICE_UUID]);
+
+            const deviceId = await discovered;
+            logger(`Discovered a FTMS rower: ${deviceId}`);
+            return deviceId;
+        } finally {
+            clearTimeout(timeout);
+            this.central.removeListener('discover', onDiscover!);
+            await ScanCoordinator.of(this.central).stopScanningAsync(this);
+        }
+    }
+
+    private handleRowerData(data: Buffer): void {
+        const rowerData = parseRowerData(data);
+        const time = new Date();
+
+        if (rowerData.strokeRate != null) {
+            this.publish(time, 'stroke_rate', rowerData.strokeRate);
+        }
+        if (rowerData.strokeCount != null) {
+            this.publish(time, 'strokes_cnt', this.sinceReset('strokes', rowerData.strokeCount));
+        }
+        if (rowerData.totalDistance != null) {
+            this.publish(time, 'distance', this.sinceReset('distance', rowerData.totalDistance));
+        }
+        if (rowerData.totalEnergy != null) {
+            // the S4 counts calories
+            this.publish(time, 'total_kcal', this.sinceReset('energy', rowerData.totalEnergy) * 1000);
+        }
+        if (rowerData.instantaneousPace != null) {
+            // seconds per 500m to cm/s
+            this.publish(time, 'm_s_total', rowerData.instantaneousPace > 0 ? Math.round(50000 / rowerData.instantaneousPace) : 0);
+        }
+        if (rowerData.instantaneousPower != null) {
+            this.power$.next(rowerData.instantaneousPower);
+        }
+    }
+
+    private sinceReset(field: keyof RowerTotals, total: number): number {
+        this.totals[field] = total;
+        // the machine was reset on its own, e.g. a new workout was started on the monitor
+        if (total < this.baseline[field]) {
+            this.baseline[field] = 0;
+        }
+        return total - this.baseline[field];
+    }
+
+    private publish(time: Date, name: DataPointName, value: number): void {
+        const definition = DataPoints.find(d => d.name === name);
+        this.registers[name] = value;
+        this.datapoints$.next({
+            time,
+            name,
+            address: definition?.address ?? '',
+            length: REGISTER_SIZES[definition?.length ?? ''] ?? 0,
+            value,
+        });
+    }
+}
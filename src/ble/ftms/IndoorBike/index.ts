@@ -1 +1,2 @@
-export { IndoorBikeFeatureCharacteristic } from './indoor-bike-feature-chracteristic';
\ No newline at end of file
+export { IndoorBikeFeatureCharacteristic } from './indoor-bike-feature-chracteristic';
+export { BikeConversionOptions, CyclingData, RowingToCyclingConverter } from './rowing-to-cycling-converter';
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { IndoorBikeDataCharacteristic } from './indoor-bike-data-chracteristic';
+import { FitnessMachineService } from '../ftms-service';
+import { IndoorBikeDataUUID } from '../../uuids';
+import { TrainingDataPoint } from '../../../training/training-session';
+
+describe('IndoorBikeDataCharacteristic', () => {
+    let characteristic: IndoorBikeDataCharacteristic;
+    let notifications: Array<Buffer>;
+
+    beforeEach(() => {
+        notifications = [];
+        characteristic = new IndoorBikeDataCharacteristic();
+        characteristic.onSubscribe(0, 20, data => notifications.push(data));
+    });
+
+    it('should not notify without subscriber', () => {
+        characteristic.onUnsubscribe(0);
+        characteristic.updateData({ speed: 30, cadence: 90, power: 200, distance: 1000 });
+
+        expect(notifications.length).toBe(0);
+    });
+
+    it('should encode speed, cadence, distance and power', () => {
+        characteristic.updateData({ speed: 32.4, cadence: 84.5, power: 215, distance: 0x012345 });
+
+        expect(notifications.length).toBe(1);
+        expect([...notifications[0]]).toEqual([
+            0x54, 0x00, // flags: cadence, total distance and power present, MoreData cleared (speed present)
+            0xA8, 0x0C, // speed 3240 * 0.01 km/h
+            0xA9, 0x00, // cadence 169 * 0.5 rpm
+            0x45, 0x23, 0x01, // total distance 74565 m
+            0xD7, 0x00, // power 215 W
+        ]);
+    });
+
+    it('should clamp values to the field ranges', () => {
+        characteristic.updateData({ speed: -5, cadence: 0, power: 40000, distance: 0x1000000 });
+
+        const data = notifications[0];
+        expect(data.readUInt16LE(2)).toBe(0);
+        expect(data.readUIntLE(6, 3)).toBe(0xFFFFFF);
+        expect(data.readInt16LE(9)).toBe(0x7FFF);
+    });
+
+    it('should keep the last power while pedalling without power reading', () => {
+        characteristic.updateData({ speed: 30, cadence: 80, power: 180, distance: 100 });
+        characteristic.updateData({ speed: 30, cadence: 80, power: 0, distance: 110 });
+
+        expect(notifications[1].readInt16LE(9)).toBe(180);
+    });
+
+    it('should return the last values on read', () => {
+        characteristic.updateData({ speed: 30, cadence: 80, power: 180, distance: 100 });
+
+        let value: Buffer | undefined;
+        characteristic.onReadRequest(0, 0, (_result, data) => value = data);
+
+        expect(value).toEqual(notifications[0]);
+    });
+
+    it('should return the latest values on read without subscriber', () => {
+        characteristic.onUnsubscribe(0);
+        characteristic.updateData({ speed: 30, cadence: 80, power: 180, distance: 100 });
+        characteristic.updateData({ speed: 30, cadence: 80, power: 0, distance: 110 });
+
+        let value: Buffer | undefined;
+        characteristic.onReadRequest(0, 0, (_result, data) => value = data);
+
+        expect(value!.readUIntLE(6, 3)).toBe(110);
+        expect(value!.readInt16LE(9)).toBe(180);
+    });
+
+    describe('with FitnessMachineService conversion', () => {
+        const dataPoint: TrainingDataPoint = {
+            timestamp: new Date('2025-12-05T10:00:00Z'),
+            elapsedTime: 60,
+            distance: 250,
+            strokeRate: 24,
+            power: 200,
+            speed: 4.5,
+        };
+
+        const encode = (service: FitnessMachineService): Buffer => {
+            const dataCharacteristic = service.characteristics.find(c => c.uuid === IndoorBikeDataUUID) as IndoorBikeDataCharacteristic;
+            const buffers: Array<Buffer> = [];
+            dataCharacteristic.onSubscribe(0, 20, data => buffers.push(data));
+            service.updateTrainingData(dataPoint);
+            return buffers[0];
+        };
+
+        it('should encode the raw rowing values', () => {
+            const service = new FitnessMachineService('bike', false, { strategy: 'raw', cadenceFactor: 4, powerFactor: 1.5, speedFactor: 2 });
+
+            expect([...encode(service)]).toEqual([
+                0x54, 0x00,
+                0x54, 0x06, // 16.2 km/h
+                0x30, 0x00, // 24 rpm
+                0xFA, 0x00, 0x00, // 250 m
+                0xC8, 0x00, // 200 W
+            ]);
+        });
+
+        it('should encode the pace-equivalent values', () => {
+            const service = new FitnessMachineService('bike', false, { strategy: 'pace-equivalent', cadenceFactor: 4, powerFactor: 1.5, speedFactor: 2 });
+
+            expect([...encode(service)]).toEqual([
+                0x54, 0x00,
+                0xA8, 0x0C, // 32.4 km/h
+                0xC0, 0x00, // 96 rpm
+                0xF4, 0x01, 0x00, // 500 m
+                0xC8, 0x00, // 200 W
+            ]);
+        });
+
+        it('should encode the power-equivalent power and cadence', () => {
+            const service = new FitnessMachineService('bike', false, { strategy: 'power-equivalent', cadenceFactor: 4, powerFactor: 1.5, speedFactor: 2 });
+
+            const data = encode(service);
+            expect(data.readUInt16LE(4)).toBe(192); // 96 rpm
+            expect(data.readInt16LE(9)).toBe(300);
+        });
+    });
+});
@@ -2,13 +2,14 @@ import { Characteristic, Descriptor } from '@stoprocent/bleno';
 import debug from 'debug';
 import { CharacteristicUserDescriptionUUID, IndoorBikeDataUUID } from '../../uuids';
 import { IndoorBikeDataFlag } from './indoor-bike-data';
+import { CyclingData } from './rowing-to-cycling-converter';
+import { CharacteristicEvents } from '../../characteristic-events';
 
 const logger = debug('FTMS');
 export class IndoorBikeDataCharacteristic extends Characteristic {
 
     private _updateValueCallback: ((data: Buffer) => void) | null = null;
-    private _power: number = 0;
-    private _cadence: number = 0;
+    private _data: CyclingData = { speed: 0, cadence: 0, power: 0, distance: 0 };
 
     public constructor() {
         logger(`[${IndoorBikeDataUUID}][IndoorBikeDataCharacteristic] constructor`);
@@ -26,16 +27,7 @@ export class IndoorBikeDataCharacteristic extends Characteristic {
 
     public onReadRequest(_handle: number, _offset: number, callback: (result: number, data?: Buffer) => void): void {
         logger(`[${IndoorBikeDataUUID}][IndoorBikeDataCharacteristic] onReadRequest`);
-
-        // Flags (16bit)
-        // cadence (16bit)
-        // power (16bit)
-        const data = Buffer.alloc(6);
-        data.writeUInt32LE(IndoorBikeDataFlag.InstantaneousCadence | IndoorBikeDataFlag.InstantaneousPowerPresent | IndoorBikeDataFlag.MoreData);
-        data.writeUInt16LE(0, 2);
-        data.writeUInt16LE(0, 4);
-
-        callback(this.RESULT_SUCCESS, data);
+        callback(this.RESULT_SUCCESS, this.encode());
     }
 
     public onSubscribe(_handle: number, _maxValueSize: number, updateValueCallback: (data: Buffer) => void): void {
@@ -48,30 +40,43 @@ export class IndoorBikeDataCharacteristic extends Characteristic {
         this._updateValueCallback = null;
     }
 
-    public updateData(power: number | null, cadence: number | null): void {
-        if (this._updateValueCallback == null) {
-            return;
+    public updateData(data: CyclingData): void {
+        if (Number.isNaN(data.power) || Number.isNaN(data.cadence)) {
+            logger(`[${IndoorBikeDataUUID}][IndoorBikeDataCharacteristic] error invalid values. Power = ${data.power}, Cadence = ${data.cadence}`);
         }
 
-        if (power === Number.NaN || cadence === Number.NaN) {
-            logger(`[${IndoorBikeDataUUID}][IndoorBikeDataCharacteristic] error invalid values. Power = ${power}, Cadence = ${cadence}`);
-        }
+        // the S4 reports the speed and the stroke rate at different times, keep the power while pedalling
+        const power = data.power == 0 && data.cadence > 0 ? this._data.power : data.power;
+        // kept without subscriber for the read requests
+        this._data = { ...data, power };
 
-        cadence = cadence == null ? this._cadence : cadence;
-        power = power == null ? this._power : power;
-        if (power == 0 && cadence > 0) {
-            power = this._power;
+        if (this._updateValueCallback == null) {
+            return;
         }
 
-        this._power = power;
-        this._cadence = cadence;
+        const encoded = this.encode();
+        this._updateValueCallback(encoded);
+        this.emit(CharacteristicEvents.NOTIFICATION, encoded);
+    }
 
-        const data = Buffer.alloc(6);
-        data.writeUInt16LE(IndoorBikeDataFlag.InstantaneousCadence | IndoorBikeDataFlag.InstantaneousPowerPresent | IndoorBikeDataFlag.MoreData);
-        data.writeUInt16LE(this._cadence * 8, 2);
-        data.writeUInt16LE(this._power * 1.5, 4);
+    /// Flags (16bit), Instantaneous Speed (uint16, 0.01 km/h), Instantaneous Cadence (uint16, 0.5 rpm),
+    /// Total Distance (uint24, m), Instantaneous Power (sint16, W).
+    /// Speed is present when the MoreData flag is cleared.
+    private encode(): Buffer {
+        const data = Buffer.alloc(11);
+        data.writeUInt16LE(IndoorBikeDataFlag.InstantaneousCadence | IndoorBikeDataFlag.TotalDistancePresent | IndoorBikeDataFlag.InstantaneousPowerPresent);
+        data.writeUInt16LE(this.clamp(Math.round(this._data.speed * 100), 0, 0xFFFF), 2);
+        data.writeUInt16LE(this.clamp(Math.round(this._data.cadence * 2), 0, 0xFFFF), 4);
+        data.writeUIntLE(this.clamp(Math.round(this._data.distance), 0, 0xFFFFFF), 6, 3);
+        data.writeInt16LE(this.clamp(Math.round(this._data.power), -0x8000, 0x7FFF), 9);
 
-        this._updateValueCallback(data);
+        return data;
+    }
 
+    private clamp(value: number, min: number, max: number): number {
+        if (Number.isNaN(value)) {
+            return 0;
+        }
+        return Math.min(Math.max(value, min), max);
     }
 }
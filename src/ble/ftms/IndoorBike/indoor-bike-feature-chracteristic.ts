@@ -2,11 +2,27 @@ import { Characteristic, Descriptor } from '@stoprocent/bleno';
 import debug from 'debug';
 import { CharacteristicUserDescriptionUUID, FitnessMachineFeatureUUID } from '../../uuids';
 import { FitnessMachineFeatureFlag } from './indoor-bike-data';
+import { FtmsMachineType } from '../../../helper/config-manager';
 
 const logger = debug('FTMS');
+
+// Only advertise the features that are actually sent by the data characteristic of the machine type
+const MACHINE_FEATURES: Record<FtmsMachineType, number> = {
+    rower: FitnessMachineFeatureFlag.CadenceSupported
+        | FitnessMachineFeatureFlag.TotalDistanceSupported
+        | FitnessMachineFeatureFlag.PaceSupported
+        | FitnessMachineFeatureFlag.ExpendedEnergySupported
+        | FitnessMachineFeatureFlag.HeartRateMeasurementSupported
+        | FitnessMachineFeatureFlag.ElapsedTimeSupported
+        | FitnessMachineFeatureFlag.PowerMeasurementSupported,
+    bike: FitnessMachineFeatureFlag.CadenceSupported
+        | FitnessMachineFeatureFlag.TotalDistanceSupported
+        | FitnessMachineFeatureFlag.PowerMeasurementSupported,
+};
+
 export class IndoorBikeFeatureCharacteristic extends Characteristic {
-    public constructor() {
-        logger(`[${FitnessMachineFeatureUUID}][IndoorBikeFeatureCharacteristic] constructor`);
+    public constructor(private readonly machineType: FtmsMachineType = 'bike', private readonly includeHeartRate: boolean = true) {
+        logger(`[${FitnessMachineFeatureUUID}][IndoorBikeFeatureCharacteristic] constructor. machineType = ${machineType}`);
         super({
             uuid: FitnessMachineFeatureUUID,
             properties: ['read'],
@@ -23,7 +39,10 @@ export class IndoorBikeFeatureCharacteristic extends Characteristic {
 
         // Fitness Machine Features (32bit), Target Setting Features (32bit)
         const flags = Buffer.alloc(8);
-        flags.writeUInt32LE(FitnessMachineFeatureFlag.CadenceSupported | FitnessMachineFeatureFlag.PowerMeasurementSupported);
+        const features = this.includeHeartRate
+            ? MACHINE_FEATURES[this.machineType]
+            : MACHINE_FEATURES[this.machineType] & ~FitnessMachineFeatureFlag.HeartRateMeasurementSupported;
+        flags.writeUInt32LE(features);
         flags.writeUInt32LE(0x0000, 4);
 
         callback(this.RESULT_SUCCESS, flags);
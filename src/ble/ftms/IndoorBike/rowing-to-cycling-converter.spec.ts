@@ -0,0 +1,97 @@
+import { BikeConversionOptions, RowingToCyclingConverter } from './rowing-to-cycling-converter';
+import { TrainingDataPoint } from '../../../training/training-session';
+
+describe('RowingToCyclingConverter', () => {
+    const options: BikeConversionOptions = {
+        strategy: 'raw',
+        cadenceFactor: 3,
+        powerFactor: 1.5,
+        speedFactor: 2,
+    };
+
+    const dataPoint: TrainingDataPoint = {
+        timestamp: new Date('2025-12-05T10:00:00Z'),
+        elapsedTime: 60,
+        distance: 250,
+        strokeRate: 24,
+        power: 200,
+        speed: 4.5,
+    };
+
+    it('should pass the rowing values through with the raw strategy', () => {
+        const converter = new RowingToCyclingConverter({ ...options, strategy: 'raw' });
+
+        expect(converter.convert(dataPoint)).toEqual({
+            speed: 4.5 * 3.6,
+            cadence: 24,
+            power: 200,
+            distance: 250,
+        });
+    });
+
+    it('should only scale the cadence with the scaled-cadence strategy', () => {
+        const converter = new RowingToCyclingConverter({ ...options, strategy: 'scaled-cadence' });
+
+        expect(converter.convert(dataPoint)).toEqual({
+            speed: 4.5 * 3.6,
+            cadence: 72,
+            power: 200,
+            distance: 250,
+        });
+    });
+
+    it('should scale speed and distance with the pace-equivalent strategy', () => {
+        const converter = new RowingToCyclingConverter({ ...options, strategy: 'pace-equivalent' });
+
+        expect(converter.convert(dataPoint)).toEqual({
+            speed: 4.5 * 2 * 3.6,
+            cadence: 72,
+            power: 200,
+            distance: 500,
+        });
+    });
+
+    it('should derive the speed from the scaled power with the power-equivalent strategy', () => {
+        const converter = new RowingToCyclingConverter({ ...options, strategy: 'power-equivalent' });
+
+        const cycling = converter.convert(dataPoint);
+
+        expect(cycling.power).toBe(300);
+        expect(cycling.cadence).toBe(72);
+        expect(cycling.speed).toBeCloseTo(RowingToCyclingConverter.speedFromPower(300) * 3.6, 6);
+    });
+
+    it('should accumulate the power-equivalent distance from the rowed distance', () => {
+        const converter = new RowingToCyclingConverter({ ...options, strategy: 'power-equivalent' });
+        const bikeSpeed = RowingToCyclingConverter.speedFromPower(300);
+
+        expect(converter.convert(dataPoint).distance).toBe(0);
+        expect(converter.convert({ ...dataPoint, distance: 259 }).distance).toBeCloseTo(9 * bikeSpeed / 4.5, 6);
+
+        // a new session starts over
+        expect(converter.convert({ ...dataPoint, distance: 0 }).distance).toBe(0);
+    });
+
+    it('should treat missing rowing values as zero', () => {
+        const converter = new RowingToCyclingConverter({ ...options, strategy: 'power-equivalent' });
+
+        expect(converter.convert({ timestamp: new Date(), elapsedTime: 0 })).toEqual({
+            speed: 0,
+            cadence: 0,
+            power: 0,
+            distance: 0,
+        });
+    });
+
+    describe('speedFromPower', () => {
+        it('should return zero without power', () => {
+            expect(RowingToCyclingConverter.speedFromPower(0)).toBe(0);
+            expect(RowingToCyclingConverter.speedFromPower(-10)).toBe(0);
+        });
+
+        it('should return a realistic road speed', () => {
+            // about 34 km/h at 200 W on the flat
+            expect(RowingToCyclingConverter.speedFromPower(200) * 3.6).toBeCloseTo(34.2, 1);
+        });
+    });
+});
@@ -0,0 +1,122 @@
+import { AppConfig, BikeConversionStrategy } from '../../../helper/config-manager';
+import { TrainingDataPoint } from '../../../training/training-session';
+
+export type BikeConversionOptions = NonNullable<AppConfig['ble']>['bikeConversion'];
+
+export interface CyclingData {
+    speed: number; // km/h
+    cadence: number; // rpm
+    power: number; // watts
+    distance: number; // meters
+}
+
+interface RowingData {
+    speed: number; // m/s
+    strokeRate: number; // strokes per minute
+    power: number; // watts
+    distance: number; // meters
+}
+
+// Flat road model of a rider on a road bike: P = Crr·m·g·v + ½·ρ·CdA·v³
+const SYSTEM_MASS = 85; // kg, rider and bike
+const ROLLING_RESISTANCE = 0.004;
+const DRAG_AREA = 0.32; // m², hoods position
+const AIR_DENSITY = 1.226; // kg/m³
+const GRAVITY = 9.81;
+
+const MS_TO_KMH = 3.6;
+
+/**
+ * Presents rowing values as the values of an indoor bike. Apps like Zwift
+ * expect a pedalling cadence and cycling power, the strategy decides which
+ * values are scaled and which are passed through.
+ */
+export class RowingToCyclingConverter {
+    private _distance = 0;
+    private _lastRowingDistance: number | null = null;
+
+    public constructor(private readonly options: BikeConversionOptions) {
+    }
+
+    public getStrategy(): BikeConversionStrategy {
+        return this.options.strategy;
+    }
+
+    public convert(dataPoint: TrainingDataPoint): CyclingData {
+        const rowing: RowingData = {
+            speed: dataPoint.speed ?? 0,
+            strokeRate: dataPoint.strokeRate ?? 0,
+            power: dataPoint.power ?? 0,
+            distance: dataPoint.distance ?? 0,
+        };
+
+        switch (this.options.strategy) {
+            case 'raw':
+                return {
+                    speed: rowing.speed * MS_TO_KMH,
+                    cadence: rowing.strokeRate,
+                    power: rowing.power,
+                    distance: rowing.distance,
+                };
+            case 'scaled-cadence':
+                return {
+                    speed: rowing.speed * MS_TO_KMH,
+                    cadence: rowing.strokeRate * this.options.cadenceFactor,
+                    power: rowing.power,
+                    distance: rowing.distance,
+                };
+            case 'pace-equivalent':
+                // a rowing pace of 2:00/500m (15 km/h) feels like 30 km/h on a bike with the default factor of 2
+                return {
+                    speed: rowing.speed * this.options.speedFactor * MS_TO_KMH,
+                    cadence: rowing.strokeRate * this.options.cadenceFactor,
+                    power: rowing.power,
+                    distance: rowing.distance * this.options.speedFactor,
+                };
+            case 'power-equivalent': {
+                const power = rowing.power * this.options.powerFactor;
+                const speed = RowingToCyclingConverter.speedFromPower(power);
+                return {
+                    speed: speed * MS_TO_KMH,
+                    cadence: rowing.strokeRate * this.options.cadenceFactor,
+                    power,
+                    distance: this.accumulateDistance(rowing, speed),
+                };
+            }
+        }
+    }
+
+    /**
+     * Speed in m/s a rider holds on a flat road with the given power, the
+     * positive real root of the depressed cubic v³ + p·v - q = 0
+     */
+    public static speedFromPower(power: number): number {
+        if (!(power > 0)) {
+            return 0;
+        }
+
+        const drag = 0.5 * AIR_DENSITY * DRAG_AREA;
+        const p = ROLLING_RESISTANCE * SYSTEM_MASS * GRAVITY / drag;
+        const q = power / drag;
+        const discriminant = Math.sqrt(q * q / 4 + p * p * p / 27);
+
+        return Math.cbrt(q / 2 + discriminant) + Math.cbrt(q / 2 - discriminant);
+    }
+
+    // the bike distance grows with the rowed distance, scaled by the speed ratio,
+    // so pauses do not add distance and a new session starts over at zero
+    private accumulateDistance(rowing: RowingData, bikeSpeed: number): number {
+        if (this._lastRowingDistance == null || rowing.distance < this._lastRowingDistance) {
+            this._distance = 0;
+            this._lastRowingDistance = rowing.distance;
+        }
+
+        const delta = rowing.distance - this._lastRowingDistance;
+        if (delta > 0 && rowing.speed > 0) {
+            this._distance += delta * bikeSpeed / rowing.speed;
+        }
+        this._lastRowingDistance = rowing.distance;
+
+        return this._distance;
+    }
+}
@@ -0,0 +1,3 @@
+export { RowerDataCharacteristic } from './rower-data-characteristic';
+export { RowerData, RowerDataFlag } from './rower-data';
+export { parseRowerData } from './rower-data-parser';
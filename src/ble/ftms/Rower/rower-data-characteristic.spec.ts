@@ -0,0 +1,110 @@
+import { RowerDataCharacteristic } from './rower-data-characteristic';
+import { RowerDataFlag } from './rower-data';
+
+describe('RowerDataCharacteristic', () => {
+    let characteristic: RowerDataCharacteristic;
+    let notifications: Array<Buffer>;
+
+    const last = (): Buffer => notifications[notifications.length - 1];
+    const hasHeartRate = (data: Buffer): boolean => (data.readUInt16LE(0) & RowerDataFlag.HeartRatePresent) !== 0;
+
+    beforeEach(() => {
+        notifications = [];
+        characteristic = new RowerDataCharacteristic();
+        characteristic.onSubscribe(1, 64, data => notifications.push(data!));
+    });
+
+    it('should encode every field into one notification', () => {
+        characteristic.updateData({
+            strokeRate: 24.5,
+            strokeCount: 300,
+            totalDistance: 1500,
+            instantaneousPace: 125,
+            averagePace: 130,
+            instantaneousPower: 180,
+            totalEnergy: 95,
+            heartRate: 140,
+            elapsedTime: 600,
+        });
+
+        expect(notifications.length).toBe(1);
+        expect([...notifications[0]]).toEqual([
+            0x3C, 0x0B, // flags: distance, paces, power, energy, heart rate and elapsed time present, MoreData cleared
+            0x31, // stroke rate 49 * 0.5 spm
+            0x2C, 0x01, // stroke count 300
+            0xDC, 0x05, 0x00, // total distance 1500 m
+            0x7D, 0x00, // instantaneous pace 125 s/500m
+            0x82, 0x00, // average pace 130 s/500m
+            0xB4, 0x00, // power 180 W
+            0x5F, 0x00, // total energy 95 kcal
+            0xFF, 0xFF, // energy per hour not available
+            0xFF, // energy per minute not available
+            0x8C, // heart rate 140 bpm
+            0x58, 0x02, // elapsed time 600 s
+        ]);
+    });
+
+    it('should keep the last value of the fields left out', () => {
+        characteristic.updateData({ strokeRate: 24, heartRate: 140 });
+        characteristic.updateData({ totalDistance: 120 });
+
+        expect(last().readUInt8(2)).toBe(48);
+        expect(last().readUIntLE(5, 3)).toBe(120);
+        expect(hasHeartRate(last())).toBeTrue();
+        expect(last().readUInt8(19)).toBe(140);
+    });
+
+    it('should drop the fields passed as undefined', () => {
+        characteristic.updateData({ strokeRate: 24, heartRate: 140 });
+        characteristic.updateData({ strokeRate: 24, heartRate: undefined });
+
+        expect(hasHeartRate(last())).toBeFalse();
+        expect(last().length).toBe(21);
+    });
+
+    it('should forget the values on reset', () => {
+        characteristic.updateData({ strokeRate: 24, strokeCount: 300, totalDistance: 1500, heartRate: 140 });
+
+        characteristic.reset();
+        characteristic.updateData({ elapsedTime: 1 });
+
+        expect(last().readUInt8(2)).toBe(0);
+        expect(last().readUInt16LE(3)).toBe(0);
+        expect(last().readUIntLE(5, 3)).toBe(0);
+        expect(hasHeartRate(last())).toBeFalse();
+        expect(last().readUInt16LE(19)).toBe(1);
+    });
+
+    it('should split the notification exceeding the MTU', () => {
+        characteristic.onSubscribe(1, 20, data => notifications.push(data!));
+
+        characteristic.updateData({ strokeRate: 24, strokeCount: 300, totalDistance: 1500, heartRate: 140, elapsedTime: 600 });
+
+        expect(notifications.map(n => n.length)).toEqual([16, 8]);
+        // the first one sets MoreData and leaves out the stroke fields
+        expect(notifications[0].readUInt16LE(0) & RowerDataFlag.MoreData).toBe(RowerDataFlag.MoreData);
+        expect(notifications[0].readUIntLE(2, 3)).toBe(1500);
+        expect(notifications[1].readUInt16LE(0) & RowerDataFlag.MoreData).toBe(0);
+        expect([...notifications[1].subarray(2)]).toEqual([0x30, 0x2C, 0x01, 0x8C, 0x58, 0x02]);
+    });
+
+    it('should not notify without subscriber', () => {
+        characteristic.onUnsubscribe(1);
+
+        characteristic.updateData({ strokeRate: 24 });
+
+        expect(notifications.length).toBe(0);
+    });
+
+    it('should notify every central split for its own MTU', () => {
+        const tablet: Array<Buffer> = [];
+        characteristic.onSubscribe(2, 20, data => tablet.push(data!));
+
+        characteristic.updateData({ strokeRate: 24, heartRate: 140 });
+        characteristic.onUnsubscribe(1);
+        characteristic.updateData({ strokeRate: 25 });
+
+        expect(notifications.map(n => n.length)).toEqual([22]);
+        expect(tablet.map(n => n.length)).toEqual([16, 8, 16, 8]);
+    });
+});
@@ -0,0 +1,150 @@
+import { Characteristic, ConnectionHandle, Descriptor, UpdateValueCallback } from '@stoprocent/bleno';
+import debug from 'debug';
+import { CharacteristicUserDescriptionUUID, RowerDataUUID } from '../../uuids';
+import { RowerData, RowerDataFlag } from './rower-data';
+import { CharacteristicEvents } from '../../characteristic-events';
+
+const logger = debug('FTMS');
+
+// ATT_MTU 23 leaves 20 bytes for the notification payload
+const DEFAULT_MAX_VALUE_SIZE = 20;
+const ENERGY_NOT_AVAILABLE_16BIT = 0xFFFF;
+const ENERGY_NOT_AVAILABLE_8BIT = 0xFF;
+
+interface EncodedFields {
+    flags: number;
+    data: Buffer;
+}
+
+export class RowerDataCharacteristic extends Characteristic {
+
+    // every central gets the notifications split for its own MTU
+    private readonly _subscribers = new Set<ConnectionHandle>();
+    private _data: RowerData = {};
+
+    public constructor() {
+        logger(`[${RowerDataUUID}][RowerDataCharacteristic] constructor`);
+        super({
+            uuid: RowerDataUUID,
+            properties: ['notify'],
+            descriptors: [
+                new Descriptor({
+                    uuid: CharacteristicUserDescriptionUUID,
+                    value: 'Rower Data',
+                }),
+            ],
+        });
+    }
+
+    public onSubscribe(handle: ConnectionHandle, maxValueSize: number, updateValueCallback: UpdateValueCallback): void {
+        logger(`[${RowerDataUUID}][RowerDataCharacteristic] onSubscribe. Handle = ${handle}, maxValueSize = ${maxValueSize}`);
+        super.onSubscribe(handle, maxValueSize, updateValueCallback);
+        this._subscribers.add(handle);
+    }
+
+    public onUnsubscribe(handle: ConnectionHandle): void {
+        logger(`[${RowerDataUUID}][RowerDataCharacteristic] onUnsubscribe. Handle = ${handle}`);
+        super.onUnsubscribe(handle);
+        this._subscribers.delete(handle);
+    }
+
+    /// Fields left out keep their last known value, the S4 reports registers one at a time.
+    /// Fields passed as undefined are no longer known, e.g. the heart rate after the strap was lost.
+    public updateData(data: RowerData): void {
+        this._data = { ...this._data, ...data };
+
+        this._subscribers.forEach(handle => {
+            const maxValueSize = this.getMaxValueSize(handle) ?? 0;
+            this.encode(maxValueSize > 0 ? maxValueSize : DEFAULT_MAX_VALUE_SIZE).forEach(buffer => {
+                this.notify(buffer, handle);
+                this.emit(CharacteristicEvents.NOTIFICATION, buffer, handle);
+            });
+        });
+    }
+
+    /// forgets the values of the previous session
+    public reset(): void {
+        this._data = {};
+    }
+
+    /// Encodes the current values into one notification, or into two if the
+    /// payload does not fit into the negotiated MTU. The first of the split
+    /// notifications sets the MoreData flag and therefore omits the stroke fields.
+    private encode(maxValueSize: number): Array<Buffer> {
+        const strokeFields = this.encodeStrokeFields();
+        const sessionFields = this.encodeSessionFields();
+        const trailingFields = this.encodeTrailingFields();
+
+        const combinedLength = 2 + strokeFields.data.length + sessionFields.data.length + trailingFields.data.length;
+        if (combinedLength <= maxValueSize) {
+            return [this.toPacket([strokeFields, sessionFields, trailingFields])];
+        }
+
+        return [
+            this.toPacket([{ flags: RowerDataFlag.MoreData, data: Buffer.alloc(0) }, sessionFields]),
+            this.toPacket([strokeFields, trailingFields]),
+        ];
+    }
+
+    private toPacket(fields: Array<EncodedFields>): Buffer {
+        const flags = Buffer.alloc(2);
+        flags.writeUInt16LE(fields.reduce((acc, f) => acc | f.flags, 0));
+
+        return Buffer.concat([flags, ...fields.map(f => f.data)]);
+    }
+
+    private encodeStrokeFields(): EncodedFields {
+        // Stroke Rate (uint8, 0.5 spm), Stroke Count (uint16)
+        const data = Buffer.alloc(3);
+        data.writeUInt8(this.clamp(Math.round((this._data.strokeRate ?? 0) * 2), 0, 0xFF), 0);
+        data.writeUInt16LE(this.clamp(Math.round(this._data.strokeCount ?? 0), 0, 0xFFFF), 1);
+
+        return { flags: 0, data };
+    }
+
+    private encodeSessionFields(): EncodedFields {
+        // Total Distance (uint24), Instantaneous Pace (uint16), Average Pace (uint16),
+        // Instantaneous Power (sint16), Total Energy (uint16), Energy per Hour (uint16), Energy per Minute (uint8)
+        const data = Buffer.alloc(14);
+        data.writeUIntLE(this.clamp(Math.round(this._data.totalDistance ?? 0), 0, 0xFFFFFF), 0, 3);
+        data.writeUInt16LE(this.clamp(Math.round(this._data.instantaneousPace ?? 0), 0, 0xFFFF), 3);
+        data.writeUInt16LE(this.clamp(Math.round(this._data.averagePace ?? 0), 0, 0xFFFF), 5);
+        data.writeInt16LE(this.clamp(Math.round(this._data.instantaneousPower ?? 0), -0x8000, 0x7FFF), 7);
+        data.writeUInt16LE(this.clamp(Math.round(this._data.totalEnergy ?? 0), 0, 0xFFFE), 9);
+        data.writeUInt16LE(ENERGY_NOT_AVAILABLE_16BIT, 11);
+        data.writeUInt8(ENERGY_NOT_AVAILABLE_8BIT, 13);
+
+        return {
+            flags: RowerDataFlag.TotalDistancePresent
+                | RowerDataFlag.InstantaneousPacePresent
+                | RowerDataFlag.AveragePacePresent
+                | RowerDataFlag.InstantaneousPowerPresent
+                | RowerDataFlag.ExpendedEnergyPresent,
+            data,
+        };
+    }
+
+    private encodeTrailingFields(): EncodedFields {
+        // Heart Rate (uint8, optional), Elapsed Time (uint16)
+        let flags = RowerDataFlag.ElapsedTimePresent;
+        const buffers: Array<Buffer> = [];
+
+        if (this._data.heartRate != null && this._data.heartRate > 0) {
+            flags |= RowerDataFlag.HeartRatePresent;
+            buffers.push(Buffer.from([this.clamp(Math.round(this._data.heartRate), 0, 0xFF)]));
+        }
+
+        const elapsedTime = Buffer.alloc(2);
+        elapsedTime.writeUInt16LE(this.clamp(Math.round(this._data.elapsedTime ?? 0), 0, 0xFFFF));
+        buffers.push(elapsedTime);
+
+        return { flags, data: Buffer.concat(buffers) };
+    }
+
+    private clamp(value: number, min: number, max: number): number {
+        if (Number.isNaN(value)) {
+            return 0;
+        }
+        return Math.min(Math.max(value, min), max);
+    }
+}
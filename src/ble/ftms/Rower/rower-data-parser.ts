@@ -0,0 +1,53 @@
+import { RowerData, RowerDataFlag } from './rower-data';
+
+// fields present in a Rower Data notification, in transmission order, with their size in bytes
+const OPTIONAL_FIELDS: Array<{ flag: number; size: number; read?: (data: Buffer, offset: number, result: RowerData) => void }> = [
+    { flag: RowerDataFlag.AverageStrokeRatePresent, size: 1 },
+    { flag: RowerDataFlag.TotalDistancePresent, size: 3, read: (d, o, r) => r.totalDistance = d.readUIntLE(o, 3) },
+    { flag: RowerDataFlag.InstantaneousPacePresent, size: 2, read: (d, o, r) => r.instantaneousPace = d.readUInt16LE(o) },
+    { flag: RowerDataFlag.AveragePacePresent, size: 2, read: (d, o, r) => r.averagePace = d.readUInt16LE(o) },
+    { flag: RowerDataFlag.InstantaneousPowerPresent, size: 2, read: (d, o, r) => r.instantaneousPower = d.readInt16LE(o) },
+    { flag: RowerDataFlag.AveragePowerPresent, size: 2 },
+    { flag: RowerDataFlag.ResistanceLevelPresent, size: 2 },
+    // Total Energy (uint16), Energy per Hour (uint16), Energy per Minute (uint8)
+    { flag: RowerDataFlag.ExpendedEnergyPresent, size: 5, read: (d, o, r) => r.totalEnergy = d.readUInt16LE(o) },
+    { flag: RowerDataFlag.HeartRatePresent, size: 1, read: (d, o, r) => r.heartRate = d.readUInt8(o) },
+    { flag: RowerDataFlag.MetabolicEquivalentPresent, size: 1 },
+    { flag: RowerDataFlag.ElapsedTimePresent, size: 2, read: (d, o, r) => r.elapsedTime = d.readUInt16LE(o) },
+    { flag: RowerDataFlag.RemainingTimePresent, size: 2 },
+];
+
+/// Decodes a Rower Data notification of a fitness machine. Fields missing in the
+/// notification are undefined, a truncated notification keeps the fields read so far.
+export function parseRowerData(data: Buffer): RowerData {
+    const result: RowerData = {};
+    if (data.length < 2) {
+        return result;
+    }
+
+    const flags = data.readUInt16LE(0);
+    let offset = 2;
+
+    // Stroke Rate (uint8, 0.5 spm) and Stroke Count (uint16) are present unless MoreData is set
+    if ((flags & RowerDataFlag.MoreData) === 0) {
+        if (offset + 3 > data.length) {
+            return result;
+        }
+        result.strokeRate = data.readUInt8(offset) / 2;
+        result.strokeCount = data.readUInt16LE(offset + 1);
+        offset += 3;
+    }
+
+    for (const field of OPTIONAL_FIELDS) {
+        if ((flags & field.flag) === 0) {
+            continue;
+        }
+        if (offset + field.size > data.length) {
+            break;
+        }
+        field.read?.(data, offset, result);
+        offset += field.size;
+    }
+
+    return result;
+}
@@ -0,0 +1,31 @@
+import { bit } from '../../../helper';
+
+export interface RowerData {
+    strokeRate?: number;        // strokes per minute
+    strokeCount?: number;
+    totalDistance?: number;     // meters
+    instantaneousPace?: number; // seconds per 500m
+    averagePace?: number;       // seconds per 500m
+    instantaneousPower?: number; // watts
+    totalEnergy?: number;       // kcal
+    heartRate?: number;         // bpm
+    elapsedTime?: number;       // seconds
+}
+
+// Bit 0 is inverted compared to the other flags: when it is NOT set the
+// stroke rate and stroke count fields are present in the notification.
+export const RowerDataFlag = {
+    MoreData: bit(0),                       // 0x0001
+    AverageStrokeRatePresent: bit(1),       // 0x0002
+    TotalDistancePresent: bit(2),           // 0x0004
+    InstantaneousPacePresent: bit(3),       // 0x0008
+    AveragePacePresent: bit(4),             // 0x0010
+    InstantaneousPowerPresent: bit(5),      // 0x0020
+    AveragePowerPresent: bit(6),            // 0x0040
+    ResistanceLevelPresent: bit(7),         // 0x0080
+    ExpendedEnergyPresent: bit(8),          // 0x0100
+    HeartRatePresent: bit(9),               // 0x0200
+    MetabolicEquivalentPresent: bit(10),    // 0x0400
+    ElapsedTimePresent: bit(11),            // 0x0800
+    RemainingTimePresent: bit(12),          // 0x1000
+};
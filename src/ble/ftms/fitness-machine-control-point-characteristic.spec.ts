@@ -0,0 +1,149 @@
+import { Characteristic, PrimaryService } from '@stoprocent/bleno';
+
+import { FitnessMachineControlHandler, FitnessMachineControlPointCharacteristic } from './fitness-machine-control-point-characteristic';
+import { OpCode, OpCodeResut } from './IndoorBike/indoor-bike-data';
+import { FakeCentral, FakePeripheralAdapter } from '../adapters/fake-peripheral-adapter';
+import { FitnessMachineControlPointUUID } from '../uuids';
+
+describe('FitnessMachineControlPointCharacteristic', () => {
+    let peripheral: FakePeripheralAdapter;
+    let controlPoint: FitnessMachineControlPointCharacteristic;
+    let handler: jasmine.SpyObj<FitnessMachineControlHandler>;
+    let phone: FakeCentral;
+    let indications: Array<Buffer>;
+
+    // the procedures complete asynchronously, the response is indicated afterwards
+    const flush = async (): Promise<void> => {
+        for (let i = 0; i < 3; i++) {
+            await new Promise(resolve => setImmediate(resolve));
+        }
+    };
+
+    const write = async (central: FakeCentral, ...bytes: Array<number>): Promise<number> => {
+        const result = await central.write(FitnessMachineControlPointUUID, Buffer.from(bytes));
+        await flush();
+        return result;
+    };
+
+    const responses = (): Array<Array<number>> => indications.map(i => [...i]);
+
+    beforeEach(() => {
+        handler = jasmine.createSpyObj<FitnessMachineControlHandler>('FitnessMachineControlHandler', ['startOrResume', 'stop', 'pause', 'reset']);
+        handler.startOrResume.and.resolveTo(OpCodeResut.Success);
+        handler.stop.and.resolveTo(OpCodeResut.Success);
+        handler.pause.and.resolveTo(OpCodeResut.Success);
+        handler.reset.and.resolveTo(OpCodeResut.Success);
+
+        controlPoint = new FitnessMachineControlPointCharacteristic();
+        controlPoint.setControlHandler(handler);
+
+        peripheral = new FakePeripheralAdapter();
+        peripheral.setServices([new PrimaryService({ uuid: '1826', characteristics: [controlPoint] })]);
+        peripheral.powerOn();
+
+        phone = peripheral.connectCentral('aa:bb:cc:dd:ee:ff');
+        indications = phone.subscribe(FitnessMachineControlPointUUID);
+    });
+
+    it('should reject writes without subscribed indications', async () => {
+        phone.unsubscribe(FitnessMachineControlPointUUID);
+
+        expect(await write(phone, OpCode.RequestControl)).toBe(0xFD);
+        expect(controlPoint.hasControl()).toBeFalse();
+    });
+
+    it('should reject an empty write', async () => {
+        expect(await write(phone)).toBe(Characteristic.RESULT_INVALID_ATTRIBUTE_LENGTH);
+    });
+
+    it('should reject writes of a central without subscribed indications while another one subscribed', async () => {
+        const tablet = peripheral.connectCentral('11:22:33:44:55:66');
+
+        expect(await write(tablet, OpCode.RequestControl)).toBe(0xFD);
+        expect(controlPoint.hasControl()).toBeFalse();
+    });
+
+    it('should keep indicating to a central when another one unsubscribes', async () => {
+        const tablet = peripheral.connectCentral('11:22:33:44:55:66');
+        tablet.subscribe(FitnessMachineControlPointUUID);
+        tablet.unsubscribe(FitnessMachineControlPointUUID);
+
+        await write(phone, OpCode.RequestControl);
+
+        expect(responses()).toEqual([[OpCode.ResponseCode, OpCode.RequestControl, OpCodeResut.Success]]);
+    });
+
+    it('should grant the control to the first central requesting it', async () => {
+        expect(await write(phone, OpCode.RequestControl)).toBe(Characteristic.RESULT_SUCCESS);
+
+        const tablet = peripheral.connectCentral('11:22:33:44:55:66');
+        const tabletIndications = tablet.subscribe(FitnessMachineControlPointUUID);
+        await write(tablet, OpCode.RequestControl);
+        await write(tablet, OpCode.StartOrResume);
+
+        expect(responses()).toEqual([[OpCode.ResponseCode, OpCode.RequestControl, OpCodeResut.Success]]);
+        expect(tabletIndications.map(i => [...i])).toEqual([
+            [OpCode.ResponseCode, OpCode.RequestControl, OpCodeResut.ControlNotPermitted],
+            [OpCode.ResponseCode, OpCode.StartOrResume, OpCodeResut.ControlNotPermitted],
+        ]);
+        expect(handler.startOrResume).not.toHaveBeenCalled();
+    });
+
+    it('should start the session for the controlling central', async () => {
+        await write(phone, OpCode.RequestControl);
+        await write(phone, OpCode.StartOrResume);
+
+        expect(handler.startOrResume).toHaveBeenCalledTimes(1);
+        expect(responses()[1]).toEqual([OpCode.ResponseCode, OpCode.StartOrResume, OpCodeResut.Success]);
+    });
+
+    it('should release the control on reset', async () => {
+        await write(phone, OpCode.RequestControl);
+        await write(phone, OpCode.Reset);
+
+        expect(handler.reset).toHaveBeenCalledTimes(1);
+        expect(controlPoint.hasControl()).toBeFalse();
+    });
+
+    it('should tell stop and pause apart by the parameter', async () => {
+        await write(phone, OpCode.RequestControl);
+
+        await write(phone, OpCode.StopOrPause, 0x01);
+        await write(phone, OpCode.StopOrPause, 0x02);
+        await write(phone, OpCode.StopOrPause, 0x03);
+        await write(phone, OpCode.StopOrPause);
+
+        expect(handler.stop).toHaveBeenCalledTimes(1);
+        expect(handler.pause).toHaveBeenCalledTimes(1);
+        expect(responses().slice(1)).toEqual([
+            [OpCode.ResponseCode, OpCode.StopOrPause, OpCodeResut.Success],
+            [OpCode.ResponseCode, OpCode.StopOrPause, OpCodeResut.Success],
+            [OpCode.ResponseCode, OpCode.StopOrPause, OpCodeResut.InvalidParameter],
+            [OpCode.ResponseCode, OpCode.StopOrPause, OpCodeResut.InvalidParameter],
+        ]);
+    });
+
+    it('should not support setting targets', async () => {
+        await write(phone, OpCode.RequestControl);
+        await write(phone, OpCode.SetTargetPower, 0xC8, 0x00);
+
+        expect(responses()[1]).toEqual([OpCode.ResponseCode, OpCode.SetTargetPower, OpCodeResut.OpCodeNotSupported]);
+    });
+
+    it('should indicate a failed procedure', async () => {
+        handler.startOrResume.and.rejectWith(new Error('WaterRower is not connected'));
+
+        await write(phone, OpCode.RequestControl);
+        await write(phone, OpCode.StartOrResume);
+
+        expect(responses()[1]).toEqual([OpCode.ResponseCode, OpCode.StartOrResume, OpCodeResut.OperationFailed]);
+    });
+
+    it('should release the control when the controlling central disconnects', async () => {
+        await write(phone, OpCode.RequestControl);
+
+        controlPoint.releaseControl(phone.handle);
+
+        expect(controlPoint.hasControl()).toBeFalse();
+    });
+});
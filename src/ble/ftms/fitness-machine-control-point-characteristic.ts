@@ -0,0 +1,157 @@
+import { Characteristic, ConnectionHandle, Descriptor, UpdateValueCallback, WriteRequestCallback } from '@stoprocent/bleno';
+import debug from 'debug';
+import { CharacteristicUserDescriptionUUID, FitnessMachineControlPointUUID } from '../uuids';
+import { OpCode, OpCodeResut } from './IndoorBike/indoor-bike-data';
+import { CharacteristicEvents } from '../characteristic-events';
+
+const logger = debug('FTMS');
+
+// ATT error returned when a client writes the control point without enabling indications
+const CCCD_IMPROPERLY_CONFIGURED = 0xFD;
+
+const STOP_OR_PAUSE_PARAMETER_STOP = 0x01;
+const STOP_OR_PAUSE_PARAMETER_PAUSE = 0x02;
+
+/**
+ * Executes the control point procedures on the rower
+ */
+export interface FitnessMachineControlHandler {
+    startOrResume(): Promise<OpCodeResut>;
+    stop(): Promise<OpCodeResut>;
+    pause(): Promise<OpCodeResut>;
+    reset(): Promise<OpCodeResut>;
+}
+
+export class FitnessMachineControlPointCharacteristic extends Characteristic {
+
+    // the connections that enabled the indications, each one gets the responses to its own writes
+    private readonly _subscribers = new Set<ConnectionHandle>();
+    private _controlHandler: FitnessMachineControlHandler | null = null;
+    private _controllingHandle: ConnectionHandle | null = null;
+
+    public constructor() {
+        logger(`[${FitnessMachineControlPointUUID}][FitnessMachineControlPointCharacteristic] constructor`);
+        super({
+            uuid: FitnessMachineControlPointUUID,
+            properties: ['write', 'indicate'],
+            descriptors: [
+                new Descriptor({
+                    uuid: CharacteristicUserDescriptionUUID,
+                    value: 'Fitness Machine Control Point',
+                }),
+            ],
+        });
+    }
+
+    public setControlHandler(handler: FitnessMachineControlHandler | null): void {
+        this._controlHandler = handler;
+    }
+
+    /**
+     * Drop the control permission if it is held by the given connection (e.g. on disconnect)
+     */
+    public releaseControl(handle?: ConnectionHandle): void {
+        if (handle == null || handle === this._controllingHandle) {
+            logger(`[${FitnessMachineControlPointUUID}][FitnessMachineControlPointCharacteristic] control released`);
+            this._controllingHandle = null;
+        }
+    }
+
+    public hasControl(): boolean {
+        return this._controllingHandle != null;
+    }
+
+    public onSubscribe(handle: ConnectionHandle, maxValueSize: number, updateValueCallback: UpdateValueCallback): void {
+        logger(`[${FitnessMachineControlPointUUID}][FitnessMachineControlPointCharacteristic] onSubscribe. Handle = ${handle}`);
+        super.onSubscribe(handle, maxValueSize, updateValueCallback);
+        this._subscribers.add(handle);
+    }
+
+    public onUnsubscribe(handle: ConnectionHandle): void {
+        logger(`[${FitnessMachineControlPointUUID}][FitnessMachineControlPointCharacteristic] onUnsubscribe. Handle = ${handle}`);
+        super.onUnsubscribe(handle);
+        this._subscribers.delete(handle);
+    }
+
+    public onWriteRequest(handle: ConnectionHandle, data: Buffer, _offset: number, _withoutResponse: boolean, callback: WriteRequestCallback): void {
+        if (data.length === 0) {
+            callback(this.RESULT_INVALID_ATTRIBUTE_LENGTH);
+            return;
+        }
+
+        if (!this._subscribers.has(handle)) {
+            logger(`[${FitnessMachineControlPointUUID}][FitnessMachineControlPointCharacteristic] write without subscribed indications. Handle = ${handle}`);
+            callback(CCCD_IMPROPERLY_CONFIGURED);
+            return;
+        }
+
+        const opCode = data.readUInt8(0);
+        logger(`[${FitnessMachineControlPointUUID}][FitnessMachineControlPointCharacteristic] onWriteRequest. OpCode = 0x${opCode.toString(16)}`);
+        callback(this.RESULT_SUCCESS);
+
+        this.handleOpCode(handle, opCode, data.subarray(1))
+            .catch(err => {
+                logger(`[${FitnessMachineControlPointUUID}][FitnessMachineControlPointCharacteristic] OpCode 0x${opCode.toString(16)} failed: ${err}`);
+                return OpCodeResut.OperationFailed;
+            })
+            .then(result => this.indicateResponse(handle, opCode, result));
+    }
+
+    private async handleOpCode(handle: ConnectionHandle, opCode: number, parameter: Buffer): Promise<OpCodeResut> {
+        if (opCode === OpCode.RequestControl) {
+            if (this._controllingHandle != null && this._controllingHandle !== handle) {
+                return OpCodeResut.ControlNotPermitted;
+            }
+
+            this._controllingHandle = handle;
+            return OpCodeResut.Success;
+        }
+
+        if (this._controllingHandle !== handle) {
+            return OpCodeResut.ControlNotPermitted;
+        }
+
+        if (this._controlHandler == null) {
+            return OpCodeResut.OperationFailed;
+        }
+
+        switch (opCode) {
+            case OpCode.Reset: {
+                const result = await this._controlHandler.reset();
+                if (result === OpCodeResut.Success) {
+                    // a reset also revokes the control permission
+                    this.releaseControl();
+                }
+                return result;
+            }
+            case OpCode.StartOrResume:
+                return this._controlHandler.startOrResume();
+            case OpCode.StopOrPause:
+                if (parameter.length !== 1) {
+                    return OpCodeResut.InvalidParameter;
+                }
+                if (parameter.readUInt8(0) === STOP_OR_PAUSE_PARAMETER_STOP) {
+                    return this._controlHandler.stop();
+                }
+                if (parameter.readUInt8(0) === STOP_OR_PAUSE_PARAMETER_PAUSE) {
+                    return this._controlHandler.pause();
+                }
+                return OpCodeResut.InvalidParameter;
+            default:
+                // targets (speed, power, resistance, ...) can not be set on a WaterRower
+                return OpCodeResut.OpCodeNotSupported;
+        }
+    }
+
+    private indicateResponse(handle: ConnectionHandle, opCode: number, result: OpCodeResut): void {
+        logger(`[${FitnessMachineControlPointUUID}][FitnessMachineControlPointCharacteristic] response. Handle = ${handle}, OpCode = 0x${opCode.toString(16)}, Result = ${result}`);
+        const data = Buffer.from([OpCode.ResponseCode, opCode, result]);
+        // the central may have disabled the indications while the procedure was running
+        if (!this._subscribers.has(handle)) {
+            return;
+        }
+
+        this.notify(data, handle);
+        this.emit(CharacteristicEvents.NOTIFICATION, data, handle);
+    }
+}
@@ -0,0 +1,32 @@
+import { Characteristic, Descriptor } from '@stoprocent/bleno';
+import debug from 'debug';
+import { CharacteristicUserDescriptionUUID, FitnessMachineStatusUUID } from '../uuids';
+import { FitnessMachineStatusOpCode } from './IndoorBike/indoor-bike-data';
+import { CharacteristicEvents } from '../characteristic-events';
+
+const logger = debug('FTMS');
+
+export class FitnessMachineStatusCharacteristic extends Characteristic {
+
+    public constructor() {
+        logger(`[${FitnessMachineStatusUUID}][FitnessMachineStatusCharacteristic] constructor`);
+        super({
+            uuid: FitnessMachineStatusUUID,
+            properties: ['notify'],
+            descriptors: [
+                new Descriptor({
+                    uuid: CharacteristicUserDescriptionUUID,
+                    value: 'Fitness Machine Status',
+                }),
+            ],
+        });
+    }
+
+    public updateStatus(opCode: FitnessMachineStatusOpCode, parameter?: number): void {
+        logger(`[${FitnessMachineStatusUUID}][FitnessMachineStatusCharacteristic] updateStatus. OpCode = 0x${opCode.toString(16)}`);
+        // OpCode (8bit), Parameter (8bit, optional)
+        const data = parameter == null ? Buffer.from([opCode]) : Buffer.from([opCode, parameter]);
+        this.notify(data);
+        this.emit(CharacteristicEvents.NOTIFICATION, data);
+    }
+}
@@ -0,0 +1,51 @@
+import { FitnessMachineService } from './ftms-service';
+import { FitnessMachineStatusOpCode, TrainingStatus } from './IndoorBike/indoor-bike-data';
+import { FakeCentral, FakePeripheralAdapter } from '../adapters/fake-peripheral-adapter';
+import { FitnessMachineStatusUUID, TrainingStatusUUID } from '../uuids';
+
+describe('FitnessMachineService', () => {
+    let service: FitnessMachineService;
+    let peripheral: FakePeripheralAdapter;
+    let phone: FakeCentral;
+
+    beforeEach(() => {
+        service = new FitnessMachineService('rower', false, { strategy: 'raw', cadenceFactor: 4, powerFactor: 1.5, speedFactor: 2 });
+        peripheral = new FakePeripheralAdapter();
+        peripheral.setServices([service]);
+        peripheral.powerOn();
+        phone = peripheral.connectCentral('aa:bb:cc:dd:ee:ff');
+    });
+
+    it('should notify the machine status', () => {
+        const notifications = phone.subscribe(FitnessMachineStatusUUID);
+
+        service.updateMachineStatus(FitnessMachineStatusOpCode.FitnessMachineStoppedOrPaused, 0x02);
+
+        expect(notifications.map(n => [...n])).toEqual([[0x02, 0x02]]);
+    });
+
+    it('should notify and read the changed training status', async () => {
+        const notifications = phone.subscribe(TrainingStatusUUID);
+
+        service.updateTrainingStatus(TrainingStatus.ManualMode);
+        service.updateTrainingStatus(TrainingStatus.ManualMode);
+
+        expect(notifications.map(n => [...n])).toEqual([[0x00, TrainingStatus.ManualMode]]);
+        expect([...await phone.read(TrainingStatusUUID)]).toEqual([0x00, TrainingStatus.ManualMode]);
+    });
+
+    it('should keep notifying a central when another one unsubscribes', () => {
+        const machineStatus = phone.subscribe(FitnessMachineStatusUUID);
+        const trainingStatus = phone.subscribe(TrainingStatusUUID);
+        const tablet = peripheral.connectCentral('11:22:33:44:55:66');
+        tablet.subscribe(FitnessMachineStatusUUID);
+        tablet.subscribe(TrainingStatusUUID);
+
+        tablet.disconnect();
+        service.updateMachineStatus(FitnessMachineStatusOpCode.FitnessMachineStartedOrResumed);
+        service.updateTrainingStatus(TrainingStatus.ManualMode);
+
+        expect(machineStatus.length).toBe(1);
+        expect(trainingStatus.length).toBe(1);
+    });
+});
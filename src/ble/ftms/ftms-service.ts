@@ -1,30 +1,123 @@
 import debug from 'debug';
 import { FitnessMachineServiceUUID } from '../uuids';
-import { IndoorBikeFeatureCharacteristic } from './IndoorBike';
-import { PrimaryService } from '@stoprocent/bleno';
+import { BikeConversionOptions, IndoorBikeFeatureCharacteristic, RowingToCyclingConverter } from './IndoorBike';
+import { Characteristic, ConnectionHandle, PrimaryService } from '@stoprocent/bleno';
 import { IndoorBikeDataCharacteristic } from './IndoorBike/indoor-bike-data-chracteristic';
+import { RowerDataCharacteristic } from './Rower';
+import { FitnessMachineControlHandler, FitnessMachineControlPointCharacteristic } from './fitness-machine-control-point-characteristic';
+import { FitnessMachineStatusCharacteristic } from './fitness-machine-status-characteristic';
+import { TrainingStatusCharacteristic } from './training-status-characteristic';
+import { FitnessMachineStatusOpCode, OpCodeResut, TrainingStatus } from './IndoorBike/indoor-bike-data';
+import { FtmsMachineType } from '../../helper/config-manager';
+import { TrainingDataPoint } from '../../training/training-session';
 const logger = debug('FTMS_SRV');
 
 export class FitnessMachineService extends PrimaryService {
-    private readonly _indoorBikeDataCharacteristic: IndoorBikeDataCharacteristic;
-    public constructor() {
-        logger(`[${FitnessMachineServiceUUID}][FitnessMachineService] constructor`);
+    private readonly _machineType: FtmsMachineType;
+    private readonly _includeHeartRate: boolean;
+    private readonly _indoorBikeDataCharacteristic: IndoorBikeDataCharacteristic | null = null;
+    private readonly _rowerDataCharacteristic: RowerDataCharacteristic | null = null;
+    private readonly _cyclingConverter: RowingToCyclingConverter | null = null;
+    private readonly _controlPointCharacteristic: FitnessMachineControlPointCharacteristic;
+    private readonly _machineStatusCharacteristic: FitnessMachineStatusCharacteristic;
+    private readonly _trainingStatusCharacteristic: TrainingStatusCharacteristic;
 
-        const indoorBikeFeatureCharacteristic: IndoorBikeFeatureCharacteristic = new IndoorBikeFeatureCharacteristic();
-        const indoorBikeDataCharacteristic: IndoorBikeDataCharacteristic = new IndoorBikeDataCharacteristic();
+    public constructor(machineType: FtmsMachineType, includeHeartRate: boolean, bikeConversion: BikeConversionOptions) {
+        logger(`[${FitnessMachineServiceUUID}][FitnessMachineService] constructor. machineType = ${machineType}, includeHeartRate = ${includeHeartRate}`);
+
+        const featureCharacteristic: IndoorBikeFeatureCharacteristic = new IndoorBikeFeatureCharacteristic(machineType, includeHeartRate);
+        const dataCharacteristic: IndoorBikeDataCharacteristic | RowerDataCharacteristic = machineType === 'rower'
+            ? new RowerDataCharacteristic()
+            : new IndoorBikeDataCharacteristic();
+        const controlPointCharacteristic = new FitnessMachineControlPointCharacteristic();
+        const machineStatusCharacteristic = new FitnessMachineStatusCharacteristic();
+        const trainingStatusCharacteristic = new TrainingStatusCharacteristic();
+
+        const characteristics: Array<Characteristic> = [
+            featureCharacteristic,
+            dataCharacteristic,
+            controlPointCharacteristic,
+            machineStatusCharacteristic,
+            trainingStatusCharacteristic,
+        ];
 
         super({
             uuid: FitnessMachineServiceUUID,
-            characteristics: [
-                indoorBikeFeatureCharacteristic,
-                indoorBikeDataCharacteristic
-            ],
+            characteristics,
+        });
+
+        this._machineType = machineType;
+        this._includeHeartRate = includeHeartRate;
+        this._controlPointCharacteristic = controlPointCharacteristic;
+        this._machineStatusCharacteristic = machineStatusCharacteristic;
+        this._trainingStatusCharacteristic = trainingStatusCharacteristic;
+        if (dataCharacteristic instanceof RowerDataCharacteristic) {
+            this._rowerDataCharacteristic = dataCharacteristic;
+        } else {
+            this._indoorBikeDataCharacteristic = dataCharacteristic;
+            this._cyclingConverter = new RowingToCyclingConverter(bikeConversion);
+            logger(`[${FitnessMachineServiceUUID}][FitnessMachineService] bike conversion = ${bikeConversion.strategy}`);
+        }
+    }
+
+    public getMachineType(): FtmsMachineType {
+        return this._machineType;
+    }
+
+    public setControlHandler(handler: FitnessMachineControlHandler | null): void {
+        if (handler == null) {
+            this._controlPointCharacteristic.setControlHandler(null);
+            return;
+        }
+
+        this._controlPointCharacteristic.setControlHandler({
+            ...handler,
+            reset: async () => {
+                const result = await handler.reset();
+                if (result === OpCodeResut.Success) {
+                    this.updateMachineStatus(FitnessMachineStatusOpCode.Reset);
+                }
+                return result;
+            },
         });
+    }
+
+    public updateMachineStatus(opCode: FitnessMachineStatusOpCode, parameter?: number): void {
+        this._machineStatusCharacteristic.updateStatus(opCode, parameter);
+    }
+
+    public updateTrainingStatus(status: TrainingStatus): void {
+        this._trainingStatusCharacteristic.updateStatus(status);
+    }
 
-        this._indoorBikeDataCharacteristic = indoorBikeDataCharacteristic;
+    public releaseControl(handle?: ConnectionHandle): void {
+        this._controlPointCharacteristic.releaseControl(handle);
     }
 
-    public updateData(power: number | null, cadence: number | null): void {
-        this._indoorBikeDataCharacteristic.updateData(power, cadence);
+    /// a new session starts without the values of the previous one
+    public resetTrainingData(): void {
+        this._rowerDataCharacteristic?.reset();
+    }
+
+    public updateTrainingData(dataPoint: TrainingDataPoint): void {
+        if (this._rowerDataCharacteristic == null) {
+            if (this._indoorBikeDataCharacteristic != null && this._cyclingConverter != null) {
+                this._indoorBikeDataCharacteristic.updateData(this._cyclingConverter.convert(dataPoint));
+            }
+            return;
+        }
+
+        const distance = dataPoint.distance ?? 0;
+        this._rowerDataCharacteristic.updateData({
+            strokeRate: dataPoint.strokeRate,
+            strokeCount: dataPoint.totalStrokes,
+            totalDistance: dataPoint.distance,
+            instantaneousPace: dataPoint.speed != null && dataPoint.speed > 0 ? 500 / dataPoint.speed : 0,
+            averagePace: distance > 0 ? dataPoint.elapsedTime * 500 / distance : 0,
+            instantaneousPower: dataPoint.power,
+            totalEnergy: dataPoint.calories,
+            heartRate: this._includeHeartRate ? dataPoint.heartRate : undefined,
+            elapsedTime: dataPoint.elapsedTime,
+        });
     }
 }
@@ -0,0 +1,52 @@
+import { Characteristic, Descriptor } from '@stoprocent/bleno';
+import debug from 'debug';
+import { CharacteristicUserDescriptionUUID, TrainingStatusUUID } from '../uuids';
+import { TrainingStatus } from './IndoorBike/indoor-bike-data';
+import { CharacteristicEvents } from '../characteristic-events';
+
+const logger = debug('FTMS');
+
+export class TrainingStatusCharacteristic extends Characteristic {
+
+    private _status: TrainingStatus = TrainingStatus.Idle;
+
+    public constructor() {
+        logger(`[${TrainingStatusUUID}][TrainingStatusCharacteristic] constructor`);
+        super({
+            uuid: TrainingStatusUUID,
+            properties: ['read', 'notify'],
+            descriptors: [
+                new Descriptor({
+                    uuid: CharacteristicUserDescriptionUUID,
+                    value: 'Training Status',
+                }),
+            ],
+        });
+    }
+
+    public onReadRequest(_handle: number, _offset: number, callback: (result: number, data?: Buffer) => void): void {
+        logger(`[${TrainingStatusUUID}][TrainingStatusCharacteristic] onReadRequest`);
+        callback(this.RESULT_SUCCESS, this.encode());
+    }
+
+    public getStatus(): TrainingStatus {
+        return this._status;
+    }
+
+    public updateStatus(status: TrainingStatus): void {
+        if (status === this._status) {
+            return;
+        }
+
+        logger(`[${TrainingStatusUUID}][TrainingStatusCharacteristic] updateStatus. Status = 0x${status.toString(16)}`);
+        this._status = status;
+        const data = this.encode();
+        this.notify(data);
+        this.emit(CharacteristicEvents.NOTIFICATION, data);
+    }
+
+    private encode(): Buffer {
+        // Flags (8bit, no training status string), Training Status (8bit)
+        return Buffer.from([0x00, this._status]);
+    }
+}
@@ -4,5 +4,10 @@
 export const HeartRateMonitorEvents = {
     CONNECTED: Symbol('HeartRateMonitor:connected'),
     DISCONNECTED: Symbol('HeartRateMonitor:disconnected'),
+    RECONNECTING: Symbol('HeartRateMonitor:reconnecting'),
     ERROR: Symbol('HeartRateMonitor:error'),
+    BATTERY_LEVEL_CHANGED: Symbol('HeartRateMonitor:batteryLevelChanged'),
+    BATTERY_LOW: Symbol('HeartRateMonitor:batteryLow'),
+    SENSOR_CONTACT_LOST: Symbol('HeartRateMonitor:sensorContactLost'),
+    SENSOR_CONTACT_RESTORED: Symbol('HeartRateMonitor:sensorContactRestored'),
 } as const;
@@ -0,0 +1,437 @@
+import { HeartRateData, HeartRateMonitor } from './heart-rate-monitor';
+import { HeartRateMonitorEvents } from './heart-rate-monitor-events';
+import { FakeCentralAdapter, FakeHeartRateStrap, FakePeripheral, FakeRemoteCharacteristic } from './adapters/fake-central-adapter';
+
+describe('HeartRateMonitor', () => {
+    let central: FakeCentralAdapter;
+    let strap: FakeHeartRateStrap;
+    let monitor: HeartRateMonitor;
+    let heartRates: Array<HeartRateData>;
+
+    beforeEach(() => {
+        central = new FakeCentralAdapter();
+        strap = new FakeHeartRateStrap('strap-1', 'HRM-Pro', 87);
+        central.addPeripheral(strap);
+
+        monitor = new HeartRateMonitor(central);
+        heartRates = [];
+        monitor.heartRate$.subscribe(data => heartRates.push(data));
+    });
+
+    afterEach(async () => {
+        await monitor.disconnectAsync();
+        monitor.heartRate$.complete();
+    });
+
+    // lets the promises of the fake adapter settle while the clock is mocked
+    const flush = async (): Promise<void> => {
+        for (let i = 0; i < 5; i++) {
+            await new Promise(resolve => setImmediate(resolve));
+        }
+    };
+
+    describe('connectAsync', () => {
+        it('should read the device name and battery level', async () => {
+            await monitor.connectAsync('strap-1');
+
+            expect(monitor.isConnected()).toBeTrue();
+            expect(monitor.getDeviceName()).toBe('HRM-Pro');
+            expect(monitor.getBatteryLevel()).toBe(87);
+        });
+
+        it('should emit CONNECTED once subscribed', async () => {
+            const connected = jasmine.createSpy('connected');
+            monitor.on(HeartRateMonitorEvents.CONNECTED, connected);
+
+            await monitor.connectAsync('strap-1');
+
+            expect(connected).toHaveBeenCalledTimes(1);
+            expect(strap.findCharacteristic('2a37')?.isSubscribed()).toBeTrue();
+        });
+
+        it('should fail for an unknown device', async () => {
+            await expectAsync(monitor.connectAsync('unknown')).toBeRejected();
+            expect(monitor.isConnected()).toBeFalse();
+        });
+
+        it('should disconnect from a device without heart rate service', async () => {
+            const scale = new FakePeripheral('scale-1', 'Scale', [
+                { uuid: '180f', characteristics: [new FakeRemoteCharacteristic('2a19', Buffer.from([50]))] },
+            ]);
+            central.addPeripheral(scale);
+
+            await expectAsync(monitor.connectAsync('scale-1')).toBeRejectedWithError('Heart rate service not found');
+            expect(scale.connected).toBeFalse();
+            expect(monitor.isConnected()).toBeFalse();
+        });
+
+        it('should disconnect from the strap if the discovery fails', async () => {
+            spyOn(strap, 'discoverAllServicesAndCharacteristicsAsync').and.rejectWith(new Error('ATT timeout'));
+
+            await expectAsync(monitor.connectAsync('strap-1')).toBeRejectedWithError('ATT timeout');
+            expect(strap.connected).toBeFalse();
+            expect(monitor.isReconnecting()).toBeFalse();
+        });
+    });
+
+    describe('parseHeartRateData', () => {
+        beforeEach(async () => {
+            await monitor.connectAsync('strap-1');
+        });
+
+        it('should parse an 8bit heart rate', () => {
+            strap.notifyHeartRate(142);
+
+            expect(heartRates.map(d => d.heartRate)).toEqual([142]);
+        });
+
+        it('should parse a 16bit heart rate', () => {
+            strap.notifyMeasurement(Buffer.from([0x01, 0x2C, 0x01]));
+
+            expect(heartRates.map(d => d.heartRate)).toEqual([300]);
+        });
+
+        it('should parse sensor contact, energy expended and RR intervals', () => {
+            // sensor contact detected, energy expended and two RR intervals present
+            strap.notifyMeasurement(Buffer.from([0x1E, 0x48, 0x10, 0x00, 0x00, 0x04, 0x33, 0x03]));
+
+            expect(heartRates.length).toBe(1);
+            expect(heartRates[0]).toEqual(jasmine.objectContaining({
+                heartRate: 72,
+                sensorContact: true,
+                energyExpended: 16,
+                rrIntervals: [1000, 800],
+            }));
+        });
+
+        it('should parse RR intervals following a 16bit heart rate', () => {
+            strap.notifyMeasurement(Buffer.from([0x11, 0x48, 0x00, 0x00, 0x04]));
+
+            expect(heartRates[0].heartRate).toBe(72);
+            expect(heartRates[0].rrIntervals).toEqual([1000]);
+        });
+
+        it('should leave the sensor contact undefined if not supported', () => {
+            strap.notifyHeartRate(60);
+
+            expect(heartRates[0].sensorContact).toBeUndefined();
+            expect(heartRates[0].energyExpended).toBeUndefined();
+            expect(heartRates[0].rrIntervals).toEqual([]);
+        });
+
+        it('should stream every RR interval', () => {
+            const rrIntervals: Array<number> = [];
+            monitor.rrIntervals$.subscribe(data => rrIntervals.push(data.rrInterval));
+
+            strap.notifyMeasurement(Buffer.from([0x10, 0x48, 0x00, 0x04, 0x33, 0x03]));
+            strap.notifyMeasurement(Buffer.from([0x10, 0x48, 0x00, 0x02]));
+
+            expect(rrIntervals).toEqual([1000, 800, 500]);
+        });
+
+        it('should ignore a truncated measurement', () => {
+            strap.notifyMeasurement(Buffer.from([0x00]));
+
+            expect(heartRates.length).toBe(0);
+        });
+
+        it('should ignore a truncated 16bit heart rate', () => {
+            strap.notifyMeasurement(Buffer.from([0x01, 0x2C]));
+
+            expect(heartRates.length).toBe(0);
+        });
+
+        it('should ignore a truncated energy expended', () => {
+            strap.notifyMeasurement(Buffer.from([0x08, 0x48, 0x10]));
+
+            expect(heartRates.length).toBe(0);
+        });
+
+        it('should ignore a truncated RR interval', () => {
+            const rrIntervals: Array<number> = [];
+            monitor.rrIntervals$.subscribe(data => rrIntervals.push(data.rrInterval));
+
+            strap.notifyMeasurement(Buffer.from([0x10, 0x48, 0x00, 0x04, 0x33]));
+
+            expect(heartRates.length).toBe(0);
+            expect(rrIntervals).toEqual([]);
+        });
+    });
+
+    describe('battery', () => {
+        let changed: jasmine.Spy;
+        let low: jasmine.Spy;
+
+        beforeEach(() => {
+            changed = jasmine.createSpy('changed');
+            low = jasmine.createSpy('low');
+            monitor.on(HeartRateMonitorEvents.BATTERY_LEVEL_CHANGED, changed);
+            monitor.on(HeartRateMonitorEvents.BATTERY_LOW, low);
+        });
+
+        it('should follow the battery level notifications', async () => {
+            await monitor.connectAsync('strap-1');
+
+            strap.setBatteryLevel(86);
+            strap.setBatteryLevel(86);
+            await flush();
+
+            expect(monitor.getBatteryLevel()).toBe(86);
+            expect(changed.calls.allArgs()).toEqual([[86]]);
+        });
+
+        it('should warn once when the battery drops to the threshold', async () => {
+            await monitor.connectAsync('strap-1');
+
+            strap.setBatteryLevel(20);
+            strap.setBatteryLevel(19);
+
+            expect(low.calls.allArgs()).toEqual([[20]]);
+            expect(monitor.isBatteryLow()).toBeTrue();
+        });
+
+        it('should warn on connect if the battery is already low', async () => {
+            central.removePeripheral('strap-1');
+            central.addPeripheral(new FakeHeartRateStrap('strap-low', 'HRM-Pro', 10));
+
+            await monitor.connectAsync('strap-low');
+
+            expect(low.calls.allArgs()).toEqual([[10]]);
+        });
+
+        it('should warn again after the battery was replaced', async () => {
+            await monitor.connectAsync('strap-1');
+
+            strap.setBatteryLevel(15);
+            strap.setBatteryLevel(100);
+            strap.setBatteryLevel(15);
+
+            expect(low).toHaveBeenCalledTimes(2);
+        });
+
+        it('should warn with a changed threshold', async () => {
+            await monitor.connectAsync('strap-1');
+
+            monitor.setLowBatteryThreshold(90);
+
+            expect(low.calls.allArgs()).toEqual([[87]]);
+        });
+
+        it('should poll straps without battery notifications', async () => {
+            const polled = new FakeHeartRateStrap('strap-polled', 'H10', 70, false);
+            central.addPeripheral(polled);
+            jasmine.clock().install();
+
+            try {
+                await monitor.connectAsync('strap-polled');
+                const battery = polled.findCharacteristic('2a19')!;
+                battery.value = Buffer.from([65]);
+
+                jasmine.clock().tick(5 * 60 * 1000);
+                await flush();
+
+                expect(battery.isSubscribed()).toBeFalse();
+                expect(monitor.getBatteryLevel()).toBe(65);
+
+                polled.simulateDisconnect();
+                jasmine.clock().tick(5 * 60 * 1000);
+                expect(battery.reads).toBe(2);
+            } finally {
+                await monitor.disconnectAsync();
+                jasmine.clock().uninstall();
+            }
+        });
+    });
+
+    describe('sensor contact', () => {
+        let lost: jasmine.Spy;
+        let restored: jasmine.Spy;
+
+        beforeEach(async () => {
+            lost = jasmine.createSpy('lost');
+            restored = jasmine.createSpy('restored');
+            monitor.on(HeartRateMonitorEvents.SENSOR_CONTACT_LOST, lost);
+            monitor.on(HeartRateMonitorEvents.SENSOR_CONTACT_RESTORED, restored);
+            await monitor.connectAsync('strap-1');
+        });
+
+        it('should warn once when the strap loses skin contact', () => {
+            strap.notifyMeasurement(Buffer.from([0x06, 72]));
+            strap.notifyMeasurement(Buffer.from([0x04, 0]));
+            strap.notifyMeasurement(Buffer.from([0x04, 0]));
+
+            expect(lost).toHaveBeenCalledTimes(1);
+            expect(restored).not.toHaveBeenCalled();
+            expect(monitor.getSensorContact()).toBeFalse();
+        });
+
+        it('should warn if the strap has no contact after connecting', () => {
+            strap.notifyMeasurement(Buffer.from([0x04, 0]));
+
+            expect(lost).toHaveBeenCalledTimes(1);
+        });
+
+        it('should report the restored skin contact', () => {
+            strap.notifyMeasurement(Buffer.from([0x04, 0]));
+            strap.notifyMeasurement(Buffer.from([0x06, 72]));
+
+            expect(restored).toHaveBeenCalledTimes(1);
+            expect(monitor.getSensorContact()).toBeTrue();
+        });
+
+        it('should not warn for straps without contact detection', () => {
+            strap.notifyHeartRate(0);
+
+            expect(lost).not.toHaveBeenCalled();
+            expect(monitor.getSensorContact()).toBeNull();
+        });
+    });
+
+    describe('disconnect', () => {
+        it('should emit DISCONNECTED when the strap drops the connection', async () => {
+            const disconnected = jasmine.createSpy('disconnected');
+            monitor.on(HeartRateMonitorEvents.DISCONNECTED, disconnected);
+            await monitor.connectAsync('strap-1');
+
+            strap.simulateDisconnect();
+            strap.notifyHeartRate(120);
+
+            expect(disconnected).toHaveBeenCalledTimes(1);
+            expect(monitor.isConnected()).toBeFalse();
+            expect(heartRates.length).toBe(0);
+        });
+
+        it('should disconnect from the strap', async () => {
+            await monitor.connectAsync('strap-1');
+
+            await monitor.disconnectAsync();
+
+            expect(strap.connected).toBeFalse();
+            expect(monitor.isConnected()).toBeFalse();
+        });
+    });
+
+    describe('reconnectAsync', () => {
+        it('should do nothing without saved device', async () => {
+            await monitor.reconnectAsync(undefined);
+
+            expect(monitor.isConnected()).toBeFalse();
+        });
+
+        it('should retry until the strap accepts the connection', async () => {
+            strap.failingConnects = 2;
+
+            await monitor.reconnectAsync('strap-1');
+
+            expect(strap.failingConnects).toBe(0);
+            expect(monitor.isConnected()).toBeTrue();
+        });
+
+        it('should wait for the adapter to power on', async () => {
+            central.setPoweredOn(false);
+
+            const reconnect = monitor.reconnectAsync('strap-1');
+            await new Promise(resolve => setImmediate(resolve));
+            expect(monitor.isConnected()).toBeFalse();
+
+            central.setPoweredOn(true);
+            await reconnect;
+
+            expect(monitor.isConnected()).toBeTrue();
+        });
+
+        it('should reconnect after the strap dropped the connection', async () => {
+            await monitor.connectAsync('strap-1');
+            strap.simulateDisconnect();
+
+            await monitor.reconnectAsync('strap-1');
+            strap.notifyHeartRate(95);
+
+            expect(heartRates.map(d => d.heartRate)).toEqual([95]);
+        });
+    });
+
+    describe('supervised reconnection', () => {
+        let reconnecting: jasmine.Spy;
+
+        beforeEach(async () => {
+            reconnecting = jasmine.createSpy('reconnecting');
+            monitor.on(HeartRateMonitorEvents.RECONNECTING, reconnecting);
+            await monitor.connectAsync('strap-1');
+            jasmine.clock().install();
+        });
+
+        afterEach(() => {
+            jasmine.clock().uninstall();
+        });
+
+        it('should reconnect when the strap drops the connection', async () => {
+            strap.simulateDisconnect();
+            expect(monitor.isReconnecting()).toBeTrue();
+
+            jasmine.clock().tick(1000);
+            await flush();
+
+            expect(monitor.isConnected()).toBeTrue();
+            expect(monitor.isReconnecting()).toBeFalse();
+
+            strap.notifyHeartRate(101);
+            expect(heartRates.map(d => d.heartRate)).toEqual([101]);
+        });
+
+        it('should back off between failed attempts', async () => {
+            strap.failingConnects = 2;
+            strap.simulateDisconnect();
+
+            jasmine.clock().tick(1000);
+            await flush();
+            jasmine.clock().tick(2000);
+            await flush();
+            expect(monitor.isConnected()).toBeFalse();
+
+            jasmine.clock().tick(4000);
+            await flush();
+
+            expect(monitor.isConnected()).toBeTrue();
+            expect(reconnecting.calls.allArgs()).toEqual([
+                [{ attempt: 1, delay: 1000 }],
+                [{ attempt: 2, delay: 2000 }],
+                [{ attempt: 3, delay: 4000 }],
+            ]);
+        });
+
+        it('should start over with the initial delay after reconnecting', async () => {
+            strap.simulateDisconnect();
+            jasmine.clock().tick(1000);
+            await flush();
+
+            strap.simulateDisconnect();
+
+            expect(reconnecting.calls.mostRecent().args).toEqual([{ attempt: 1, delay: 1000 }]);
+        });
+
+        it('should not reconnect after disconnecting on request', async () => {
+            await monitor.disconnectAsync();
+
+            jasmine.clock().tick(60000);
+            await flush();
+
+            expect(reconnecting).not.toHaveBeenCalled();
+            expect(monitor.isConnected()).toBeFalse();
+        });
+
+        it('should stop reconnecting when disconnected on request', async () => {
+            strap.failingConnects = 10;
+            strap.simulateDisconnect();
+            jasmine.clock().tick(1000);
+            await flush();
+
+            await monitor.disconnectAsync();
+            jasmine.clock().tick(60000);
+            await flush();
+
+            expect(monitor.isReconnecting()).toBeFalse();
+            expect(reconnecting).toHaveBeenCalledTimes(2);
+        });
+    });
+});
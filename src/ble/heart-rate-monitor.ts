@@ -2,15 +2,21 @@ import debug from 'debug';
 import { EventEmitter } from 'events';
 import { Subject } from 'rxjs';
 
-import noble, { Peripheral, Characteristic } from '@stoprocent/noble';
 import { HeartRateMonitorEvents } from './heart-rate-monitor-events';
+import { CentralAdapter, RemoteCharacteristic, RemotePeripheral } from './adapters';
+import { HeartRateSource } from '../heart-rate/heart-rate-source';
+import { DEFAULT_LOW_BATTERY_THRESHOLD, HeartRateSourceStatus } from '../heart-rate/heart-rate-source-status';
 
 const logger = debug('HR_MONITOR');
 
 // Standard Bluetooth Heart Rate Service and Characteristic UUIDs
 const HEART_RATE_SERVICE_UUID = '180d';
 const HEART_RATE_MEASUREMENT_UUID = '2a37';
-const DISCOVERTY_TIMEOUT = 10000;
+const CONNECTION_TIMEOUT = 30000;
+
+// Backoff of the reconnection after the strap dropped the connection
+const RECONNECT_INITIAL_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
 
 // Generic Access Service and Device Name Characteristic UUIDs
 const GENERIC_ACCESS_SERVICE_UUID = '1800';
@@ -19,24 +25,56 @@ const DEVICE_NAME_CHARACTERISTIC_UUID = '2a00';
 // Battery Service and Battery Level Characteristic UUIDs
 const BATTERY_SERVICE_UUID = '180f';
 const BATTERY_LEVEL_CHARACTERISTIC_UUID = '2a19';
+// straps without Battery Level notifications are polled
+const BATTERY_POLL_INTERVAL = 5 * 60 * 1000;
+
+// Heart Rate Measurement flags
+const FLAG_HEART_RATE_16BIT = 0x01;
+const FLAG_SENSOR_CONTACT_DETECTED = 0x02;
+const FLAG_SENSOR_CONTACT_SUPPORTED = 0x04;
+const FLAG_ENERGY_EXPENDED_PRESENT = 0x08;
+const FLAG_RR_INTERVALS_PRESENT = 0x10;
+
+// RR intervals are transmitted with a resolution of 1/1024 seconds
+const RR_INTERVAL_RESOLUTION = 1024;
+
 export interface HeartRateData {
     time: number;
     heartRate: number;
+    sensorContact?: boolean; // undefined if the strap does not support contact detection
+    energyExpended?: number; // kJ, accumulated since the strap was reset
+    rrIntervals: Array<number>; // ms, beat-to-beat intervals since the previous measurement
 }
 
-export class HeartRateMonitor extends EventEmitter {
-    private peripheral?: Peripheral;
-    private characteristic?: Characteristic;
+export interface RRIntervalData {
+    time: number;
+    rrInterval: number; // ms
+}
+
+export interface HeartRateReconnectInfo {
+    attempt: number;
+    delay: number; // ms until the attempt
+}
+
+export class HeartRateMonitor extends EventEmitter implements HeartRateSource {
+    private peripheral?: RemotePeripheral;
+    private characteristic?: RemoteCharacteristic;
     private connected = false;
     private deviceName = '';
-    private batteryLevel: number | null = null;
+    private batteryPollTimer: NodeJS.Timeout | null = null;
+    private readonly status: HeartRateSourceStatus;
+    private deviceId: string | null = null;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private reconnectAttempt = 0;
 
     // Subject for publishing heart rate data
     public heartRate$ = new Subject<HeartRateData>();
+    // every RR interval of the measurements, in the order the beats occurred
+    public rrIntervals$ = new Subject<RRIntervalData>();
 
-    constructor() {
+    constructor(private readonly central: CentralAdapter, lowBatteryThreshold: number = DEFAULT_LOW_BATTERY_THRESHOLD) {
         super();
-        noble.setMaxListeners(20);
+        this.status = new HeartRateSourceStatus(this, logger, lowBatteryThreshold);
     }
 
     public async reconnectAsync(savedDeviceId: string | undefined): Promise<void> {
@@ -44,16 +82,13 @@ export class HeartRateMonitor extends EventEmitter {
             return;
         }
 
-        await noble.waitForPoweredOnAsync();
+        await this.central.waitForPoweredOnAsync();
 
         logger(`Starting background connection to saved HRM device: ${savedDeviceId}`);
         const maxAttempts = 30;
         for (let attempts = 0; attempts < maxAttempts; attempts++) {
             try {
-                await Promise.race([
-                    this.connectAsync(savedDeviceId),
-                    new Promise((_, reject) => setTimeout(() => reject(new Error('Connection timeout')), 30000))
-                ]);
+                await this.connectWithTimeoutAsync(savedDeviceId);
 
                 logger('Successfully connected to saved HRM device in background');
                 return;
@@ -66,35 +101,6 @@ export class HeartRateMonitor extends EventEmitter {
         logger('Max background connection attempts reached for HRM device');
     }
 
-    public async discoverAsync(): Promise<Array<{ id: string; name: string | undefined }>> {
-
-        const devices: Array<{ id: string; name: string | undefined }> = [];
-        const handleDiscovery = (peripheral: Peripheral) => {
-            if (devices.find(d => d.id === peripheral.id) == null) {
-                const name = peripheral.advertisement.localName;
-                devices.push({ id: peripheral.id, name });
-
-                logger(`Discovered device: ${name}`);
-            }
-        };
-
-        try {
-            await noble.waitForPoweredOnAsync();
-            logger('Noble powered on, starting discovery...');
-
-            await noble.startScanningAsync([HEART_RATE_SERVICE_UUID], false);
-            noble.on('discover', handleDiscovery);
-
-            await new Promise(resolve => setTimeout(resolve, DISCOVERTY_TIMEOUT));
-        } finally {
-
-            await noble.stopScanningAsync();
-        }
-
-        logger(`Discovery complete. Found ${devices.length} devices.`);
-        return devices;
-    }
-
     public async connectAsync(deviceId?: string): Promise<void> {
         if (deviceId == null) {
             return;
@@ -105,15 +111,15 @@ export class HeartRateMonitor extends EventEmitter {
             return;
         }
 
-        await noble.waitForPoweredOnAsync();
+        await this.central.waitForPoweredOnAsync();
         logger(`Connecting directly to device: ${deviceId}`);
 
         // Direct connection without scanning
-        const peripheral = await noble.connectAsync(deviceId);
+        const peripheral = await this.central.connectAsync(deviceId);
         await this.connectToPeripheralAsync(deviceId, peripheral);
     }
 
-    private async connectToPeripheralAsync(deviceId: string, peripheral: Peripheral): Promise<void> {
+    private async connectToPeripheralAsync(deviceId: string, peripheral: RemotePeripheral): Promise<void> {
         this.peripheral = peripheral;
 
         logger(`Connecting to ${deviceId}...`);
@@ -121,12 +127,45 @@ export class HeartRateMonitor extends EventEmitter {
         // Setup disconnect handler
         peripheral.once('disconnect', () => {
             logger('Heart rate monitor disconnected');
+            const wasConnected = this.connected;
             this.connected = false;
             this.peripheral = undefined;
             this.characteristic = undefined;
+            this.stopBatteryPolling();
+            this.status.disconnected();
             this.emit(HeartRateMonitorEvents.DISCONNECTED);
+
+            // the strap dropped the connection, e.g. out of range or taken off. disconnectAsync clears the device first
+            if (wasConnected && this.deviceId === deviceId) {
+                this.scheduleReconnect();
+            }
         });
 
+        let batteryLevelChar: RemoteCharacteristic | undefined;
+        try {
+            batteryLevelChar = await this.subscribeHeartRateAsync(peripheral);
+        } catch (err) {
+            // do not keep a strap connected that is not delivering heart rates
+            logger(`Failed to subscribe to ${deviceId}, disconnecting: ${err}`);
+            await peripheral.disconnectAsync()
+                .catch(disconnectErr => logger(`Failed to disconnect from ${deviceId}: ${disconnectErr}`));
+            throw err;
+        }
+
+        logger('Successfully subscribed to heart rate data');
+        this.connected = true;
+        this.deviceId = deviceId;
+        this.cancelReconnect();
+        this.emit(HeartRateMonitorEvents.CONNECTED);
+
+        if (batteryLevelChar) {
+            await this.monitorBatteryLevelAsync(batteryLevelChar);
+        }
+        this.status.checkLowBattery();
+    }
+
+    /// discovers the strap, subscribes to the heart rate and returns the battery level characteristic if there is one
+    private async subscribeHeartRateAsync(peripheral: RemotePeripheral): Promise<RemoteCharacteristic | undefined> {
         // Discover all services and characteristics at once (following peripheral-explorer pattern)
         const { services } = await peripheral.discoverAllServicesAndCharacteristicsAsync();
 
@@ -148,16 +187,14 @@ export class HeartRateMonitor extends EventEmitter {
 
         // Try to read battery level from Battery Service if available
         const batteryService = services.find(s => s.uuid === BATTERY_SERVICE_UUID);
-        if (batteryService) {
-            const batteryLevelChar = batteryService.characteristics.find(c => c.uuid === BATTERY_LEVEL_CHARACTERISTIC_UUID);
-            if (batteryLevelChar) {
-                try {
-                    const batteryBuffer = await batteryLevelChar.readAsync();
-                    this.batteryLevel = batteryBuffer.readUInt8(0);
-                    logger(`Read battery level: ${this.batteryLevel}%`);
-                } catch (err) {
-                    logger(`Failed to read battery level: ${err}`);
-                }
+        const batteryLevelChar = batteryService?.characteristics.find(c => c.uuid === BATTERY_LEVEL_CHARACTERISTIC_UUID);
+        if (batteryLevelChar) {
+            try {
+                const batteryBuffer = await batteryLevelChar.readAsync();
+                this.status.setBatteryLevel(batteryBuffer.readUInt8(0));
+                logger(`Read battery level: ${this.status.getBatteryLevel()}%`);
+            } catch (err) {
+                logger(`Failed to read battery level: ${err}`);
             }
         }
 
@@ -183,12 +220,58 @@ export class HeartRateMonitor extends EventEmitter {
             this.parseHeartRateData(data);
         });
 
-        logger('Successfully subscribed to heart rate data');
-        this.connected = true;
-        this.emit(HeartRateMonitorEvents.CONNECTED);
+        return batteryLevelChar;
+    }
+
+    public getLowBatteryThreshold(): number {
+        return this.status.getLowBatteryThreshold();
+    }
+
+    public setLowBatteryThreshold(threshold: number): void {
+        this.status.setLowBatteryThreshold(threshold);
+    }
+
+    public isBatteryLow(): boolean {
+        return this.status.isBatteryLow();
+    }
+
+    private async monitorBatteryLevelAsync(batteryLevelChar: RemoteCharacteristic): Promise<void> {
+        if (batteryLevelChar.properties.includes('notify')) {
+            try {
+                batteryLevelChar.on('data', (data: Buffer) => {
+                    if (data.length > 0) {
+                        this.status.updateBatteryLevel(data.readUInt8(0));
+                    }
+                });
+                await batteryLevelChar.subscribeAsync();
+                logger('Subscribed to battery level notifications');
+                return;
+            } catch (err) {
+                batteryLevelChar.removeAllListeners('data');
+                logger(`Failed to subscribe to battery level, polling instead: ${err}`);
+            }
+        }
+
+        this.stopBatteryPolling();
+        this.batteryPollTimer = setInterval(() => {
+            batteryLevelChar.readAsync()
+                .then(data => this.status.updateBatteryLevel(data.readUInt8(0)))
+                .catch(err => logger(`Failed to poll battery level: ${err}`));
+        }, BATTERY_POLL_INTERVAL);
+    }
+
+    private stopBatteryPolling(): void {
+        if (this.batteryPollTimer != null) {
+            clearInterval(this.batteryPollTimer);
+            this.batteryPollTimer = null;
+        }
     }
 
     public async disconnectAsync(): Promise<void> {
+        // a disconnect on request must not trigger the reconnection
+        this.deviceId = null;
+        this.cancelReconnect();
+
         if (this.peripheral && this.connected) {
             logger('Disconnecting from heart rate monitor...');
             await this.peripheral.disconnectAsync();
@@ -200,25 +283,120 @@ export class HeartRateMonitor extends EventEmitter {
         return this.connected;
     }
 
+    public isReconnecting(): boolean {
+        return this.reconnectTimer != null;
+    }
+
+    private async connectWithTimeoutAsync(deviceId: string): Promise<void> {
+        let timeout: NodeJS.Timeout | undefined;
+        try {
+            await Promise.race([
+                this.connectAsync(deviceId),
+                new Promise((_, reject) => {
+                    timeout = setTimeout(() => reject(new Error('Connection timeout')), CONNECTION_TIMEOUT);
+                }),
+            ]);
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+
+    private scheduleReconnect(): void {
+        const deviceId = this.deviceId;
+        if (deviceId == null || this.reconnectTimer != null) {
+            return;
+        }
+
+        const delay = Math.min(RECONNECT_INITIAL_DELAY * Math.pow(2, this.reconnectAttempt), RECONNECT_MAX_DELAY);
+        this.reconnectAttempt++;
+        logger(`Reconnecting to ${deviceId} in ${delay}ms (attempt ${this.reconnectAttempt})`);
+
+        const info: HeartRateReconnectInfo = { attempt: this.reconnectAttempt, delay };
+        this.reconnectTimer = setTimeout(() => {
+            void this.connectWithTimeoutAsync(deviceId)
+                .catch((err: Error) => {
+                    logger(`Reconnection attempt ${info.attempt} failed: ${err.message}`);
+                })
+                .finally(() => {
+                    this.reconnectTimer = null;
+                    // retry until connected or the device was disconnected on request
+                    if (!this.connected && this.deviceId === deviceId) {
+                        this.scheduleReconnect();
+                    }
+                });
+        }, delay);
+        this.emit(HeartRateMonitorEvents.RECONNECTING, info);
+    }
+
+    private cancelReconnect(): void {
+        if (this.reconnectTimer != null) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        this.reconnectAttempt = 0;
+    }
+
+    public getSensorContact(): boolean | null {
+        return this.status.getSensorContact();
+    }
+
     private parseHeartRateData(data: Buffer): void {
         // Parse according to Bluetooth Heart Rate Measurement specification
         // https://www.bluetooth.com/specifications/gatt/characteristics/
+        // flags, heart rate (uint8 or uint16), energy expended (uint16, optional), RR intervals (uint16 each, optional)
+        if (data.length < 2) {
+            logger(`Ignoring malformed heart rate measurement: ${data.toString('hex')}`);
+            return;
+        }
 
         const flags = data.readUInt8(0);
-        const is16Bit = (flags & 0x01) !== 0;
+        const is16Bit = (flags & FLAG_HEART_RATE_16BIT) !== 0;
+        const hasEnergyExpended = (flags & FLAG_ENERGY_EXPENDED_PRESENT) !== 0;
+        const hasRrIntervals = (flags & FLAG_RR_INTERVALS_PRESENT) !== 0;
+
+        // every field the flags announce must be complete, a truncated frame is dropped
+        const fieldsLength = 1 + (is16Bit ? 2 : 1) + (hasEnergyExpended ? 2 : 0);
+        if (data.length < fieldsLength || (hasRrIntervals && (data.length - fieldsLength) % 2 !== 0)) {
+            logger(`Ignoring truncated heart rate measurement: ${data.toString('hex')}`);
+            return;
+        }
 
+        let offset = 1;
         let heartRate: number;
 
         if (is16Bit) {
-            heartRate = data.readUInt16LE(1);
+            heartRate = data.readUInt16LE(offset);
+            offset += 2;
         } else {
-            heartRate = data.readUInt8(1);
+            heartRate = data.readUInt8(offset);
+            offset += 1;
+        }
+
+        const sensorContact = (flags & FLAG_SENSOR_CONTACT_SUPPORTED) !== 0
+            ? (flags & FLAG_SENSOR_CONTACT_DETECTED) !== 0
+            : undefined;
+
+        let energyExpended: number | undefined;
+        if (hasEnergyExpended) {
+            energyExpended = data.readUInt16LE(offset);
+            offset += 2;
+        }
+
+        const rrIntervals: Array<number> = [];
+        if (hasRrIntervals) {
+            for (; offset < data.length; offset += 2) {
+                rrIntervals.push(Math.round(data.readUInt16LE(offset) * 1000 / RR_INTERVAL_RESOLUTION));
+            }
         }
 
         // logger(`Heart Rate: ${ heartRate } bpm`);
 
+        const time = Date.now();
+        this.status.updateSensorContact(sensorContact);
+
         // Publish to subject
-        this.heartRate$.next({ time: Date.now(), heartRate });
+        this.heartRate$.next({ time, heartRate, sensorContact, energyExpended, rrIntervals });
+        rrIntervals.forEach(rrInterval => this.rrIntervals$.next({ time, rrInterval }));
     }
 
     public getDeviceName(): string {
@@ -226,6 +404,6 @@ export class HeartRateMonitor extends EventEmitter {
     }
 
     public getBatteryLevel(): number | null {
-        return this.batteryLevel;
+        return this.status.getBatteryLevel();
     }
 }
@@ -0,0 +1,8 @@
+/**
+ * Event names emitted by HeartRateScanner
+ */
+export const HeartRateScannerEvents = {
+    DISCOVERY_STARTED: Symbol('HeartRateScanner:discoveryStarted'),
+    DISCOVERY_STOPPED: Symbol('HeartRateScanner:discoveryStopped'),
+    DEVICE_DISCOVERED: Symbol('HeartRateScanner:deviceDiscovered'),
+} as const;
@@ -0,0 +1,130 @@
+import { DiscoveredDevice, HeartRateScanner } from './heart-rate-scanner';
+import { HeartRateScannerEvents } from './heart-rate-scanner-events';
+import { FakeCentralAdapter, FakeFtmsRower, FakeHeartRateStrap } from './adapters/fake-central-adapter';
+import { ScanCoordinator } from './adapters';
+
+describe('HeartRateScanner', () => {
+    let central: FakeCentralAdapter;
+    let scanner: HeartRateScanner;
+    let discovered: Array<DiscoveredDevice>;
+
+    // lets the promises of the fake adapter settle while the clock is mocked
+    const flush = async (): Promise<void> => {
+        for (let i = 0; i < 5; i++) {
+            await new Promise(resolve => setImmediate(resolve));
+        }
+    };
+
+    beforeEach(() => {
+        central = new FakeCentralAdapter();
+        central.addPeripheral(new FakeHeartRateStrap('strap-1', 'HRM-Pro', 87));
+        scanner = new HeartRateScanner(central);
+
+        discovered = [];
+        scanner.on(HeartRateScannerEvents.DEVICE_DISCOVERED, (device: DiscoveredDevice) => discovered.push(device));
+        jasmine.clock().install();
+    });
+
+    afterEach(async () => {
+        await scanner.stopDiscoveryAsync();
+        jasmine.clock().uninstall();
+    });
+
+    it('should report every strap as soon as it is seen', async () => {
+        await scanner.startDiscoveryAsync();
+        await flush();
+        expect(discovered.map(d => d.id)).toEqual(['strap-1']);
+
+        const tickr = new FakeHeartRateStrap('strap-2', 'TICKR');
+        tickr.rssi = -80;
+        tickr.advertiseBatteryLevel(55);
+        central.addPeripheral(tickr);
+
+        expect(discovered.length).toBe(2);
+        expect(discovered[1]).toEqual(jasmine.objectContaining({ id: 'strap-2', name: 'TICKR', rssi: -80, batteryLevel: 55 }));
+        expect(discovered[0].batteryLevel).toBeNull();
+    });
+
+    it('should ignore the rowers reported to the rower discovery on the same adapter', async () => {
+        await scanner.startDiscoveryAsync();
+        await flush();
+
+        central.emit('discover', new FakeFtmsRower('pm5-1', 'PM5 430000000'));
+
+        expect(discovered.map(d => d.id)).toEqual(['strap-1']);
+    });
+
+    it('should stop scanning after the timeout', async () => {
+        const stopped = jasmine.createSpy('stopped');
+        scanner.on(HeartRateScannerEvents.DISCOVERY_STOPPED, stopped);
+
+        await scanner.startDiscoveryAsync(5000);
+        jasmine.clock().tick(5000);
+        await flush();
+
+        expect(stopped).toHaveBeenCalledTimes(1);
+        expect(scanner.isDiscovering()).toBeFalse();
+        expect(central.isScanning()).toBeFalse();
+        expect(central.listenerCount('discover')).toBe(0);
+    });
+
+    it('should stop scanning when cancelled', async () => {
+        await scanner.startDiscoveryAsync();
+
+        await scanner.stopDiscoveryAsync();
+        central.addPeripheral(new FakeHeartRateStrap('strap-2', 'TICKR'));
+        await flush();
+
+        expect(discovered.length).toBe(0);
+        expect(central.isScanning()).toBeFalse();
+        expect(central.listenerCount('discover')).toBe(0);
+    });
+
+    it('should keep the rower discovery on the same adapter scanning', async () => {
+        const rowerScan = {};
+        await ScanCoordinator.of(central).startScanningAsync(rowerScan, ['1826']);
+        await scanner.startDiscoveryAsync();
+
+        await scanner.stopDiscoveryAsync();
+        central.addPeripheral(new FakeFtmsRower('pm5-1', 'PM5 430000000'));
+
+        expect(central.isScanning()).toBeTrue();
+        expect(central.listenerCount('discover')).toBe(0);
+        await ScanCoordinator.of(central).stopScanningAsync(rowerScan);
+        expect(central.isScanning()).toBeFalse();
+    });
+
+    it('should not add listeners when started twice', async () => {
+        await scanner.startDiscoveryAsync();
+        await scanner.startDiscoveryAsync();
+
+        expect(central.listenerCount('discover')).toBe(1);
+    });
+
+    it('should cancel a scan waiting for the adapter', async () => {
+        central.setPoweredOn(false);
+        const discovery = scanner.startDiscoveryAsync();
+
+        await scanner.stopDiscoveryAsync();
+        central.setPoweredOn(true);
+        await discovery;
+
+        expect(central.isScanning()).toBeFalse();
+        expect(central.listenerCount('discover')).toBe(0);
+    });
+
+    it('should remember the devices seen recently, strongest signal first', async () => {
+        const tickr = new FakeHeartRateStrap('strap-2', 'TICKR');
+        tickr.rssi = -40;
+        central.addPeripheral(tickr);
+
+        await scanner.startDiscoveryAsync();
+        await flush();
+        await scanner.stopDiscoveryAsync();
+
+        expect(scanner.getDiscoveredDevices().map(d => d.id)).toEqual(['strap-2', 'strap-1']);
+
+        jasmine.clock().mockDate(new Date(Date.now() + 6 * 60 * 1000));
+        expect(scanner.getDiscoveredDevices()).toEqual([]);
+    });
+});
@@ -0,0 +1,140 @@
+import debug from 'debug';
+import { EventEmitter } from 'events';
+
+import { HeartRateScannerEvents } from './heart-rate-scanner-events';
+import { CentralAdapter, RemotePeripheral, ScanCoordinator } from './adapters';
+
+const logger = debug('HR_SCANNER');
+
+const HEART_RATE_SERVICE_UUID = '180d';
+const BATTERY_SERVICE_UUID = '180f';
+const DISCOVERY_TIMEOUT = 30000;
+// straps seen within the last five minutes are offered without a new scan
+const DISCOVERED_DEVICE_TTL = 5 * 60 * 1000;
+
+export interface DiscoveredDevice {
+    id: string;
+    name: string | undefined;
+    rssi: number; // dBm
+    batteryLevel: number | null; // percent, if advertised
+    lastSeen: number;
+}
+
+/**
+ * Scans for heart rate straps advertising the Heart Rate service
+ */
+export class HeartRateScanner extends EventEmitter {
+    private discovering = false;
+    private discoveryTimer: NodeJS.Timeout | null = null;
+    private readonly discoveredInScan = new Set<string>();
+    private readonly discoveredDevices = new Map<string, DiscoveredDevice>();
+
+    constructor(private readonly central: CentralAdapter) {
+        super();
+    }
+
+    /**
+     * Scan for heart rate straps until the timeout elapsed or the scan is stopped.
+     * Every strap is reported with DEVICE_DISCOVERED as soon as it is seen.
+     */
+    public async startDiscoveryAsync(timeout: number = DISCOVERY_TIMEOUT): Promise<void> {
+        if (this.discovering) {
+            this.restartDiscoveryTimer(timeout);
+            return;
+        }
+
+        this.discovering = true;
+        this.discoveredInScan.clear();
+        this.emit(HeartRateScannerEvents.DISCOVERY_STARTED);
+
+        try {
+            await this.central.waitForPoweredOnAsync();
+            // the scan was stopped while waiting for the adapter
+            if (!this.discovering) {
+                return;
+            }
+
+            logger('Noble powered on, starting discovery...');
+            this.central.on('discover', this.handleDiscover);
+            await ScanCoordinator.of(this.central).startScanningAsync(this, [HEART_RATE_SERVICE_UUID]);
+            this.restartDiscoveryTimer(timeout);
+        } catch (err) {
+            logger(`Failed to start discovery: ${err}`);
+            await this.stopDiscoveryAsync();
+            throw err;
+        }
+    }
+
+    public async stopDiscoveryAsync(): Promise<void> {
+        if (!this.discovering) {
+            return;
+        }
+
+        this.discovering = false;
+        if (this.discoveryTimer != null) {
+            clearTimeout(this.discoveryTimer);
+            this.discoveryTimer = null;
+        }
+        this.central.removeListener('discover', this.handleDiscover);
+
+        try {
+            await ScanCoordinator.of(this.central).stopScanningAsync(this);
+        } finally {
+            logger(`Discovery complete. Found ${this.discoveredInScan.size} devices.`);
+            this.emit(HeartRateScannerEvents.DISCOVERY_STOPPED);
+        }
+    }
+
+    public isDiscovering(): boolean {
+        return this.discovering;
+    }
+
+    /**
+     * Straps seen recently, the strongest signal first
+     */
+    public getDiscoveredDevices(): Array<DiscoveredDevice> {
+        const now = Date.now();
+        this.discoveredDevices.forEach((device, id) => {
+            if (now - device.lastSeen > DISCOVERED_DEVICE_TTL) {
+                this.discoveredDevices.delete(id);
+            }
+        });
+
+        return [...this.discoveredDevices.values()].sort((a, b) => b.rssi - a.rssi);
+    }
+
+    private restartDiscoveryTimer(timeout: number): void {
+        if (this.discoveryTimer != null) {
+            clearTimeout(this.discoveryTimer);
+        }
+        this.discoveryTimer = setTimeout(() => {
+            this.discoveryTimer = null;
+            void this.stopDiscoveryAsync().catch(err => logger(`Failed to stop discovery: ${err}`));
+        }, timeout);
+    }
+
+    private handleDiscover = (peripheral: RemotePeripheral): void => {
+        // the discovery of the FTMS rower on the same adapter reports the rowers as well
+        if (!peripheral.advertisement.serviceUuids?.some(uuid => uuid.toLowerCase() === HEART_RATE_SERVICE_UUID)) {
+            return;
+        }
+
+        const batteryData = peripheral.advertisement.serviceData?.find(d => d.uuid.toLowerCase() === BATTERY_SERVICE_UUID);
+        const previous = this.discoveredDevices.get(peripheral.id);
+        const device: DiscoveredDevice = {
+            id: peripheral.id,
+            // the name is not part of every advertisement, keep the one seen before
+            name: peripheral.advertisement.localName ?? previous?.name,
+            rssi: peripheral.rssi,
+            batteryLevel: batteryData != null && batteryData.data.length > 0 ? batteryData.data.readUInt8(0) : previous?.batteryLevel ?? null,
+            lastSeen: Date.now(),
+        };
+
+        this.discoveredDevices.set(device.id, device);
+        if (!this.discoveredInScan.has(device.id)) {
+            this.discoveredInScan.add(device.id);
+            logger(`Discovered device: ${device.name} (${device.rssi} dBm)`);
+        }
+        this.emit(HeartRateScannerEvents.DEVICE_DISCOVERED, device);
+    };
+}
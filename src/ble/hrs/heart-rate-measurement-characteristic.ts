@@ -0,0 +1,52 @@
+import { Characteristic, Descriptor } from '@stoprocent/bleno';
+import debug from 'debug';
+import { CharacteristicUserDescriptionUUID, HeartRateMeasurementUUID } from '../uuids';
+import { bit } from '../../helper';
+import { CharacteristicEvents } from '../characteristic-events';
+
+const logger = debug('HRS');
+
+export const HeartRateMeasurementFlag = {
+    HeartRateValueFormatUInt16: bit(0),     // 0x01
+    SensorContactDetected: bit(1),          // 0x02
+    SensorContactSupported: bit(2),         // 0x04
+    EnergyExpendedPresent: bit(3),          // 0x08
+    RRIntervalPresent: bit(4),              // 0x10
+};
+
+export class HeartRateMeasurementCharacteristic extends Characteristic {
+
+    public constructor() {
+        logger(`[${HeartRateMeasurementUUID}][HeartRateMeasurementCharacteristic] constructor`);
+        super({
+            uuid: HeartRateMeasurementUUID,
+            properties: ['notify'],
+            descriptors: [
+                new Descriptor({
+                    uuid: CharacteristicUserDescriptionUUID,
+                    value: 'Heart Rate Measurement',
+                }),
+            ],
+        });
+    }
+
+    public updateHeartRate(heartRate: number): void {
+        if (Number.isNaN(heartRate)) {
+            return;
+        }
+
+        // Flags (8bit), Heart Rate Measurement Value (8bit or 16bit)
+        const value = Math.max(0, Math.round(heartRate));
+        let data: Buffer;
+        if (value > 0xFF) {
+            data = Buffer.alloc(3);
+            data.writeUInt8(HeartRateMeasurementFlag.HeartRateValueFormatUInt16, 0);
+            data.writeUInt16LE(Math.min(value, 0xFFFF), 1);
+        } else {
+            data = Buffer.from([0x00, value]);
+        }
+
+        this.notify(data);
+        this.emit(CharacteristicEvents.NOTIFICATION, data);
+    }
+}
@@ -0,0 +1,29 @@
+import debug from 'debug';
+import { PrimaryService } from '@stoprocent/bleno';
+import { HeartRateServiceUUID } from '../uuids';
+import { HeartRateMeasurementCharacteristic } from './heart-rate-measurement-characteristic';
+
+const logger = debug('HRS_SRV');
+
+export class HeartRateService extends PrimaryService {
+    private readonly _heartRateMeasurementCharacteristic: HeartRateMeasurementCharacteristic;
+
+    public constructor() {
+        logger(`[${HeartRateServiceUUID}][HeartRateService] constructor`);
+
+        const heartRateMeasurementCharacteristic = new HeartRateMeasurementCharacteristic();
+
+        super({
+            uuid: HeartRateServiceUUID,
+            characteristics: [
+                heartRateMeasurementCharacteristic,
+            ],
+        });
+
+        this._heartRateMeasurementCharacteristic = heartRateMeasurementCharacteristic;
+    }
+
+    public updateHeartRate(heartRate: number): void {
+        this._heartRateMeasurementCharacteristic.updateHeartRate(heartRate);
+    }
+}
@@ -0,0 +1 @@
+export { HeartRateService } from './heart-rate-service';
\ No newline at end of file
@@ -1 +1,4 @@
+export { BleBridge, BleBridgeStatus } from './ble-bridge';
+export { BleBridgeEvents } from './ble-bridge-events';
+export { CentralInfo, CentralSubscription } from './central-registry';
 export { FitnessMachineService } from './ftms/ftms-service';
\ No newline at end of file
@@ -1,7 +1,27 @@
-
 type Digit = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | 'A' | 'B' | 'C' | 'D' | 'F';
 type UUID = `${Digit}${Digit}${Digit}${Digit}`;
 export const CharacteristicUserDescriptionUUID: UUID = '2901';
 export const FitnessMachineFeatureUUID: UUID = '2ACC';
 export const FitnessMachineServiceUUID: UUID = '1826';
-export const IndoorBikeDataUUID: UUID = '2AD2';
\ No newline at end of file
+export const IndoorBikeDataUUID: UUID = '2AD2';
+export const RowerDataUUID: UUID = '2AD1';
+export const FitnessMachineControlPointUUID: UUID = '2AD9';
+export const FitnessMachineStatusUUID: UUID = '2ADA';
+export const TrainingStatusUUID: UUID = '2AD3';
+export const HeartRateServiceUUID: UUID = '180D';
+export const HeartRateMeasurementUUID: UUID = '2A37';
+export const BatteryServiceUUID: UUID = '180F';
+export const BatteryLevelUUID: UUID = '2A19';
+export const CyclingPowerServiceUUID: UUID = '1818';
+export const CyclingPowerMeasurementUUID: UUID = '2A63';
+export const CyclingPowerFeatureUUID: UUID = '2A65';
+export const SensorLocationUUID: UUID = '2A5D';
+export const CyclingSpeedAndCadenceServiceUUID: UUID = '1816';
+export const CSCMeasurementUUID: UUID = '2A5B';
+export const CSCFeatureUUID: UUID = '2A5C';
+export const DeviceInformationServiceUUID: UUID = '180A';
+export const ManufacturerNameStringUUID: UUID = '2A29';
+export const ModelNumberStringUUID: UUID = '2A24';
+export const SerialNumberStringUUID: UUID = '2A25';
+export const FirmwareRevisionStringUUID: UUID = '2A26';
+export const SoftwareRevisionStringUUID: UUID = '2A28';
\ No newline at end of file
@@ -237,6 +237,43 @@ describe('FitFileGenerator', () => {
             expect(messages.recordMesgs.length).toBe(1);
         });
 
+        it('should include hrv messages with the RR intervals in seconds', () => {
+            const hrvDataPoints: Array<TrainingDataPoint> = [
+                {
+                    timestamp: new Date('2025-12-05T10:00:00Z'),
+                    elapsedTime: 0,
+                    heartRate: 100,
+                    rrIntervals: [600, 610, 620, 630, 640, 650, 660],
+                },
+                {
+                    timestamp: new Date('2025-12-05T10:00:01Z'),
+                    elapsedTime: 1,
+                    heartRate: 100,
+                },
+            ];
+
+            const filePath = fitGenerator.generateFitFile(mockSummary, hrvDataPoints);
+            const { messages } = decodeFile(filePath);
+
+            expect(messages.hrvMesgs.length).toBe(2);
+            expect(messages.hrvMesgs[0].time).toEqual([0.6, 0.61, 0.62, 0.63, 0.64]);
+            expect(messages.hrvMesgs[1].time).toEqual([0.65, 0.66]);
+        });
+
+        it('should mark a heart rate gap with a zero heart rate', () => {
+            const gapDataPoints: Array<TrainingDataPoint> = [
+                { timestamp: new Date('2025-12-05T10:00:00Z'), elapsedTime: 0, heartRate: 120 },
+                { timestamp: new Date('2025-12-05T10:00:01Z'), elapsedTime: 1, heartRateGap: true },
+                { timestamp: new Date('2025-12-05T10:00:02Z'), elapsedTime: 2, heartRate: 124 },
+                { timestamp: new Date('2025-12-05T10:00:03Z'), elapsedTime: 3 },
+            ];
+
+            const filePath = fitGenerator.generateFitFile(mockSummary, gapDataPoints);
+            const { messages } = decodeFile(filePath);
+
+            expect(messages.recordMesgs.map((r: { heartRate?: number }) => r.heartRate)).toEqual([120, 0, 124, undefined]);
+        });
+
         it('should handle session summary with missing optional fields', () => {
             const minimalSummary: SessionSummary = {
                 id: 'test-minimal',
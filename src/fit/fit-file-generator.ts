@@ -32,6 +32,8 @@ const SERIAL_NUMBER = 123456; // Default serial number if not provided
 const SOURCE_TYPE = FitSourceType.LOCAL;
 const SPORT = FitSport.ROWING;
 const SUB_SPORT = FitSubSport.INDOOR_ROWING;
+// Garmin devices write up to five intervals per HRV message
+const HRV_VALUES_PER_MESSAGE = 5;
 
 export class FitFileGenerator {
     constructor(private configManager: ConfigManager) { }
@@ -87,10 +89,16 @@ export class FitFileGenerator {
 
             if (point.heartRate) {
                 recordMessage.heartRate = Math.round(point.heartRate);
+            } else if (point.heartRateGap) {
+                // an explicit zero marks the outage, a missing value is interpolated by most analysis tools
+                recordMessage.heartRate = 0;
             }
             if (point.power) {
                 recordMessage.power = Math.round(point.power);
             }
+            if (point.strokeDistance) {
+                recordMessage.cycleLength16 = point.strokeDistance;
+            }
             if (point.speed) {
                 recordMessage.speed = point.speed;
             }
@@ -99,6 +107,14 @@ export class FitFileGenerator {
             }
 
             encoder.onMesg(Profile.MesgNum.RECORD, recordMessage);
+
+            // HRV messages carry the beat-to-beat intervals in seconds
+            const rrIntervals = point.rrIntervals ?? [];
+            for (let i = 0; i < rrIntervals.length; i += HRV_VALUES_PER_MESSAGE) {
+                encoder.onMesg(Profile.MesgNum.HRV, {
+                    time: rrIntervals.slice(i, i + HRV_VALUES_PER_MESSAGE).map(rr => rr / 1000),
+                });
+            }
         });
 
         // Create 500m laps with calculated values
@@ -120,6 +136,7 @@ export class FitFileGenerator {
                 avgSpeed: lap.avgSpeed,
                 maxSpeed: lap.maxSpeed,
                 totalStrokes: lap.totalStrokes,
+                avgStrokeDistance: lap.avgStrokeDistance,
                 sport: SPORT,
                 subSport: SUB_SPORT,
                 lapTrigger: FitLapTrigger.DISTANCE,
@@ -143,6 +160,7 @@ export class FitFileGenerator {
             avgSpeed: summary.avgSpeed,
             maxSpeed: summary.maxSpeed,
             totalStrokes: summary.totalStrokes,
+            avgStrokeDistance: summary.avgStrokeDistance,
             sport: SPORT,
             subSport: SUB_SPORT,
             firstLapIndex: 0,
@@ -199,6 +217,7 @@ export class FitFileGenerator {
             avgSpeed?: number;
             maxSpeed?: number;
             totalStrokes?: number;
+            avgStrokeDistance?: number;
         }> = [];
 
         if (dataPoints.length === 0) {
@@ -276,6 +295,7 @@ export class FitFileGenerator {
         const startStrokes = firstPoint.totalStrokes || 0;
         const endStrokes = lastPoint.totalStrokes || 0;
         const lapStrokes = endStrokes - startStrokes;
+        const avgStrokeDistance = lapStrokes > 0 ? lapDistance / lapStrokes : undefined;
 
         return {
             startTime: firstPoint.timestamp,
@@ -290,6 +310,7 @@ export class FitFileGenerator {
             avgSpeed,
             maxSpeed,
             totalStrokes: lapStrokes,
+            avgStrokeDistance,
         };
     }
 
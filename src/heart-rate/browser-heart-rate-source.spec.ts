@@ -0,0 +1,94 @@
+import { BrowserHeartRateSource } from './browser-heart-rate-source';
+import { HeartRateData, RRIntervalData } from '../ble/heart-rate-monitor';
+import { HeartRateMonitorEvents } from '../ble/heart-rate-monitor-events';
+
+describe('BrowserHeartRateSource', () => {
+    let source: BrowserHeartRateSource;
+    let heartRates: Array<HeartRateData>;
+
+    beforeEach(() => {
+        jasmine.clock().install();
+        jasmine.clock().mockDate(new Date('2026-01-10T08:00:00Z'));
+
+        source = new BrowserHeartRateSource('Polar H10');
+        heartRates = [];
+        source.heartRate$.subscribe(data => heartRates.push(data));
+    });
+
+    afterEach(async () => {
+        await source.disconnectAsync();
+        jasmine.clock().uninstall();
+    });
+
+    it('should connect with the first sample', () => {
+        const connected = jasmine.createSpy('connected');
+        source.on(HeartRateMonitorEvents.CONNECTED, connected);
+
+        expect(source.pushSample({ heartRate: 132, rrIntervals: [455, 460], sensorContact: true })).toBeTrue();
+
+        expect(connected).toHaveBeenCalledTimes(1);
+        expect(source.isConnected()).toBeTrue();
+        expect(heartRates).toEqual([jasmine.objectContaining({ heartRate: 132, rrIntervals: [455, 460], sensorContact: true })]);
+    });
+
+    it('should stream every RR interval', () => {
+        const rrIntervals: Array<RRIntervalData> = [];
+        source.rrIntervals$.subscribe(data => rrIntervals.push(data));
+
+        source.pushSample({ heartRate: 132, rrIntervals: [455, 460] });
+
+        expect(rrIntervals.map(rr => rr.rrInterval)).toEqual([455, 460]);
+    });
+
+    it('should drop samples arriving faster than a strap notifies', () => {
+        source.pushSample({ heartRate: 130 });
+        jasmine.clock().tick(100);
+
+        expect(source.pushSample({ heartRate: 131 })).toBeFalse();
+
+        jasmine.clock().tick(900);
+        expect(source.pushSample({ heartRate: 132 })).toBeTrue();
+        expect(heartRates.map(h => h.heartRate)).toEqual([130, 132]);
+    });
+
+    it('should disconnect when the browser stops sending', () => {
+        const disconnected = jasmine.createSpy('disconnected');
+        source.on(HeartRateMonitorEvents.DISCONNECTED, disconnected);
+        source.pushSample({ heartRate: 130 });
+
+        jasmine.clock().tick(4000);
+        source.pushSample({ heartRate: 131 });
+        jasmine.clock().tick(4000);
+        expect(disconnected).not.toHaveBeenCalled();
+
+        jasmine.clock().tick(1000);
+        expect(disconnected).toHaveBeenCalledTimes(1);
+        expect(source.isConnected()).toBeFalse();
+    });
+
+    it('should report the battery level and warn when low', () => {
+        const batteryLow = jasmine.createSpy('batteryLow');
+        source.on(HeartRateMonitorEvents.BATTERY_LOW, batteryLow);
+
+        source.pushSample({ heartRate: 130, batteryLevel: 25 });
+        jasmine.clock().tick(1000);
+        source.pushSample({ heartRate: 130, batteryLevel: 20 });
+        jasmine.clock().tick(1000);
+        source.pushSample({ heartRate: 130, batteryLevel: 19 });
+
+        expect(source.getBatteryLevel()).toBe(19);
+        expect(batteryLow).toHaveBeenCalledOnceWith(20);
+    });
+
+    it('should report the lost skin contact', () => {
+        const contactLost = jasmine.createSpy('contactLost');
+        source.on(HeartRateMonitorEvents.SENSOR_CONTACT_LOST, contactLost);
+
+        source.pushSample({ heartRate: 130, sensorContact: true });
+        jasmine.clock().tick(1000);
+        source.pushSample({ heartRate: 0, sensorContact: false });
+
+        expect(contactLost).toHaveBeenCalledTimes(1);
+        expect(source.getSensorContact()).toBeFalse();
+    });
+});
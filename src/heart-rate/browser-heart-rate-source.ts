@@ -0,0 +1,131 @@
+import debug from 'debug';
+import { EventEmitter } from 'events';
+import { Subject } from 'rxjs';
+
+import { HeartRateSource } from './heart-rate-source';
+import { DEFAULT_LOW_BATTERY_THRESHOLD, HeartRateSourceStatus } from './heart-rate-source-status';
+import { HeartRateData, RRIntervalData } from '../ble/heart-rate-monitor';
+import { HeartRateMonitorEvents } from '../ble/heart-rate-monitor-events';
+
+const logger = debug('HR_BROWSER');
+
+// a strap notifies once per second, anything faster is a misbehaving client
+const MIN_SAMPLE_INTERVAL = 250;
+// the browser closed or lost the strap without telling us
+const SAMPLE_TIMEOUT = 5000;
+
+/// measurement captured by the web UI with Web Bluetooth
+export interface BrowserHeartRateSample {
+    heartRate: number;
+    rrIntervals?: Array<number>; // ms
+    sensorContact?: boolean;
+    energyExpended?: number; // kJ
+    batteryLevel?: number; // percent
+}
+
+/**
+ * Heart rate strap connected to the browser of the web UI, the samples are pushed over Socket.IO or REST
+ */
+export class BrowserHeartRateSource extends EventEmitter implements HeartRateSource {
+    private connected = false;
+    private lastSampleTime = 0;
+    private timeoutTimer: NodeJS.Timeout | null = null;
+    private readonly status: HeartRateSourceStatus;
+
+    public heartRate$ = new Subject<HeartRateData>();
+    public rrIntervals$ = new Subject<RRIntervalData>();
+
+    constructor(private readonly deviceName: string, lowBatteryThreshold: number = DEFAULT_LOW_BATTERY_THRESHOLD) {
+        super();
+        this.status = new HeartRateSourceStatus(this, logger, lowBatteryThreshold);
+    }
+
+    /// returns false if the sample was dropped by the rate limit
+    public pushSample(sample: BrowserHeartRateSample): boolean {
+        const time = Date.now();
+        if (this.connected && time - this.lastSampleTime < MIN_SAMPLE_INTERVAL) {
+            logger(`Dropping sample of ${this.deviceName}, ${time - this.lastSampleTime}ms after the previous one`);
+            return false;
+        }
+
+        this.lastSampleTime = time;
+        this.restartTimeout();
+        if (!this.connected) {
+            logger(`Receiving heart rate of ${this.deviceName} from the browser`);
+            this.connected = true;
+            this.emit(HeartRateMonitorEvents.CONNECTED);
+        }
+
+        if (sample.batteryLevel != null) {
+            this.status.updateBatteryLevel(sample.batteryLevel);
+        }
+        this.status.updateSensorContact(sample.sensorContact);
+
+        const rrIntervals = sample.rrIntervals ?? [];
+        this.heartRate$.next({
+            time,
+            heartRate: sample.heartRate,
+            sensorContact: sample.sensorContact,
+            energyExpended: sample.energyExpended,
+            rrIntervals,
+        });
+        rrIntervals.forEach(rrInterval => this.rrIntervals$.next({ time, rrInterval }));
+        return true;
+    }
+
+    public async disconnectAsync(): Promise<void> {
+        if (this.timeoutTimer != null) {
+            clearTimeout(this.timeoutTimer);
+            this.timeoutTimer = null;
+        }
+
+        if (!this.connected) {
+            return;
+        }
+
+        logger(`Browser stopped sending the heart rate of ${this.deviceName}`);
+        this.connected = false;
+        this.status.disconnected();
+        this.emit(HeartRateMonitorEvents.DISCONNECTED);
+    }
+
+    public isConnected(): boolean {
+        return this.connected;
+    }
+
+    // the browser reconnects the strap on its own
+    public isReconnecting(): boolean {
+        return false;
+    }
+
+    public getDeviceName(): string {
+        return this.deviceName;
+    }
+
+    public getBatteryLevel(): number | null {
+        return this.status.getBatteryLevel();
+    }
+
+    public isBatteryLow(): boolean {
+        return this.status.isBatteryLow();
+    }
+
+    public setLowBatteryThreshold(threshold: number): void {
+        this.status.setLowBatteryThreshold(threshold);
+    }
+
+    public getSensorContact(): boolean | null {
+        return this.status.getSensorContact();
+    }
+
+    private restartTimeout(): void {
+        if (this.timeoutTimer != null) {
+            clearTimeout(this.timeoutTimer);
+        }
+        this.timeoutTimer = setTimeout(() => {
+            this.timeoutTimer = null;
+            this.disconnectAsync()
+                .catch(error => logger(`Failed to disconnect ${this.deviceName}:`, error));
+        }, SAMPLE_TIMEOUT);
+    }
+}
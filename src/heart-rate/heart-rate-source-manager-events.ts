@@ -0,0 +1,11 @@
+/**
+ * Event names emitted by HeartRateSourceManager
+ */
+export const HeartRateSourceManagerEvents = {
+    PRIMARY_CHANGED: Symbol('HeartRateSourceManager:primaryChanged'),
+    SOURCES_UPDATED: Symbol('HeartRateSourceManager:sourcesUpdated'),
+    BATTERY_LEVEL_CHANGED: Symbol('HeartRateSourceManager:batteryLevelChanged'),
+    BATTERY_LOW: Symbol('HeartRateSourceManager:batteryLow'),
+    SENSOR_CONTACT_LOST: Symbol('HeartRateSourceManager:sensorContactLost'),
+    ERROR: Symbol('HeartRateSourceManager:error'),
+} as const;
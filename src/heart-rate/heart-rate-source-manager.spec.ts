@@ -0,0 +1,197 @@
+import { HeartRateSourceManager } from './heart-rate-source-manager';
+import { HeartRateSourceManagerEvents } from './heart-rate-source-manager-events';
+import { HeartRateSample, HeartRateSourceInfo } from './heart-rate-source';
+import { FakeCentralAdapter, FakeHeartRateStrap } from '../ble/adapters/fake-central-adapter';
+
+// Heart Rate Measurement flags with contact detection supported
+const CONTACT = 0x06;
+const NO_CONTACT = 0x04;
+
+describe('HeartRateSourceManager', () => {
+    let central: FakeCentralAdapter;
+    let chestStrap: FakeHeartRateStrap;
+    let armband: FakeHeartRateStrap;
+    let manager: HeartRateSourceManager;
+    let samples: Array<HeartRateSample>;
+
+    beforeEach(async () => {
+        central = new FakeCentralAdapter();
+        chestStrap = new FakeHeartRateStrap('strap-1', 'HRM-Pro', 80);
+        armband = new FakeHeartRateStrap('strap-2', 'Verity Sense', 50);
+        central.addPeripheral(chestStrap);
+        central.addPeripheral(armband);
+
+        manager = new HeartRateSourceManager(central);
+        samples = [];
+        manager.heartRate$.subscribe(data => samples.push(data));
+
+        await manager.connectBleDeviceAsync('strap-1', 'HRM-Pro');
+        await manager.connectBleDeviceAsync('strap-2', 'Verity Sense');
+    });
+
+    afterEach(async () => {
+        await manager.disconnectAllAsync();
+        manager.heartRate$.complete();
+    });
+
+    it('should publish the measurements of the preferred source only', () => {
+        chestStrap.notifyHeartRate(120);
+        armband.notifyHeartRate(118);
+
+        expect(samples.map(s => [s.source, s.heartRate])).toEqual([['ble:strap-1', 120]]);
+        expect(manager.getPrimary()?.id).toBe('ble:strap-1');
+    });
+
+    it('should list the sources by priority', () => {
+        expect(manager.getSources()).toEqual([
+            jasmine.objectContaining({ id: 'ble:strap-1', name: 'HRM-Pro', priority: 0, primary: true, connected: true, batteryLevel: 80 }),
+            jasmine.objectContaining({ id: 'ble:strap-2', name: 'Verity Sense', priority: 1, primary: false, connected: true, batteryLevel: 50 }),
+        ]);
+    });
+
+    it('should fail over when the primary disconnects', () => {
+        const primaryChanged = jasmine.createSpy('primaryChanged');
+        manager.on(HeartRateSourceManagerEvents.PRIMARY_CHANGED, primaryChanged);
+
+        chestStrap.simulateDisconnect();
+        armband.notifyHeartRate(118);
+
+        expect(primaryChanged).toHaveBeenCalledOnceWith(jasmine.objectContaining({ id: 'ble:strap-2' }));
+        expect(samples.map(s => s.source)).toEqual(['ble:strap-2']);
+    });
+
+    it('should fail over while the primary has no skin contact', () => {
+        chestStrap.notifyMeasurement(Buffer.from([CONTACT, 120]));
+        chestStrap.notifyMeasurement(Buffer.from([NO_CONTACT, 0]));
+        armband.notifyMeasurement(Buffer.from([CONTACT, 118]));
+        chestStrap.notifyMeasurement(Buffer.from([CONTACT, 121]));
+
+        expect(samples.map(s => [s.source, s.heartRate])).toEqual([
+            ['ble:strap-1', 120],
+            ['ble:strap-2', 118],
+            ['ble:strap-1', 121],
+        ]);
+    });
+
+    it('should keep the primary if no source has skin contact', () => {
+        chestStrap.notifyMeasurement(Buffer.from([NO_CONTACT, 0]));
+        armband.notifyMeasurement(Buffer.from([NO_CONTACT, 0]));
+
+        expect(manager.getPrimary()?.id).toBe('ble:strap-1');
+    });
+
+    it('should report no primary after losing every source', () => {
+        const primaryChanged = jasmine.createSpy('primaryChanged');
+        manager.on(HeartRateSourceManagerEvents.PRIMARY_CHANGED, primaryChanged);
+
+        chestStrap.simulateDisconnect();
+        armband.simulateDisconnect();
+
+        expect(primaryChanged).toHaveBeenCalledWith(null);
+        expect(manager.isConnected()).toBeFalse();
+    });
+
+    it('should switch the primary with the priorities', () => {
+        manager.setPriorities(['ble:strap-2', 'ble:unknown']);
+        armband.notifyHeartRate(118);
+
+        expect(manager.getSources().map(s => s.id)).toEqual(['ble:strap-2', 'ble:strap-1']);
+        expect(samples.map(s => s.source)).toEqual(['ble:strap-2']);
+    });
+
+    it('should forward the battery level of the primary only', () => {
+        const batteryLevels: Array<number> = [];
+        manager.on(HeartRateSourceManagerEvents.BATTERY_LEVEL_CHANGED, (level: number) => batteryLevels.push(level));
+
+        armband.setBatteryLevel(49);
+        chestStrap.setBatteryLevel(79);
+
+        expect(batteryLevels).toEqual([79]);
+        expect(manager.getBatteryLevel()).toBe(79);
+    });
+
+    it('should warn with the source of the low battery', () => {
+        const batteryLow = jasmine.createSpy('batteryLow');
+        manager.on(HeartRateSourceManagerEvents.BATTERY_LOW, batteryLow);
+
+        armband.setBatteryLevel(15);
+
+        expect(batteryLow).toHaveBeenCalledOnceWith(jasmine.objectContaining<HeartRateSourceInfo>({ id: 'ble:strap-2', batteryLevel: 15 }));
+    });
+
+    it('should disconnect and forget a removed source', async () => {
+        await manager.removeSourceAsync('ble:strap-1');
+        chestStrap.notifyHeartRate(120);
+        armband.notifyHeartRate(118);
+
+        expect(chestStrap.connected).toBeFalse();
+        expect(manager.getSources().map(s => s.id)).toEqual(['ble:strap-2']);
+        expect(samples.map(s => s.source)).toEqual(['ble:strap-2']);
+    });
+
+    describe('with browser samples', () => {
+        beforeEach(() => {
+            jasmine.clock().install();
+            jasmine.clock().mockDate(new Date('2026-01-10T08:00:00Z'));
+        });
+
+        afterEach(() => {
+            jasmine.clock().uninstall();
+        });
+
+        it('should register the browser strap with the lowest priority', () => {
+            expect(manager.pushBrowserSample('web-1', 'Polar H10', { heartRate: 125 })).toBeTrue();
+
+            expect(manager.getSources().map(s => [s.id, s.type, s.name])).toEqual([
+                ['ble:strap-1', 'ble', 'HRM-Pro'],
+                ['ble:strap-2', 'ble', 'Verity Sense'],
+                ['browser:web-1', 'browser', 'Polar H10'],
+            ]);
+            expect(samples).toEqual([]);
+        });
+
+        it('should attribute the samples pushed by the browser', () => {
+            manager.pushBrowserSample('web-1', 'Polar H10', { heartRate: 125 });
+            manager.setPriorities(['browser:web-1']);
+
+            jasmine.clock().tick(1000);
+            manager.pushBrowserSample('web-1', 'Polar H10', { heartRate: 126 });
+            chestStrap.notifyHeartRate(121);
+
+            expect(samples.map(s => [s.source, s.heartRate])).toEqual([['browser:web-1', 126]]);
+        });
+
+        it('should replace the browser straps no longer streamed', () => {
+            ['web-1', 'web-2', 'web-3', 'web-4'].forEach(id => manager.pushBrowserSample(id, 'Polar H10', { heartRate: 125 }));
+            jasmine.clock().tick(5000);
+            ['web-1', 'web-2', 'web-3'].forEach(id => manager.pushBrowserSample(id, 'Polar H10', { heartRate: 126 }));
+
+            manager.pushBrowserSample('web-5', 'Polar H10', { heartRate: 127 });
+
+            expect(manager.getSources().map(s => s.id)).toEqual([
+                'ble:strap-1', 'ble:strap-2', 'browser:web-1', 'browser:web-2', 'browser:web-3', 'browser:web-5',
+            ]);
+        });
+
+        it('should refuse another browser strap while all of them are streamed', () => {
+            ['web-1', 'web-2', 'web-3', 'web-4'].forEach(id => manager.pushBrowserSample(id, 'Polar H10', { heartRate: 125 }));
+
+            expect(() => manager.pushBrowserSample('web-5', 'Polar H10', { heartRate: 127 })).toThrowError(/Too many browser heart rate sources/);
+            expect(manager.getSources().length).toBe(6);
+        });
+    });
+
+    it('should register the saved straps in their order', async () => {
+        const saved = new HeartRateSourceManager(central);
+        central.addPeripheral(new FakeHeartRateStrap('strap-3', 'TICKR'));
+
+        await saved.reconnectBleDevicesAsync([{ id: 'strap-4', name: 'Out of range' }, { id: 'strap-3', name: 'TICKR' }]);
+
+        expect(saved.getSources().map(s => [s.id, s.name, s.connected])).toEqual([
+            ['ble:strap-4', 'Out of range', false],
+            ['ble:strap-3', 'TICKR', true],
+        ]);
+        expect(saved.getPrimary()?.id).toBe('ble:strap-3');
+        await saved.disconnectAllAsync();
+    });
+});
@@ -0,0 +1,276 @@
+import debug from 'debug';
+import { EventEmitter } from 'events';
+import { Subject, Subscription } from 'rxjs';
+
+import { HeartRateSourceManagerEvents } from './heart-rate-source-manager-events';
+import { HeartRateSample, HeartRateSource, HeartRateSourceInfo, HeartRateSourceType, RRIntervalSample } from './heart-rate-source';
+import { BrowserHeartRateSample, BrowserHeartRateSource } from './browser-heart-rate-source';
+import { DEFAULT_LOW_BATTERY_THRESHOLD } from './heart-rate-source-status';
+import { HeartRateMonitor } from '../ble/heart-rate-monitor';
+import { HeartRateMonitorEvents } from '../ble/heart-rate-monitor-events';
+import { CentralAdapter } from '../ble/adapters';
+
+const logger = debug('HR_SOURCES');
+
+const BLE_SOURCE_PREFIX = 'ble:';
+const BROWSER_SOURCE_PREFIX = 'browser:';
+// any client may push samples, the straps it stopped streaming make room for new ones
+const MAX_BROWSER_SOURCES = 4;
+
+interface RegisteredSource {
+    id: string;
+    type: HeartRateSourceType;
+    name: string;
+    source: HeartRateSource;
+    subscriptions: Array<Subscription>;
+    listeners: Array<[symbol, Parameters<HeartRateSource['on']>[1]]>;
+}
+
+/**
+ * Holds every heart rate input and publishes the measurements of the primary one.
+ * The primary is the connected source with the highest priority that has skin contact,
+ * it fails over to the next source when it disconnects or loses contact.
+ */
+export class HeartRateSourceManager extends EventEmitter {
+    private readonly sources = new Map<string, RegisteredSource>();
+    // source ids, the first one is preferred
+    private priorities: Array<string> = [];
+    private primaryId: string | null = null;
+
+    // measurements of the primary source
+    public heartRate$ = new Subject<HeartRateSample>();
+    public rrIntervals$ = new Subject<RRIntervalSample>();
+
+    constructor(private readonly central: CentralAdapter, private lowBatteryThreshold: number = DEFAULT_LOW_BATTERY_THRESHOLD) {
+        super();
+    }
+
+    public static bleSourceId(deviceId: string): string {
+        return `${BLE_SOURCE_PREFIX}${deviceId}`;
+    }
+
+    public static browserSourceId(deviceId: string): string {
+        return `${BROWSER_SOURCE_PREFIX}${deviceId}`;
+    }
+
+    /// the strap id of a BLE source, null for other sources
+    public static bleDeviceId(sourceId: string): string | null {
+        return sourceId.startsWith(BLE_SOURCE_PREFIX) ? sourceId.substring(BLE_SOURCE_PREFIX.length) : null;
+    }
+
+    /// registers the source with the lowest priority
+    public addSource(id: string, type: HeartRateSourceType, name: string, source: HeartRateSource): void {
+        if (this.sources.has(id)) {
+            throw new Error(`Heart rate source ${id} already registered`);
+        }
+
+        const registered: RegisteredSource = { id, type, name, source, subscriptions: [], listeners: [] };
+        const update = (): void => this.updateSources();
+        registered.listeners = [
+            [HeartRateMonitorEvents.CONNECTED, update],
+            [HeartRateMonitorEvents.DISCONNECTED, update],
+            [HeartRateMonitorEvents.RECONNECTING, update],
+            [HeartRateMonitorEvents.SENSOR_CONTACT_RESTORED, update],
+            [HeartRateMonitorEvents.SENSOR_CONTACT_LOST, () => {
+                this.emit(HeartRateSourceManagerEvents.SENSOR_CONTACT_LOST, this.toInfo(registered));
+                this.updateSources();
+            }],
+            [HeartRateMonitorEvents.BATTERY_LEVEL_CHANGED, (batteryLevel: number) => {
+                if (id === this.primaryId) {
+                    this.emit(HeartRateSourceManagerEvents.BATTERY_LEVEL_CHANGED, batteryLevel);
+                }
+                this.emit(HeartRateSourceManagerEvents.SOURCES_UPDATED);
+            }],
+            [HeartRateMonitorEvents.BATTERY_LOW, () => {
+                this.emit(HeartRateSourceManagerEvents.BATTERY_LOW, this.toInfo(registered));
+            }],
+            [HeartRateMonitorEvents.ERROR, (error: Error) => {
+                this.emit(HeartRateSourceManagerEvents.ERROR, error);
+            }],
+        ];
+        registered.listeners.forEach(([event, listener]) => source.on(event, listener));
+
+        registered.subscriptions = [
+            // a lost contact hands over to another source before the measurement is published
+            source.heartRate$.subscribe(data => {
+                if (id === this.primaryId) {
+                    this.heartRate$.next({ ...data, source: id });
+                }
+            }),
+            source.rrIntervals$.subscribe(data => {
+                if (id === this.primaryId) {
+                    this.rrIntervals$.next({ ...data, source: id });
+                }
+            }),
+        ];
+
+        this.sources.set(id, registered);
+        if (!this.priorities.includes(id)) {
+            this.priorities.push(id);
+        }
+        source.setLowBatteryThreshold(this.lowBatteryThreshold);
+        logger(`Added heart rate source ${id} (${name})`);
+        this.updateSources();
+    }
+
+    public async removeSourceAsync(id: string): Promise<void> {
+        const registered = this.sources.get(id);
+        if (registered == null) {
+            return;
+        }
+
+        this.sources.delete(id);
+        this.priorities = this.priorities.filter(p => p !== id);
+        registered.subscriptions.forEach(s => s.unsubscribe());
+        registered.listeners.forEach(([event, listener]) => registered.source.removeListener(event, listener));
+        await registered.source.disconnectAsync();
+
+        logger(`Removed heart rate source ${id}`);
+        this.updateSources();
+    }
+
+    /// connects the strap, it is registered as source on first use
+    public async connectBleDeviceAsync(deviceId: string, name: string = 'Unknown Device'): Promise<void> {
+        await this.getOrAddBleMonitor(deviceId, name).connectAsync(deviceId);
+    }
+
+    /// disconnects the strap, it stays registered and keeps its priority
+    public async disconnectBleDeviceAsync(deviceId: string): Promise<void> {
+        await this.sources.get(HeartRateSourceManager.bleSourceId(deviceId))?.source.disconnectAsync();
+        this.updateSources();
+    }
+
+    /// feeds a measurement of a strap connected to the web UI, the strap is registered as source on first use.
+    /// Returns false if the sample was dropped by the rate limit, throws if too many straps are streamed.
+    public pushBrowserSample(deviceId: string, deviceName: string, sample: BrowserHeartRateSample): boolean {
+        const id = HeartRateSourceManager.browserSourceId(deviceId);
+        let registered = this.sources.get(id);
+        if (registered == null) {
+            this.makeRoomForBrowserSource();
+            this.addSource(id, 'browser', deviceName, new BrowserHeartRateSource(deviceName, this.lowBatteryThreshold));
+            registered = this.sources.get(id)!;
+        }
+
+        return (registered.source as BrowserHeartRateSource).pushSample(sample);
+    }
+
+    /// the web UI stopped streaming the strap, it stays registered and keeps its priority
+    public async disconnectBrowserDeviceAsync(deviceId: string): Promise<void> {
+        await this.sources.get(HeartRateSourceManager.browserSourceId(deviceId))?.source.disconnectAsync();
+    }
+
+    /// registers the saved straps in their order and connects them in background
+    public async reconnectBleDevicesAsync(devices: Array<{ id: string; name: string }>): Promise<void> {
+        const monitors = devices.map(device => ({ id: device.id, monitor: this.getOrAddBleMonitor(device.id, device.name) }));
+        await Promise.all(monitors.map(({ id, monitor }) => monitor.reconnectAsync(id)));
+    }
+
+    public async disconnectAllAsync(): Promise<void> {
+        await Promise.all([...this.sources.values()].map(s => s.source.disconnectAsync()));
+        this.updateSources();
+    }
+
+    /// orders the sources by the given ids, sources missing in the list keep their order behind them
+    public setPriorities(ids: Array<string>): void {
+        const known = ids.filter((id, index) => this.sources.has(id) && ids.indexOf(id) === index);
+        this.priorities = [...known, ...this.priorities.filter(id => !known.includes(id))];
+        logger(`Heart rate source priorities: ${this.priorities.join(', ')}`);
+        this.updateSources();
+    }
+
+    public getSources(): Array<HeartRateSourceInfo> {
+        return this.priorities
+            .map(id => this.sources.get(id))
+            .filter((s): s is RegisteredSource => s != null)
+            .map(s => this.toInfo(s));
+    }
+
+    public getPrimary(): HeartRateSourceInfo | null {
+        const primary = this.primaryId != null ? this.sources.get(this.primaryId) : undefined;
+        return primary != null ? this.toInfo(primary) : null;
+    }
+
+    public isConnected(): boolean {
+        return this.primaryId != null;
+    }
+
+    public getBatteryLevel(): number | null {
+        return this.getPrimary()?.batteryLevel ?? null;
+    }
+
+    public getLowBatteryThreshold(): number {
+        return this.lowBatteryThreshold;
+    }
+
+    public setLowBatteryThreshold(threshold: number): void {
+        this.lowBatteryThreshold = threshold;
+        this.sources.forEach(s => s.source.setLowBatteryThreshold(threshold));
+        this.emit(HeartRateSourceManagerEvents.SOURCES_UPDATED);
+    }
+
+    /// drops the browser strap with the lowest priority that is no longer streamed
+    private makeRoomForBrowserSource(): void {
+        const browserSources = this.priorities.filter(id => this.sources.get(id)?.type === 'browser');
+        if (browserSources.length < MAX_BROWSER_SOURCES) {
+            return;
+        }
+
+        const stale = browserSources.reverse().find(id => !this.sources.get(id)!.source.isConnected());
+        if (stale == null) {
+            throw new Error(`Too many browser heart rate sources, at most ${MAX_BROWSER_SOURCES} are streamed`);
+        }
+
+        // the source is unregistered before the promise settles, its disconnect has nothing left to do
+        this.removeSourceAsync(stale)
+            .catch(error => logger(`Failed to remove heart rate source ${stale}:`, error));
+    }
+
+    private getOrAddBleMonitor(deviceId: string, name: string): HeartRateMonitor {
+        const id = HeartRateSourceManager.bleSourceId(deviceId);
+        const registered = this.sources.get(id);
+        if (registered != null) {
+            return registered.source as HeartRateMonitor;
+        }
+
+        const monitor = new HeartRateMonitor(this.central, this.lowBatteryThreshold);
+        this.addSource(id, 'ble', name, monitor);
+        return monitor;
+    }
+
+    private updateSources(): void {
+        this.selectPrimary();
+        this.emit(HeartRateSourceManagerEvents.SOURCES_UPDATED);
+    }
+
+    private selectPrimary(): void {
+        const connected = this.priorities
+            .map(id => this.sources.get(id))
+            .filter((s): s is RegisteredSource => s != null && s.source.isConnected());
+        // without any contact the preferred source is kept rather than dropping the heart rate
+        const primary = connected.find(s => s.source.getSensorContact() !== false) ?? connected[0];
+        const primaryId = primary?.id ?? null;
+        if (primaryId === this.primaryId) {
+            return;
+        }
+
+        logger(`Primary heart rate source changed: ${this.primaryId} -> ${primaryId}`);
+        this.primaryId = primaryId;
+        this.emit(HeartRateSourceManagerEvents.PRIMARY_CHANGED, primary != null ? this.toInfo(primary) : null);
+    }
+
+    private toInfo(registered: RegisteredSource): HeartRateSourceInfo {
+        const { id, type, source } = registered;
+        return {
+            id,
+            type,
+            name: source.getDeviceName() || registered.name,
+            priority: this.priorities.indexOf(id),
+            primary: id === this.primaryId,
+            connected: source.isConnected(),
+            reconnecting: source.isReconnecting(),
+            sensorContact: source.getSensorContact(),
+            batteryLevel: source.getBatteryLevel(),
+            lowBattery: source.isBatteryLow(),
+        };
+    }
+}
@@ -0,0 +1,68 @@
+import debug from 'debug';
+import { EventEmitter } from 'events';
+
+import { HeartRateSource } from './heart-rate-source';
+import { HeartRateSourceStatus } from './heart-rate-source-status';
+import { HeartRateMonitorEvents } from '../ble/heart-rate-monitor-events';
+
+describe('HeartRateSourceStatus', () => {
+    let source: EventEmitter;
+    let connected: boolean;
+    let status: HeartRateSourceStatus;
+
+    beforeEach(() => {
+        connected = true;
+        source = Object.assign(new EventEmitter(), { isConnected: () => connected });
+        status = new HeartRateSourceStatus(source as HeartRateSource, debug('HR_STATUS'));
+    });
+
+    it('should warn about the low battery once per connection', () => {
+        const batteryLow = jasmine.createSpy('batteryLow');
+        source.on(HeartRateMonitorEvents.BATTERY_LOW, batteryLow);
+
+        status.updateBatteryLevel(20);
+        status.updateBatteryLevel(19);
+        status.disconnected();
+        status.checkLowBattery();
+
+        expect(batteryLow.calls.allArgs()).toEqual([[20], [19]]);
+    });
+
+    it('should not warn while disconnected', () => {
+        const batteryLow = jasmine.createSpy('batteryLow');
+        source.on(HeartRateMonitorEvents.BATTERY_LOW, batteryLow);
+        connected = false;
+
+        status.updateBatteryLevel(10);
+
+        expect(status.isBatteryLow()).toBeTrue();
+        expect(batteryLow).not.toHaveBeenCalled();
+    });
+
+    it('should warn again when the threshold is raised', () => {
+        const batteryLow = jasmine.createSpy('batteryLow');
+        source.on(HeartRateMonitorEvents.BATTERY_LOW, batteryLow);
+        status.updateBatteryLevel(30);
+
+        status.setLowBatteryThreshold(40);
+
+        expect(status.getLowBatteryThreshold()).toBe(40);
+        expect(batteryLow).toHaveBeenCalledOnceWith(30);
+    });
+
+    it('should only report a restored contact after it was lost', () => {
+        const contactRestored = jasmine.createSpy('contactRestored');
+        source.on(HeartRateMonitorEvents.SENSOR_CONTACT_RESTORED, contactRestored);
+
+        status.updateSensorContact(true);
+        status.updateSensorContact(undefined);
+        expect(contactRestored).not.toHaveBeenCalled();
+
+        status.updateSensorContact(false);
+        status.updateSensorContact(true);
+        expect(contactRestored).toHaveBeenCalledTimes(1);
+
+        status.disconnected();
+        expect(status.getSensorContact()).toBeNull();
+    });
+});
@@ -0,0 +1,100 @@
+import { Debugger } from 'debug';
+
+import { HeartRateSource } from './heart-rate-source';
+import { HeartRateMonitorEvents } from '../ble/heart-rate-monitor-events';
+
+export const DEFAULT_LOW_BATTERY_THRESHOLD = 20;
+
+/**
+ * Battery level and skin contact of a heart rate source, emits their HeartRateMonitorEvents on the source
+ */
+export class HeartRateSourceStatus {
+    private batteryLevel: number | null = null;
+    private lowBatteryWarned = false;
+    private sensorContact: boolean | null = null;
+
+    constructor(
+        private readonly source: HeartRateSource,
+        private readonly logger: Debugger,
+        private lowBatteryThreshold: number = DEFAULT_LOW_BATTERY_THRESHOLD,
+    ) { }
+
+    public getBatteryLevel(): number | null {
+        return this.batteryLevel;
+    }
+
+    public getLowBatteryThreshold(): number {
+        return this.lowBatteryThreshold;
+    }
+
+    public setLowBatteryThreshold(threshold: number): void {
+        this.lowBatteryThreshold = threshold;
+        this.lowBatteryWarned = false;
+        this.checkLowBattery();
+    }
+
+    public isBatteryLow(): boolean {
+        return this.batteryLevel != null && this.batteryLevel <= this.lowBatteryThreshold;
+    }
+
+    public getSensorContact(): boolean | null {
+        return this.sensorContact;
+    }
+
+    /// the level read while connecting, it is reported along with the connection
+    public setBatteryLevel(batteryLevel: number): void {
+        this.batteryLevel = batteryLevel;
+    }
+
+    public updateBatteryLevel(batteryLevel: number): void {
+        if (batteryLevel === this.batteryLevel) {
+            return;
+        }
+
+        this.logger(`Battery level changed: ${batteryLevel}%`);
+        this.batteryLevel = batteryLevel;
+        this.source.emit(HeartRateMonitorEvents.BATTERY_LEVEL_CHANGED, batteryLevel);
+        this.checkLowBattery();
+    }
+
+    // warns once per connection, again only after the battery was replaced or charged above the threshold
+    public checkLowBattery(): void {
+        if (!this.source.isConnected() || this.batteryLevel == null) {
+            return;
+        }
+
+        if (!this.isBatteryLow()) {
+            this.lowBatteryWarned = false;
+            return;
+        }
+
+        if (!this.lowBatteryWarned) {
+            this.lowBatteryWarned = true;
+            this.logger(`Battery level low: ${this.batteryLevel}%`);
+            this.source.emit(HeartRateMonitorEvents.BATTERY_LOW, this.batteryLevel);
+        }
+    }
+
+    public updateSensorContact(sensorContact: boolean | undefined): void {
+        if (sensorContact == null || sensorContact === this.sensorContact) {
+            return;
+        }
+
+        // the first measurement after connecting only warns if there is no contact
+        const previous = this.sensorContact;
+        this.sensorContact = sensorContact;
+        if (!sensorContact) {
+            this.logger('Heart rate monitor lost skin contact');
+            this.source.emit(HeartRateMonitorEvents.SENSOR_CONTACT_LOST);
+        } else if (previous === false) {
+            this.logger('Heart rate monitor skin contact restored');
+            this.source.emit(HeartRateMonitorEvents.SENSOR_CONTACT_RESTORED);
+        }
+    }
+
+    /// the contact and the low battery warning start over with the next connection, the battery level is kept
+    public disconnected(): void {
+        this.sensorContact = null;
+        this.lowBatteryWarned = false;
+    }
+}
@@ -0,0 +1,45 @@
+import { EventEmitter } from 'events';
+import { Observable } from 'rxjs';
+
+import { HeartRateData, RRIntervalData } from '../ble/heart-rate-monitor';
+
+export type HeartRateSourceType = 'ble' | 'browser';
+
+/**
+ * Input delivering heart rate measurements, emits the HeartRateMonitorEvents
+ */
+export interface HeartRateSource extends EventEmitter {
+    readonly heartRate$: Observable<HeartRateData>;
+    readonly rrIntervals$: Observable<RRIntervalData>;
+
+    isConnected(): boolean;
+    isReconnecting(): boolean;
+    getDeviceName(): string;
+    getBatteryLevel(): number | null;
+    isBatteryLow(): boolean;
+    setLowBatteryThreshold(threshold: number): void;
+    getSensorContact(): boolean | null;
+    disconnectAsync(): Promise<void>;
+}
+
+/// measurement attributed to the id of the source that produced it
+export interface HeartRateSample extends HeartRateData {
+    source: string;
+}
+
+export interface RRIntervalSample extends RRIntervalData {
+    source: string;
+}
+
+export interface HeartRateSourceInfo {
+    id: string;
+    type: HeartRateSourceType;
+    name: string;
+    priority: number; // 0 is preferred
+    primary: boolean;
+    connected: boolean;
+    reconnecting: boolean;
+    sensorContact: boolean | null;
+    batteryLevel: number | null;
+    lowBattery: boolean;
+}
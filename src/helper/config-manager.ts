@@ -7,6 +7,16 @@ const logger = debug('CONFIG_MANAGER');
 
 export type SessionMode = 'training' | 'record' | 'replay';
 
+export type FtmsMachineType = 'rower' | 'bike';
+
+// the WaterRower S4 over USB, a rower publishing the Fitness Machine Service or the S4 emulator for development
+export type RowerDataSourceType = 'waterrower' | 'ftms' | 'emulator';
+
+// power of the 2.8 × speed³ formula or of the flywheel physics of the strokes, the latter needs the S4 pulse frames
+export type PowerModel = 'formula' | 'physics';
+
+export type BikeConversionStrategy = 'raw' | 'power-equivalent' | 'pace-equivalent' | 'scaled-cadence';
+
 export interface AppConfig {
     port: number;
     fitFilesDirectory: string;
@@ -14,32 +24,88 @@ export interface AppConfig {
         email: string;
         password: string;
     };
-    hrmDevice?: {
+    // heart rate straps to connect on startup, the first one is preferred as heart rate source
+    hrmDevices: Array<{
         id: string;
         name: string;
-    };
+    }>;
+    // battery level of the strap in percent at which a low battery warning is raised
+    hrmLowBatteryThreshold: number;
     waterRowerPort?: string;
+    rowerDataSource: RowerDataSourceType;
+    powerModel: PowerModel;
+    // rower connected as FTMS client, the first rower found is used if not set
+    ftmsRowerDevice?: {
+        id: string;
+        name: string;
+    };
     ssl?: {
         enabled: boolean;
         keyPath: string;
         certPath: string;
         port: number;
     };
-
+    ble?: {
+        machineType: FtmsMachineType;
+        heartRateService: boolean;
+        batteryService: boolean;
+        ftmsHeartRate: boolean;
+        cyclingPowerService: boolean;
+        cyclingSpeedCadenceService: boolean;
+        // advertised local name, tells multiple rowers in one room apart
+        deviceName: string;
+        // an empty model number is filled in with the model reported by the rowing computer
+        deviceInformation: {
+            manufacturerName: string;
+            modelNumber: string;
+            serialNumber: string;
+        };
+        // how rowing values are presented as cycling values when emulating an indoor bike
+        bikeConversion: {
+            strategy: BikeConversionStrategy;
+            cadenceFactor: number; // pedal revolutions per stroke
+            powerFactor: number;
+            speedFactor: number;
+        };
+    };
 }
 
 const DEFAULT_CONFIG: AppConfig = {
     port: 3000,
     fitFilesDirectory: './data/fit-files',
     garminCredentials: undefined,
-    hrmDevice: undefined,
+    hrmDevices: [],
+    hrmLowBatteryThreshold: 20,
     waterRowerPort: undefined,
+    rowerDataSource: 'waterrower',
+    powerModel: 'formula',
+    ftmsRowerDevice: undefined,
     ssl: {
         enabled: false,
         keyPath: './data/certs/privkey.pem',
         certPath: './data/certs/fullchain.pem',
         port: 3443
     },
+    ble: {
+        machineType: 'rower',
+        heartRateService: true,
+        batteryService: true,
+        ftmsHeartRate: true,
+        cyclingPowerService: false,
+        cyclingSpeedCadenceService: false,
+        deviceName: 'WaterRower',
+        deviceInformation: {
+            manufacturerName: 'WaterRower',
+            modelNumber: '',
+            serialNumber: '',
+        },
+        bikeConversion: {
+            strategy: 'power-equivalent',
+            cadenceFactor: 4,
+            powerFactor: 1.5,
+            speedFactor: 2,
+        },
+    },
 };
 
 export class ConfigManager {
@@ -62,8 +128,12 @@ export class ConfigManager {
         try {
             if (existsSync(this.configPath)) {
                 const data = readFileSync(this.configPath, 'utf-8');
-                const loaded = JSON.parse(data) as AppConfig;
+                const { hrmDevice, ...loaded } = JSON.parse(data) as AppConfig & { hrmDevice?: { id: string; name: string } };
                 logger('Config loaded from:', this.configPath);
+                // configs written before multiple heart rate sources only hold a single strap
+                if (loaded.hrmDevices == null && hrmDevice != null) {
+                    loaded.hrmDevices = [hrmDevice];
+                }
                 return { ...DEFAULT_CONFIG, ...loaded };
             }
         } catch (err) {
@@ -98,20 +168,47 @@ export class ConfigManager {
         logger('Garmin credentials cleared');
     }
 
-    public getHRMDevice(): AppConfig['hrmDevice'] {
-        return this.config.hrmDevice;
+    public getHRMDevices(): AppConfig['hrmDevices'] {
+        return [...this.config.hrmDevices];
     }
 
-    public setHRMDevice(id: string, name: string): void {
-        this.config.hrmDevice = { id, name };
+    /// adds the strap with the lowest priority, a known strap keeps its priority
+    public addHRMDevice(id: string, name: string): void {
+        const device = this.config.hrmDevices.find(d => d.id === id);
+        if (device != null) {
+            device.name = name;
+        } else {
+            this.config.hrmDevices = [...this.config.hrmDevices, { id, name }];
+        }
         this.saveConfig();
         logger(`HRM device saved: ${name} (${id})`);
     }
 
-    public clearHRMDevice(): void {
-        this.config.hrmDevice = undefined;
+    public removeHRMDevice(id: string): void {
+        this.config.hrmDevices = this.config.hrmDevices.filter(d => d.id !== id);
         this.saveConfig();
-        logger('HRM device cleared');
+        logger(`HRM device removed: ${id}`);
+    }
+
+    /// orders the saved straps by the given ids, unknown ids are ignored
+    public setHRMDeviceOrder(ids: Array<string>): void {
+        const rank = (id: string): number => {
+            const index = ids.indexOf(id);
+            return index < 0 ? ids.length : index;
+        };
+        this.config.hrmDevices = [...this.config.hrmDevices].sort((a, b) => rank(a.id) - rank(b.id));
+        this.saveConfig();
+        logger(`HRM device order saved: ${this.config.hrmDevices.map(d => d.id).join(', ')}`);
+    }
+
+    public getHRMLowBatteryThreshold(): number {
+        return this.config.hrmLowBatteryThreshold;
+    }
+
+    public setHRMLowBatteryThreshold(threshold: number): void {
+        this.config.hrmLowBatteryThreshold = threshold;
+        this.saveConfig();
+        logger(`HRM low battery threshold saved: ${threshold}% `);
     }
 
     public getWaterRowerPort(): string | undefined {
@@ -130,6 +227,42 @@ export class ConfigManager {
         logger('WaterRower port cleared');
     }
 
+    public getRowerDataSource(): RowerDataSourceType {
+        return this.config.rowerDataSource;
+    }
+
+    public setRowerDataSource(rowerDataSource: RowerDataSourceType): void {
+        this.config.rowerDataSource = rowerDataSource;
+        this.saveConfig();
+        logger(`Rower data source saved: ${rowerDataSource} `);
+    }
+
+    public getPowerModel(): PowerModel {
+        return this.config.powerModel;
+    }
+
+    public setPowerModel(powerModel: PowerModel): void {
+        this.config.powerModel = powerModel;
+        this.saveConfig();
+        logger(`Power model saved: ${powerModel} `);
+    }
+
+    public getFtmsRowerDevice(): AppConfig['ftmsRowerDevice'] {
+        return this.config.ftmsRowerDevice;
+    }
+
+    public setFtmsRowerDevice(id: string, name: string): void {
+        this.config.ftmsRowerDevice = { id, name };
+        this.saveConfig();
+        logger(`FTMS rower saved: ${name} (${id})`);
+    }
+
+    public clearFtmsRowerDevice(): void {
+        this.config.ftmsRowerDevice = undefined;
+        this.saveConfig();
+        logger('FTMS rower cleared');
+    }
+
     public getPort(): number {
         return this.config.port;
     }
@@ -169,6 +302,42 @@ export class ConfigManager {
         logger(`SSL config updated: enabled = ${enabled} `);
     }
 
+    public getBleConfig(): NonNullable<AppConfig['ble']> {
+        return {
+            ...DEFAULT_CONFIG.ble!,
+            ...this.config.ble,
+            deviceInformation: { ...DEFAULT_CONFIG.ble!.deviceInformation, ...this.config.ble?.deviceInformation },
+            bikeConversion: { ...DEFAULT_CONFIG.ble!.bikeConversion, ...this.config.ble?.bikeConversion },
+        };
+    }
+
+    public setBleConfig(bleConfig: Partial<NonNullable<AppConfig['ble']>>): void {
+        this.config.ble = { ...this.getBleConfig(), ...bleConfig };
+        this.saveConfig();
+        logger('BLE config saved');
+    }
+
+    public getFtmsMachineType(): FtmsMachineType {
+        return this.getBleConfig().machineType;
+    }
+
+    public setFtmsMachineType(machineType: FtmsMachineType): void {
+        this.config.ble = { ...this.getBleConfig(), machineType };
+        this.saveConfig();
+        logger(`FTMS machine type saved: ${machineType} `);
+    }
+
+    public getBikeConversion(): NonNullable<AppConfig['ble']>['bikeConversion'] {
+        return this.getBleConfig().bikeConversion;
+    }
+
+    public setBikeConversion(bikeConversion: Partial<NonNullable<AppConfig['ble']>['bikeConversion']>): void {
+        const bleConfig = this.getBleConfig();
+        this.config.ble = { ...bleConfig, bikeConversion: { ...bleConfig.bikeConversion, ...bikeConversion } };
+        this.saveConfig();
+        logger(`Bike conversion saved: ${this.config.ble.bikeConversion.strategy} `);
+    }
+
     public getSessionMode(): SessionMode {
         return this.sessionMode;
     }
@@ -1,10 +1,18 @@
 import debug from 'debug';
 import { exit } from 'process';
 
-import { HeartRateMonitor } from './ble/heart-rate-monitor';
+import { HeartRateScanner } from './ble/heart-rate-scanner';
+import { HeartRateSourceManager } from './heart-rate/heart-rate-source-manager';
+import { BleBridge } from './ble/ble-bridge';
+import { nobleCentralAdapter } from './ble/adapters/noble-central-adapter';
+import { blenoPeripheralAdapter } from './ble/adapters/bleno-peripheral-adapter';
 import { WaterRower } from './waterrower-serial/waterrower-serial';
-import { WebServer } from './web-server/web-server';
+import { S4Emulator } from './waterrower-serial/emulator/s4-emulator';
+import { FlywheelPhysicsDataPoints } from './waterrower-serial/flywheel-physics';
+import { FtmsRowerClient } from './ble/ftms-rower-client';
+import { RowerDataSource } from './rower/rower-data-source';
 import { ConfigManager } from './helper/config-manager';
+import { WebServer } from './web-server/web-server';
 
 const logger = debug('MAIN');
 logger('Starting WaterRower Training System...');
@@ -42,61 +50,44 @@ logger('Starting WaterRower Training System...');
 //   });
 // }
 
-// function startBLE(waterrower: WaterRower): void {
-//   logger('Start BLE service');
-
-//   const ftmsService = new FitnessMachineService();
-//   waterrower.datapoints$
-//     .pipe(tap(data => {
-//       if (data?.name === 'stroke_rate') {
-//         ftmsService.updateData(null, Number('0x' + data.value));
-//         return;
-//       }
-//       if (data?.name === 'kcal_watts') {
-//         ftmsService.updateData(Number('0x' + data.value), null);
-//         return;
-//       }
-//     }))
-//     .subscribe();
-
-//   bleno.on('stateChange', state => {
-//     logger(`BLENO stateChange. State = ${state}`);
-
-//     if (state === 'poweredOn') {
-//       bleno.startAdvertising('WaterRower', [ftmsService.uuid]);
-//       return;
-//     }
-
-//     bleno.stopAdvertising();
-//   });
-
-//   bleno.on('advertisingStart', error => {
-//     logger(`BLENO advertisingStart. Error = ${error}`);
-//     if (error != null) {
-//       return;
-//     }
-
-//     bleno.setServices([ftmsService], error => {
-//       logger(`BLENO set ftmsService: ${error ?? 'success'} `)
-//     });
-//   })
-// }
-
-function createWaterRower(port?: string): WaterRower {
+function createWaterRower(port?: string, emulator?: S4Emulator): WaterRower {
   return new WaterRower(options => {
     // Request all datapoints needed for FIT file generation
     options.datapoints = [
       'stroke_rate',    // Strokes per minute (cadence)
+      'm_s_distance_dec', // Decimetres of the session distance, read before the distance
+      'm_s_distance',   // Session distance in meters, combined with its decimetres
       'distance',       // Current session distance in meters
       'total_kcal',     // Total calories burned
       'strokes_cnt',    // Total stroke count
       'm_s_total',      // Speed in cm/s (for speed and power calculation)
+      'stroke_average', // Average stroke time (for the stroke metrics)
+      'stroke_pull',    // Average drive time (for the stroke metrics)
+      ...FlywheelPhysicsDataPoints, // Calibration of the flywheel physics
     ];
+    // the calibration is constant, the defaults apply until it was read
+    options.datapointPolling = Object.fromEntries(FlywheelPhysicsDataPoints.map(name => [name, { interval: 60000 }]));
     options.portName = port || '';
     options.refreshRate = 1000;
+    if (emulator) {
+      options.createTransport = () => emulator.createTransport();
+    }
   });
 }
 
+function createRowerDataSource(configManager: ConfigManager): RowerDataSource {
+  if (configManager.getRowerDataSource() === 'ftms') {
+    return new FtmsRowerClient(nobleCentralAdapter, configManager.getFtmsRowerDevice()?.id);
+  }
+  if (configManager.getRowerDataSource() === 'emulator') {
+    // rows steadily, for development without a rower
+    const emulator = new S4Emulator();
+    emulator.row({ strokeRate: 24, power: 150 });
+    return createWaterRower(undefined, emulator);
+  }
+  return createWaterRower(configManager.getWaterRowerPort());
+}
+
 function main(): void {
   try {
     // Check for command line arguments for legacy modes
@@ -134,32 +125,42 @@ async function startWebServer(): Promise<void> {
   // Initialize configuration manager
   const configManager = new ConfigManager('./data');
 
-  // Get saved HRM device
-  const savedHRMDevice = configManager.getHRMDevice();
+  // Initialize heart rate sources (optional) - saved straps will auto-connect in background
+  const heartRateSources = new HeartRateSourceManager(nobleCentralAdapter, configManager.getHRMLowBatteryThreshold());
+  const heartRateScanner = new HeartRateScanner(nobleCentralAdapter);
 
-  // Initialize heart rate monitor (optional) - will auto-connect in background if device is saved
-  const heartRateMonitor = new HeartRateMonitor();
+  // Initialize the rower, the WaterRower or a BLE FTMS rower
+  const waterRower = createRowerDataSource(configManager);
 
-  // Initialize WaterRower
-  const waterRower = createWaterRower(configManager.getWaterRowerPort());
+  // Publish the rower as BLE FTMS peripheral
+  const bleBridge = new BleBridge({
+    peripheral: blenoPeripheralAdapter,
+    waterRower,
+    heartRateSources,
+    configManager,
+  });
 
   // Create and start web server using config values
   const webServer = new WebServer({
     waterRower: waterRower,
-    heartRateMonitor,
-    configManager
+    heartRateSources,
+    heartRateScanner,
+    configManager,
+    bleBridge,
   });
 
   webServer.start();
-  waterRower.connectSerial();
-  await heartRateMonitor.reconnectAsync(savedHRMDevice?.id);
+  bleBridge.start();
+  waterRower.connect();
+  await heartRateSources.reconnectBleDevicesAsync(configManager.getHRMDevices());
 
   // Handle graceful shutdown
   const shutdown = async (signal: string) => {
     logger(`Received ${signal}, shutting down gracefully...`);
     try {
       await webServer.shutdown();
-      await heartRateMonitor.disconnectAsync();
+      await heartRateSources.disconnectAllAsync();
+      bleBridge.stop();
       waterRower.close();
 
       logger('Server shutdown complete');
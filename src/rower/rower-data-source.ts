@@ -0,0 +1,39 @@
+import { EventEmitter } from 'events';
+import { Observable } from 'rxjs';
+
+import { DataPoint } from '../waterrower-serial/data-point';
+import { ModelInformation } from '../waterrower-serial/model-information';
+import { ConnectionState } from '../waterrower-serial/connection-state';
+import { S4Metrics } from '../waterrower-serial/s4-metrics';
+import { StrokeData } from '../waterrower-serial/stroke-data';
+
+/**
+ * Rowing machine delivering the WaterRower datapoints, emits the WaterRowerEvents.
+ * Sources other than the S4 translate their values into the datapoints and units of the S4.
+ */
+export interface RowerDataSource extends EventEmitter {
+    readonly datapoints$: Observable<DataPoint>;
+    // only sources reporting the start and end of the drive detect strokes
+    readonly strokes$?: Observable<StrokeData>;
+    // W, only sources measuring the power, e.g. a PM5, report it
+    readonly power$?: Observable<number>;
+
+    connect(): void;
+    isConnected(): boolean;
+    /// changes are emitted as STATE_CHANGED
+    getConnectionState(): ConnectionState;
+    /// name shown in the web UI
+    getDeviceName(): string;
+    getModelInformation(): ModelInformation | null;
+    /// the values in the units of the web UI and the FIT file, e.g. the distance in m with decimetres
+    getMetrics(): S4Metrics;
+    /// zeroes the session values of the rowing machine
+    reset(): void;
+    close(): void;
+
+    // raw recording and replay, only supported by the serial connection
+    startRecording?(name?: string): void;
+    stopRecording?(): void;
+    getRecordings?(): Array<string>;
+    playRecording?(name?: string): Promise<void>;
+}
@@ -7,5 +7,6 @@ export const TrainingSessionEvents = {
     RESUMED: Symbol('TrainingSession:resumed'),
     STOPPED: Symbol('TrainingSession:stopped'),
     DATAPOINT: Symbol('TrainingSession:datapoint'),
+    STROKE: Symbol('TrainingSession:stroke'),
     ERROR: Symbol('TrainingSession:error'),
 } as const;
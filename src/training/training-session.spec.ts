@@ -0,0 +1,162 @@
+import { EventEmitter } from 'events';
+import { Subject } from 'rxjs';
+
+import { TrainingDataPoint, TrainingSession } from './training-session';
+import { TrainingSessionEvents } from './training-session-events';
+import { FakeCentralAdapter } from '../ble/adapters/fake-central-adapter';
+import { ConfigManager, PowerModel } from '../helper/config-manager';
+import { HeartRateSourceManager } from '../heart-rate/heart-rate-source-manager';
+import { RowerDataSource } from '../rower/rower-data-source';
+import { DataPoint } from '../waterrower-serial/data-point';
+import { DataPointName } from '../waterrower-serial/datapoints-config';
+import { S4Metrics, decodeS4Metrics } from '../waterrower-serial/s4-metrics';
+import { StrokeData } from '../waterrower-serial/stroke-data';
+
+/// rower without connection, the spec pushes the datapoints and strokes
+class FakeRower extends EventEmitter {
+    public datapoints$ = new Subject<DataPoint>();
+    public strokes$ = new Subject<StrokeData>();
+    public power$ = new Subject<number>();
+    public distance = 0;
+    private registers: Partial<Record<DataPointName, number>> = {};
+
+    public isConnected(): boolean {
+        return true;
+    }
+
+    public reset(): void {
+        // nothing to reset
+    }
+
+    public getMetrics(): S4Metrics {
+        return decodeS4Metrics(name => this.registers[name]);
+    }
+
+    public push(name: DataPointName, value: number): void {
+        this.registers[name] = value;
+        this.datapoints$.next({ time: new Date(), name, address: '000', length: 1, value });
+    }
+
+    /// a stroke that started 2s ago and just ended
+    public stroke(power: number): void {
+        this.strokes$.next({
+            time: Date.now() - 2000, driveTime: 800, recoveryTime: 1200, driveRecoveryRatio: 0.67,
+            distance: 8, peakSpeed: 5, power,
+        });
+    }
+}
+
+describe('TrainingSession', () => {
+    let rower: FakeRower;
+    let configManager: jasmine.SpyObj<ConfigManager>;
+    let session: TrainingSession;
+    let dataPoints: Array<TrainingDataPoint>;
+
+    const start = async (powerModel: PowerModel): Promise<void> => {
+        configManager.getPowerModel.and.returnValue(powerModel);
+        await session.start();
+        session.on(TrainingSessionEvents.DATAPOINT, (dataPoint: TrainingDataPoint) => dataPoints.push(dataPoint));
+    };
+
+    // rows at 4 m/s for the given seconds, the distance is polled every second
+    const row = (seconds: number, speed: number = 4): void => {
+        for (let i = 0; i < seconds; i++) {
+            jasmine.clock().tick(1000);
+            rower.distance += speed;
+            rower.push('distance', rower.distance);
+        }
+    };
+
+    /// the datapoint collected at the next full second
+    const nextDataPoint = (): TrainingDataPoint => {
+        jasmine.clock().tick(1000);
+        return dataPoints[dataPoints.length - 1];
+    };
+    const nextPower = (): number | undefined => nextDataPoint().power;
+
+    beforeEach(() => {
+        jasmine.clock().install();
+        jasmine.clock().mockDate(new Date('2026-01-10T08:00:00Z'));
+
+        rower = new FakeRower();
+        configManager = jasmine.createSpyObj<ConfigManager>('ConfigManager', ['getSessionMode', 'getPowerModel']);
+        configManager.getSessionMode.and.returnValue('training');
+        session = new TrainingSession(rower as unknown as RowerDataSource, new HeartRateSourceManager(new FakeCentralAdapter()), configManager);
+        dataPoints = [];
+    });
+
+    afterEach(() => {
+        session.stop();
+        jasmine.clock().uninstall();
+    });
+
+    it('should estimate the power from the speed', async () => {
+        await start('formula');
+        rower.push('distance', 0);
+
+        row(2);
+        rower.stroke(150);
+
+        expect(nextPower()).toBeCloseTo(2.8 * 4 * 4 * 4, 5);
+    });
+
+    it('should take the power of the strokes with the physics power model', async () => {
+        await start('physics');
+        rower.push('distance', 0);
+
+        row(2);
+        rower.stroke(150);
+        row(1);
+
+        expect(nextPower()).toBe(150);
+    });
+
+    it('should drop the stroke power once the rower stopped', async () => {
+        await start('physics');
+        rower.push('distance', 0);
+        row(2);
+        rower.stroke(150);
+
+        row(1, 0);
+
+        expect(nextPower()).toBe(0);
+    });
+
+    it('should estimate the power again when no stroke followed within two strokes', async () => {
+        await start('physics');
+        rower.push('distance', 0);
+        row(2);
+        rower.stroke(150);
+
+        // gliding out at 1 m/s, the stroke of 2s ended 4s ago
+        row(3, 1);
+        expect(nextPower()).toBe(150);
+        row(1, 1);
+
+        const dataPoint = nextDataPoint();
+        expect(dataPoint.speed).toBeGreaterThan(0);
+        expect(dataPoint.power).toBeCloseTo(2.8 * Math.pow(dataPoint.speed ?? 0, 3), 5);
+    });
+
+    it('should prefer the power measured by the rower', async () => {
+        await start('formula');
+        rower.push('distance', 0);
+        row(2);
+
+        rower.power$.next(182);
+        row(1);
+
+        expect(nextPower()).toBe(182);
+    });
+
+    it('should take the scaled metrics of the rower', async () => {
+        await start('formula');
+
+        rower.push('m_s_distance', 12);
+        rower.push('m_s_distance_dec', 5);
+        rower.push('distance', 12);
+        rower.push('total_kcal', 1500);
+
+        expect(nextDataPoint()).toEqual(jasmine.objectContaining({ distance: 12.5, calories: 1.5 }));
+    });
+});
@@ -3,14 +3,25 @@ import { EventEmitter } from 'events';
 import { interval, Subscription, merge, Observable } from 'rxjs';
 import { filter, map } from 'rxjs/operators';
 
-import { HeartRateMonitor } from '../ble/heart-rate-monitor';
+import { HeartRateSourceManager } from '../heart-rate/heart-rate-source-manager';
+import { HeartRateSourceManagerEvents } from '../heart-rate/heart-rate-source-manager-events';
+import { HeartRateSourceInfo } from '../heart-rate/heart-rate-source';
 import { DataPoint } from '../waterrower-serial/data-point';
-import { WaterRower } from '../waterrower-serial/waterrower-serial';
+import { RowerDataSource } from '../rower/rower-data-source';
+import { StrokeData } from '../waterrower-serial/stroke-data';
 import { TrainingSessionEvents } from './training-session-events';
 import { ConfigManager } from '../helper/config-manager';
 
 const logger = debug('TRAINING_SESSION');
 
+// the power of the last stroke is dropped when no stroke followed within this many of its stroke times
+const STROKE_POWER_TIMEOUT_STROKES = 2;
+
+/// the rowing formula: Power (watts) = 2.8 × speed³
+function estimatePower(speed: number): number {
+    return speed > 0 ? 2.8 * Math.pow(speed, 3) : 0;
+}
+
 export interface TrainingDataPoint {
     timestamp: Date;
     elapsedTime: number; // seconds since start
@@ -19,8 +30,14 @@ export interface TrainingDataPoint {
     power?: number; // watts
     calories?: number;
     heartRate?: number; // bpm
+    heartRateSource?: string; // id of the heart rate source that measured the heart rate
+    rrIntervals?: Array<number>; // ms, beat-to-beat intervals since the previous datapoint
+    heartRateGap?: boolean; // every heart rate source was lost, the heart rate is missing and must not be interpolated
     speed?: number; // m/s
     totalStrokes?: number;
+    strokeDistance?: number; // m, of the last stroke
+    driveTime?: number; // ms, of the last stroke
+    recoveryTime?: number; // ms, of the last stroke
 }
 
 export enum SessionState {
@@ -45,6 +62,9 @@ export interface SessionSummary {
     maxSpeed?: number; // m/s
     totalCalories?: number;
     totalStrokes?: number;
+    avgStrokeDistance?: number; // m
+    avgDriveTime?: number; // ms
+    avgRecoveryTime?: number; // ms
     dataPoints: number; // count
 }
 
@@ -57,16 +77,25 @@ export class TrainingSession extends EventEmitter {
     private totalPausedTime = 0; // milliseconds
 
     private sessionData: TrainingDataPoint[] = [];
+    private strokes: Array<StrokeData> = [];
     private subscriptions: Subscription[] = [];
     private currentData: Partial<TrainingDataPoint> = {};
+    private pendingRRIntervals: Array<number> = [];
+    private heartRateLost = false;
 
     // Track previous values for speed calculation
     private previousDistance: number = 0;
     private previousTime: number = 0;
+    // the power is taken from the strokes while strokes with flywheel physics arrive
+    private strokePower = false;
+    private lastStrokeEnd = 0; // ms
+    private lastStrokeTime = 0; // ms from the start of the drive to the start of the next drive
+    // the power measured by the rower, e.g. a PM5, replaces the estimates
+    private measuredPower = false;
 
     constructor(
-        private waterRower: WaterRower,
-        private heartRateMonitor: HeartRateMonitor,
+        private waterRower: RowerDataSource,
+        private heartRateSources: HeartRateSourceManager,
         private configManager: ConfigManager
     ) {
         super();
@@ -95,8 +124,13 @@ export class TrainingSession extends EventEmitter {
         this.state = SessionState.ACTIVE;
         this.startTime = new Date();
         this.sessionData = [];
+        this.strokes = [];
         this.previousDistance = 0;
         this.previousTime = 0;
+        this.strokePower = false;
+        this.measuredPower = false;
+        this.pendingRRIntervals = [];
+        this.heartRateLost = false;
 
         // Reset WaterRower
         this.waterRower.reset();
@@ -110,12 +144,14 @@ export class TrainingSession extends EventEmitter {
                         return;
                     }
 
+                    // the values are taken scaled from the metrics, e.g. the distance with its decimetres
+                    const metrics = this.waterRower.getMetrics();
                     switch (dataPoint.name) {
                         case 'stroke_rate':
-                            this.currentData.strokeRate = dataPoint.value;
+                            this.currentData.strokeRate = metrics.strokeRate;
                             break;
                         case 'distance':
-                            const distance = dataPoint.value;
+                            const distance = metrics.distance ?? 0;
                             const currentDistance = this.currentData.distance ?? 0;
                             this.currentData.distance = distance > currentDistance ? distance : currentDistance;
 
@@ -129,11 +165,10 @@ export class TrainingSession extends EventEmitter {
                                     // Calculate speed in m/s
                                     this.currentData.speed = distanceChange / timeChange;
 
-                                    // Calculate power using rowing formula: Power (watts) = 2.8 × speed³
-                                    if (this.currentData.speed > 0) {
-                                        this.currentData.power = 2.8 * Math.pow(this.currentData.speed, 3);
-                                    } else {
-                                        this.currentData.power = 0;
+                                    // Calculate power using rowing formula, unless the flywheel physics of the strokes set it.
+                                    // Without speed the rower stopped, the power of the last stroke is over as well
+                                    if (!this.measuredPower && (!this.strokePower || this.currentData.speed <= 0)) {
+                                        this.currentData.power = estimatePower(this.currentData.speed);
                                     }
                                 }
 
@@ -148,29 +183,70 @@ export class TrainingSession extends EventEmitter {
                             }
                             break;
                         case 'total_kcal':
-                            const cal = dataPoint.value / 1000;
+                            const cal = metrics.calories ?? 0;
                             const currentCal = this.currentData.calories ?? 0;
                             this.currentData.calories = currentCal > cal ? currentCal : cal;
                             break;
                         case 'strokes_cnt':
-                            this.currentData.totalStrokes = dataPoint.value;
+                            this.currentData.totalStrokes = metrics.strokes;
                             break;
                     }
                 })
             )
         );
 
-        if (this.heartRateMonitor.isConnected()) {
+        if (this.waterRower.strokes$ != null) {
             observables$.push(
-                this.heartRateMonitor.heartRate$.pipe(
+                this.waterRower.strokes$.pipe(
                     filter(() => this.state === SessionState.ACTIVE),
-                    map((data) => {
-                        this.currentData.heartRate = data.heartRate;
+                    map((stroke) => {
+                        this.strokes.push(stroke);
+                        this.currentData.strokeDistance = stroke.distance;
+                        this.currentData.driveTime = stroke.driveTime;
+                        this.currentData.recoveryTime = stroke.recoveryTime;
+                        if (stroke.power != null && this.configManager.getPowerModel() === 'physics') {
+                            this.strokePower = true;
+                            this.lastStrokeTime = stroke.driveTime + stroke.recoveryTime;
+                            this.lastStrokeEnd = stroke.time + this.lastStrokeTime;
+                            this.currentData.power = stroke.power;
+                        }
+                        this.emit(TrainingSessionEvents.STROKE, stroke);
                     })
                 )
             );
         }
+
+        if (this.waterRower.power$ != null) {
+            observables$.push(
+                this.waterRower.power$.pipe(
+                    filter(() => this.state === SessionState.ACTIVE),
+                    map((power) => {
+                        this.measuredPower = true;
+                        this.currentData.power = power;
+                    })
+                )
+            );
+        }
+
+        // the subjects outlive the source connections, a source (re)connected during the session is picked up
+        observables$.push(
+            this.heartRateSources.heartRate$.pipe(
+                filter(() => this.state === SessionState.ACTIVE),
+                map((data) => {
+                    this.currentData.heartRate = data.heartRate;
+                    this.currentData.heartRateSource = data.source;
+                    this.heartRateLost = false;
+                })
+            ),
+            this.heartRateSources.rrIntervals$.pipe(
+                filter(() => this.state === SessionState.ACTIVE),
+                map((data) => {
+                    this.pendingRRIntervals.push(data.rrInterval);
+                })
+            )
+        );
         this.subscriptions.push(merge(...observables$).subscribe());
+        this.heartRateSources.on(HeartRateSourceManagerEvents.PRIMARY_CHANGED, this.handleHeartRatePrimaryChanged);
 
         // Emit datapoints every second
         const intervalSubscription = interval(1000)
@@ -191,7 +267,7 @@ export class TrainingSession extends EventEmitter {
         // Start recording if in recording mode
         if (this.configManager.getSessionMode() === 'record') {
             logger('Starting WaterRower recording');
-            this.waterRower.startRecording(this.sessionId);
+            this.waterRower.startRecording?.(this.sessionId);
         }
 
         this.emit(TrainingSessionEvents.STARTED, { sessionId: this.sessionId, startTime: this.startTime });
@@ -239,12 +315,13 @@ export class TrainingSession extends EventEmitter {
         // Stop recording if in recording mode
         if (this.configManager.getSessionMode() === 'record') {
             logger('Stopping WaterRower recording');
-            this.waterRower.stopRecording();
+            this.waterRower.stopRecording?.();
         }
 
         // Cleanup all subscriptions
         this.subscriptions.forEach(sub => sub.unsubscribe());
         this.subscriptions = [];
+        this.heartRateSources.removeListener(HeartRateSourceManagerEvents.PRIMARY_CHANGED, this.handleHeartRatePrimaryChanged);
 
         this.collectDataPoint(true);
         this.emit(TrainingSessionEvents.STOPPED, this.getSummary());
@@ -260,7 +337,13 @@ export class TrainingSession extends EventEmitter {
 
         this.waterRower.reset();
         this.waterRower.close();
-        this.heartRateMonitor.disconnectAsync();
+        this.heartRateSources.disconnectAllAsync()
+            .catch(error => logger('Failed to disconnect the heart rate sources:', error));
+    }
+
+    /// the strokes detected during the session, empty if the rower does not report them
+    public getStrokes(): Array<StrokeData> {
+        return this.strokes;
     }
 
     public getSummary(): SessionSummary {
@@ -270,6 +353,15 @@ export class TrainingSession extends EventEmitter {
         const heartRates = this.sessionData.map(dp => dp.heartRate).filter(hr => hr !== undefined) as number[];
         const powers = this.sessionData.map(dp => dp.power).filter(p => p !== undefined) as number[];
         const speeds = this.sessionData.map(dp => dp.speed).filter(s => s !== undefined) as number[];
+        const average = (values: Array<number>): number | undefined =>
+            values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : undefined;
+
+        // strokes replayed from recordings without pulses have no distance
+        const strokeDistances = this.strokes.map(s => s.distance).filter(d => d > 0);
+        const totalStrokes = lastPoint?.totalStrokes;
+        const avgStrokeDistance = strokeDistances.length > 0
+            ? average(strokeDistances)
+            : (totalStrokes ? (lastPoint?.distance ?? 0) / totalStrokes : undefined);
 
         return {
             id: this.sessionId,
@@ -285,7 +377,10 @@ export class TrainingSession extends EventEmitter {
             avgSpeed: speeds.length > 0 ? speeds.reduce((a, b) => a + b, 0) / speeds.length : undefined,
             maxSpeed: speeds.length > 0 ? Math.max(...speeds) : undefined,
             totalCalories: lastPoint?.calories,
-            totalStrokes: lastPoint?.totalStrokes,
+            totalStrokes,
+            avgStrokeDistance,
+            avgDriveTime: average(this.strokes.map(s => s.driveTime)),
+            avgRecoveryTime: average(this.strokes.map(s => s.recoveryTime)),
             dataPoints: this.sessionData.length
         };
     }
@@ -295,6 +390,7 @@ export class TrainingSession extends EventEmitter {
             return;
         }
 
+        this.expireStrokePower(Date.now());
         const elapsedTime = this.calculateDuration();
 
         const dataPoint: TrainingDataPoint = {
@@ -305,9 +401,16 @@ export class TrainingSession extends EventEmitter {
             power: this.currentData.power,
             calories: this.currentData.calories,
             heartRate: this.currentData.heartRate,
+            heartRateSource: this.currentData.heartRate != null ? this.currentData.heartRateSource : undefined,
+            rrIntervals: this.pendingRRIntervals.length > 0 ? this.pendingRRIntervals : undefined,
+            heartRateGap: this.heartRateLost ? true : undefined,
             speed: this.currentData.speed,
-            totalStrokes: this.currentData.totalStrokes
+            totalStrokes: this.currentData.totalStrokes,
+            strokeDistance: this.currentData.strokeDistance,
+            driveTime: this.currentData.driveTime,
+            recoveryTime: this.currentData.recoveryTime,
         };
+        this.pendingRRIntervals = [];
         this.emit(TrainingSessionEvents.DATAPOINT, dataPoint);
 
         if (!pushToSessionData) {
@@ -317,6 +420,29 @@ export class TrainingSession extends EventEmitter {
         this.sessionData.push(dataPoint);
     }
 
+    /// falls back to the rowing formula once the strokes stopped, e.g. the rower glides out
+    private expireStrokePower(now: number): void {
+        if (!this.strokePower || now - this.lastStrokeEnd <= STROKE_POWER_TIMEOUT_STROKES * this.lastStrokeTime) {
+            return;
+        }
+
+        logger(`No stroke within ${STROKE_POWER_TIMEOUT_STROKES} strokes, estimating the power from the speed`);
+        this.strokePower = false;
+        this.currentData.power = estimatePower(this.currentData.speed ?? 0);
+    }
+
+    // a failover keeps the heart rate until the new source measured, only losing every source is a gap
+    private handleHeartRatePrimaryChanged = (primary: HeartRateSourceInfo | null): void => {
+        if (primary != null || this.currentData.heartRate == null) {
+            return;
+        }
+
+        // do not carry the last heart rate over the outage
+        logger('Heart rate lost during session');
+        this.currentData.heartRate = undefined;
+        this.heartRateLost = true;
+    };
+
     private calculateDuration(): number {
         if (!this.startTime) return 0;
 
@@ -0,0 +1,106 @@
+import { CommandQueue } from './command-queue';
+import { ReadValue } from './read-value';
+
+describe('CommandQueue', () => {
+    let written: Array<string>;
+    let queue: CommandQueue;
+
+    const reply = (type: string, data: string): void => queue.handleRead({ time: Date.now(), type, data });
+    const isDistance = (read: ReadValue): boolean => read.data.startsWith('IDD057');
+
+    beforeEach(() => {
+        jasmine.clock().install();
+        jasmine.clock().mockDate(new Date('2026-01-10T08:00:00Z'));
+        written = [];
+        queue = new CommandQueue(packet => written.push(packet), 500);
+    });
+
+    afterEach(() => {
+        jasmine.clock().uninstall();
+    });
+
+    it('should write the next command after the reply of the previous one', async () => {
+        const distance = queue.enqueue('IRD057', { isResponse: isDistance });
+        queue.enqueue('IRS1A9', { isResponse: read => read.data.startsWith('IDS1A9') });
+        expect(written).toEqual(['IRD057']);
+
+        jasmine.clock().tick(12);
+        reply('datapoint', 'IDD05700FA');
+
+        expect(written).toEqual(['IRD057', 'IRS1A9']);
+        expect((await distance)?.data).toBe('IDD05700FA');
+        expect(queue.getStatistics()).toEqual(jasmine.objectContaining({ sent: 2, completed: 1, pending: 1, averageLatency: 12 }));
+    });
+
+    it('should ignore packets that are not the reply', () => {
+        queue.enqueue('IRD057', { isResponse: isDistance });
+        queue.enqueue('IRS1A9', { isResponse: read => read.data.startsWith('IDS1A9') });
+
+        reply('pulse', 'P03');
+        reply('datapoint', 'IDS1A918');
+
+        expect(written).toEqual(['IRD057']);
+    });
+
+    it('should write commands without reply right away', async () => {
+        await expectAsync(queue.enqueue('WSU012C')).toBeResolvedTo(null);
+        queue.enqueue('DDME');
+
+        expect(written).toEqual(['WSU012C', 'DDME']);
+    });
+
+    it('should not queue a pending command again', () => {
+        const first = queue.enqueue('IRD057', { isResponse: isDistance });
+        const second = queue.enqueue('IRD057', { isResponse: isDistance });
+
+        expect(second).toBe(first);
+        expect(written).toEqual(['IRD057']);
+        expect(queue.getStatistics().coalesced).toBe(1);
+    });
+
+    it('should write the commands of a higher priority first', () => {
+        queue.enqueue('IRD057', { isResponse: isDistance });
+        queue.enqueue('IRS1A9', { isResponse: () => true });
+        queue.enqueue('IRD140', { isResponse: () => true });
+        queue.enqueue('IV?', { isResponse: () => true, priority: 10 });
+
+        reply('datapoint', 'IDD05700FA');
+
+        expect(written).toEqual(['IRD057', 'IV?']);
+    });
+
+    it('should retry after a timeout and drop the command after the last retry', async () => {
+        const distance = queue.enqueue('IRD057', { isResponse: isDistance, retries: 1 });
+
+        jasmine.clock().tick(500);
+        expect(written).toEqual(['IRD057', 'IRD057']);
+        jasmine.clock().tick(500);
+
+        await expectAsync(distance).toBeRejectedWithError('IRD057 failed: timeout');
+        expect(queue.getStatistics()).toEqual(jasmine.objectContaining({ sent: 2, timeouts: 2, retries: 1, dropped: 1, pending: 0 }));
+    });
+
+    it('should retry after an ERROR reply', async () => {
+        const distance = queue.enqueue('IRD057', { isResponse: isDistance });
+
+        reply('error', 'ERROR');
+        reply('datapoint', 'IDD05700FA');
+
+        expect(written).toEqual(['IRD057', 'IRD057']);
+        expect((await distance)?.data).toBe('IDD05700FA');
+        expect(queue.getStatistics()).toEqual(jasmine.objectContaining({ errors: 1, retries: 1, completed: 1 }));
+    });
+
+    it('should cancel the pending commands on clear', async () => {
+        const distance = queue.enqueue('IRD057', { isResponse: isDistance });
+        const strokeRate = queue.enqueue('IRS1A9', { isResponse: () => true });
+
+        queue.clear();
+        jasmine.clock().tick(1000);
+
+        await expectAsync(distance).toBeRejectedWithError('IRD057 cancelled');
+        await expectAsync(strokeRate).toBeRejectedWithError('IRS1A9 cancelled');
+        expect(written).toEqual(['IRD057']);
+        expect(queue.getStatistics().pending).toBe(0);
+    });
+});
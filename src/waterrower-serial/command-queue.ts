@@ -0,0 +1,203 @@
+import debug from 'debug';
+
+import { ReadValue } from './read-value';
+
+const logger = debug('WR_COMMANDS');
+
+// the S4 answers within a few ms, a reply later than this is considered lost
+const DEFAULT_COMMAND_TIMEOUT = 500;
+const DEFAULT_RETRIES = 1;
+
+export interface CommandOptions {
+    // recognizes the reply of the command, commands without reply are complete once written
+    isResponse?: (read: ReadValue) => boolean;
+    // commands with a higher priority are written first, 0 by default
+    priority?: number;
+    // additional attempts after a timeout or an ERROR reply
+    retries?: number;
+}
+
+export interface CommandStatistics {
+    sent: number; // packets written, including retries
+    completed: number;
+    timeouts: number;
+    errors: number; // ERROR replies
+    retries: number;
+    dropped: number; // failed after the last retry
+    coalesced: number; // not queued again because the same command was pending
+    pending: number;
+    averageLatency: number; // ms from writing the command to its reply
+    maxLatency: number;
+}
+
+interface QueuedCommand {
+    packet: string;
+    isResponse?: (read: ReadValue) => boolean;
+    priority: number;
+    retries: number;
+    attempt: number;
+    promise: Promise<ReadValue | null>;
+    resolve: (read: ReadValue | null) => void;
+    reject: (err: Error) => void;
+}
+
+interface InFlightCommand {
+    command: QueuedCommand;
+    sentAt: number;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * Serializes the commands to the S4: a command is written once the reply of the previous one arrived,
+ * so requests do not pile up when the S4 answers slower than they are issued.
+ */
+export class CommandQueue {
+    private queue: Array<QueuedCommand> = [];
+    private inFlight: InFlightCommand | null = null;
+    private statistics: Omit<CommandStatistics, 'pending' | 'averageLatency'> = {
+        sent: 0, completed: 0, timeouts: 0, errors: 0, retries: 0, dropped: 0, coalesced: 0, maxLatency: 0,
+    };
+    private replies = 0;
+    private totalLatency = 0;
+
+    constructor(private readonly write: (packet: string) => void, private readonly timeout: number = DEFAULT_COMMAND_TIMEOUT) {
+    }
+
+    /// resolves with the reply, or null for commands without reply. A command with reply that is
+    /// already pending is not queued again, the promise of the pending command is returned instead
+    public enqueue(packet: string, options: CommandOptions = {}): Promise<ReadValue | null> {
+        if (options.isResponse != null) {
+            const pending = this.findPending(packet);
+            if (pending != null) {
+                this.statistics.coalesced++;
+                return pending.promise;
+            }
+        }
+
+        let resolve!: (read: ReadValue | null) => void;
+        let reject!: (err: Error) => void;
+        const promise = new Promise<ReadValue | null>((res, rej) => {
+            resolve = res;
+            reject = rej;
+        });
+        this.insert({
+            packet,
+            isResponse: options.isResponse,
+            priority: options.priority ?? 0,
+            retries: options.retries ?? DEFAULT_RETRIES,
+            attempt: 0,
+            promise,
+            resolve,
+            reject,
+        });
+        this.writeNext();
+        return promise;
+    }
+
+    /// passes every received packet, completes the command waiting for it
+    public handleRead(read: ReadValue): void {
+        const inFlight = this.inFlight;
+        if (inFlight == null) {
+            return;
+        }
+
+        if (inFlight.command.isResponse?.(read)) {
+            const latency = Date.now() - inFlight.sentAt;
+            this.replies++;
+            this.totalLatency += latency;
+            this.statistics.maxLatency = Math.max(this.statistics.maxLatency, latency);
+            this.complete(inFlight, read);
+        } else if (read.type === 'error') {
+            this.statistics.errors++;
+            this.fail(inFlight, 'ERROR reply');
+        }
+    }
+
+    /// drops the pending commands, e.g. when the connection was lost
+    public clear(): void {
+        const commands = this.queue;
+        this.queue = [];
+        if (this.inFlight != null) {
+            clearTimeout(this.inFlight.timer);
+            commands.unshift(this.inFlight.command);
+            this.inFlight = null;
+        }
+        commands.forEach(command => command.reject(new Error(`${command.packet} cancelled`)));
+    }
+
+    public getStatistics(): CommandStatistics {
+        return {
+            ...this.statistics,
+            pending: this.queue.length + (this.inFlight != null ? 1 : 0),
+            averageLatency: this.replies > 0 ? Math.round(this.totalLatency / this.replies) : 0,
+        };
+    }
+
+    private findPending(packet: string): QueuedCommand | undefined {
+        if (this.inFlight?.command.packet === packet) {
+            return this.inFlight.command;
+        }
+        return this.queue.find(c => c.packet === packet);
+    }
+
+    /// behind the commands of the same or a higher priority, a retry ahead of the commands of the same priority
+    private insert(command: QueuedCommand): void {
+        const retry = command.attempt > 0;
+        const index = this.queue.findIndex(c => retry ? c.priority <= command.priority : c.priority < command.priority);
+        if (index < 0) {
+            this.queue.push(command);
+        } else {
+            this.queue.splice(index, 0, command);
+        }
+    }
+
+    private writeNext(): void {
+        while (this.inFlight == null && this.queue.length > 0) {
+            const command = this.queue.shift()!;
+            command.attempt++;
+            this.statistics.sent++;
+            this.write(command.packet);
+
+            if (command.isResponse == null) {
+                this.statistics.completed++;
+                command.resolve(null);
+                continue;
+            }
+
+            const inFlight: InFlightCommand = {
+                command,
+                sentAt: Date.now(),
+                timer: setTimeout(() => {
+                    this.statistics.timeouts++;
+                    this.fail(inFlight, 'timeout');
+                }, this.timeout),
+            };
+            this.inFlight = inFlight;
+        }
+    }
+
+    private complete(inFlight: InFlightCommand, read: ReadValue): void {
+        clearTimeout(inFlight.timer);
+        this.inFlight = null;
+        this.statistics.completed++;
+        inFlight.command.resolve(read);
+        this.writeNext();
+    }
+
+    private fail(inFlight: InFlightCommand, reason: string): void {
+        clearTimeout(inFlight.timer);
+        this.inFlight = null;
+
+        const command = inFlight.command;
+        if (command.attempt <= command.retries) {
+            logger(`${command.packet} failed (${reason}), retrying`);
+            this.statistics.retries++;
+            this.insert(command);
+        } else {
+            logger(`${command.packet} failed (${reason}), dropped after ${command.attempt} attempts`);
+            this.statistics.dropped++;
+            command.reject(new Error(`${command.packet} failed: ${reason}`));
+        }
+        this.writeNext();
+    }
+}
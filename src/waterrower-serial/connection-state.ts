@@ -0,0 +1,8 @@
+/// lifecycle of the connection to the rowing computer
+export enum ConnectionState {
+    DISCONNECTED = 'disconnected', // not connected on request
+    CONNECTING = 'connecting', // discovering and opening the port
+    INITIALIZING = 'initializing', // waiting for the reply to USB
+    READY = 'ready',
+    ERROR = 'error', // connection failed or lost, reconnecting
+}
@@ -0,0 +1,117 @@
+// drag of the boat, the rowing formula Power (watts) = 2.8 × speed³ in steady state
+const DRAG_COEFFICIENT = 2.8;
+// mass of rower and boat the drive has to accelerate, in kg
+const EFFECTIVE_MASS = 30;
+// part of the stroke cycle spent in the drive, the rest is the recovery
+const DRIVE_RATIO = 0.35;
+// deceleration of the paddle spinning down without rower, in m/s²
+const SPIN_DOWN_DECELERATION = 0.5;
+// the boat is considered stopped below this speed, in m/s
+const MIN_VELOCITY = 0.1;
+
+export interface RowingWorkload {
+    strokeRate: number; // strokes per minute
+    power: number; // average watts
+}
+
+export interface RowingStep {
+    distance: number; // m moved during the step
+    velocity: number; // m/s at the end of the step
+    power: number; // W dissipated by the drag during the step
+    strokeStarted: boolean;
+    strokeEnded: boolean;
+}
+
+/**
+ * Simple rowing physics: the drive pushes with a constant force sized to reach the average
+ * power of the workload, the drag slows the boat down proportional to the speed squared.
+ */
+export class RowingModel {
+    private workload: RowingWorkload | null = null;
+    private velocity = 0; // m/s
+    private strokeTime = 0; // s since the start of the current stroke
+    private inDrive = false;
+
+    /// starts rowing with the workload or changes it with the next stroke
+    public row(workload: RowingWorkload): void {
+        this.workload = { ...workload };
+    }
+
+    /// stops pulling, the boat glides out
+    public stop(): void {
+        this.workload = null;
+    }
+
+    public isRowing(): boolean {
+        return this.workload != null;
+    }
+
+    public getVelocity(): number {
+        return this.velocity;
+    }
+
+    public getWorkload(): RowingWorkload | null {
+        return this.workload;
+    }
+
+    /// stroke and drive duration in seconds of the current workload
+    public getStrokeTiming(): { stroke: number; drive: number } | null {
+        if (this.workload == null || this.workload.strokeRate <= 0) {
+            return null;
+        }
+
+        const stroke = 60 / this.workload.strokeRate;
+        return { stroke, drive: stroke * DRIVE_RATIO };
+    }
+
+    /// advances the model by dt seconds
+    public step(dt: number): RowingStep {
+        const timing = this.getStrokeTiming();
+        let strokeStarted = false;
+        let strokeEnded = false;
+        let force = 0;
+
+        if (timing != null && this.workload != null) {
+            if (!this.inDrive && (this.strokeTime === 0 || this.strokeTime >= timing.stroke)) {
+                this.strokeTime = 0;
+                this.inDrive = true;
+                strokeStarted = true;
+            }
+
+            if (this.inDrive) {
+                // the average force over the stroke balances the drag at the target speed
+                const targetVelocity = Math.cbrt(this.workload.power / DRAG_COEFFICIENT);
+                force = DRAG_COEFFICIENT * targetVelocity * targetVelocity / DRIVE_RATIO;
+            }
+
+            this.strokeTime += dt;
+            if (this.inDrive && this.strokeTime >= timing.drive) {
+                this.inDrive = false;
+                strokeEnded = true;
+            }
+        } else {
+            if (this.inDrive) {
+                strokeEnded = true;
+            }
+            this.inDrive = false;
+            this.strokeTime = 0;
+        }
+
+        const drag = DRAG_COEFFICIENT * this.velocity * this.velocity;
+        const spinDown = this.workload == null ? SPIN_DOWN_DECELERATION : 0;
+        const previousVelocity = this.velocity;
+        this.velocity = Math.max(0, this.velocity + ((force - drag) / EFFECTIVE_MASS - spinDown) * dt);
+        if (force === 0 && this.velocity < MIN_VELOCITY) {
+            this.velocity = 0;
+        }
+
+        const averageVelocity = (previousVelocity + this.velocity) / 2;
+        return {
+            distance: averageVelocity * dt,
+            velocity: this.velocity,
+            power: drag * averageVelocity,
+            strokeStarted,
+            strokeEnded,
+        };
+    }
+}
@@ -0,0 +1,198 @@
+import { S4Emulator } from './s4-emulator';
+import { WaterRower } from '../waterrower-serial';
+import { WaterRowerEvents } from '../waterrower-events';
+import { DataPoint } from '../data-point';
+import { ReadValue } from '../read-value';
+import { FakeCentralAdapter } from '../../ble/adapters/fake-central-adapter';
+import { HeartRateSourceManager } from '../../heart-rate/heart-rate-source-manager';
+import { ConfigManager } from '../../helper/config-manager';
+import { TrainingSession } from '../../training/training-session';
+
+describe('S4Emulator', () => {
+    let emulator: S4Emulator;
+    let waterRower: WaterRower;
+    let datapoints: Array<DataPoint>;
+    let reads: Array<ReadValue>;
+
+    // lets the emulator deliver its packets while the clock is mocked
+    const flush = async (): Promise<void> => {
+        for (let i = 0; i < 5; i++) {
+            await new Promise(resolve => setImmediate(resolve));
+        }
+    };
+
+    // advances the clock in steps, the WaterRower processes the packets in between
+    const rowFor = async (ms: number): Promise<void> => {
+        for (let elapsed = 0; elapsed < ms; elapsed += 1000) {
+            jasmine.clock().tick(Math.min(1000, ms - elapsed));
+            await flush();
+        }
+    };
+
+    const latest = (name: string): number | undefined =>
+        datapoints.filter(d => d.name === name).pop()?.value;
+
+    beforeEach(async () => {
+        jasmine.clock().install();
+        jasmine.clock().mockDate(new Date('2026-01-10T08:00:00Z'));
+
+        emulator = new S4Emulator();
+        waterRower = new WaterRower(options => {
+            options.createTransport = () => emulator.createTransport();
+            options.datapoints = ['stroke_rate', 'distance', 'total_kcal', 'strokes_cnt', 'm_s_total'];
+            options.refreshRate = 1000;
+        });
+        datapoints = [];
+        reads = [];
+        waterRower.datapoints$.subscribe(d => datapoints.push(d));
+        waterRower.reads$.subscribe(r => reads.push(r));
+
+        waterRower.connectSerial();
+        await flush();
+    });
+
+    afterEach(() => {
+        waterRower.close();
+        jasmine.clock().uninstall();
+    });
+
+    it('should initialize the WaterRower like a S4', async () => {
+        const other = new WaterRower(options => options.createTransport = () => emulator.createTransport());
+        const initialized = jasmine.createSpy('initialized');
+        other.on(WaterRowerEvents.INITIALIZED, initialized);
+
+        other.connectSerial();
+        await flush();
+
+        expect(initialized).toHaveBeenCalledTimes(1);
+        expect(other.isConnected()).toBeTrue();
+        expect(other.getModelInformation()).toEqual({ model: 4, firmwareVersion: '2.10' });
+        other.close();
+    });
+
+    it('should ping while nobody rows', async () => {
+        await rowFor(3000);
+
+        expect(reads.filter(r => r.type === 'ping').length).toBe(3);
+        expect(reads.some(r => r.type === 'pulse')).toBeFalse();
+    });
+
+    it('should send stroke and pulse frames while rowing', async () => {
+        emulator.row({ strokeRate: 24, power: 150 });
+        await rowFor(10000);
+
+        const types = reads.map(r => r.type);
+        expect(types.filter(t => t === 'strokestart').length).toBe(4);
+        expect(types.filter(t => t === 'strokeend').length).toBe(4);
+        expect(types).toContain('pulse');
+        expect(types).not.toContain('ping');
+    });
+
+    it('should report the session values of the rowing model', async () => {
+        emulator.row({ strokeRate: 24, power: 150 });
+        await rowFor(60000);
+
+        expect(latest('stroke_rate')).toBe(24);
+        expect(latest('strokes_cnt')).toBe(24);
+        // 150W average is about 3.8m/s once the boat is up to speed
+        expect(latest('distance')).toBeGreaterThan(190);
+        expect(latest('distance')).toBeLessThan(235);
+        expect(latest('m_s_total')).toBeGreaterThan(300);
+        expect(latest('m_s_total')).toBeLessThan(450);
+        expect(latest('total_kcal')).toBeGreaterThan(0);
+    });
+
+    it('should glide out after the rower stopped', async () => {
+        emulator.row({ strokeRate: 24, power: 150 });
+        await rowFor(20000);
+        emulator.stopRowing();
+        await rowFor(60000);
+
+        expect(latest('m_s_total')).toBe(0);
+        expect(latest('stroke_rate')).toBe(0);
+        const types = reads.map(r => r.type);
+        expect(types.lastIndexOf('ping')).toBeGreaterThan(types.lastIndexOf('pulse'));
+    });
+
+    it('should zero the session values on reset', async () => {
+        emulator.row({ strokeRate: 24, power: 150 });
+        await rowFor(10000);
+
+        waterRower.reset();
+        await flush();
+
+        expect(emulator.readMemory(0x057, 2)).toBe(0);
+        expect(emulator.readMemory(0x140, 2)).toBe(0);
+        expect(emulator.readMemory(0x081, 2)).toBeGreaterThan(0);
+    });
+
+    it('should accept workouts and reject invalid ones', async () => {
+        waterRower.defineDistanceWorkout(2000);
+        await flush();
+        expect(reads.pop()?.type).toBe('ok');
+        expect(emulator.readMemory(0x1EE, 2)).toBe(2000);
+
+        waterRower.defineDurationWorkout(20 * 3600);
+        await flush();
+        expect(reads.pop()?.type).toBe('error');
+    });
+
+    it('should count down a duration workout', async () => {
+        waterRower.defineDurationWorkout(300);
+        await flush();
+        emulator.row({ strokeRate: 20, power: 100 });
+        await rowFor(60000);
+
+        expect(emulator.readMemory(0x05B, 2)).toBe(240);
+    });
+
+    it('should answer unknown packets with an error', async () => {
+        waterRower.requestDataPoints('distance');
+        emulator.receive('XYZ');
+        await flush();
+
+        expect(reads.map(r => r.type)).toEqual(jasmine.arrayContaining(['datapoint', 'error']));
+    });
+
+    it('should feed a training session end-to-end', async () => {
+        const configManager = jasmine.createSpyObj<ConfigManager>('ConfigManager', ['getSessionMode', 'getPowerModel']);
+        configManager.getSessionMode.and.returnValue('training');
+        configManager.getPowerModel.and.returnValue('formula');
+        const session = new TrainingSession(waterRower, new HeartRateSourceManager(new FakeCentralAdapter()), configManager);
+
+        await session.start();
+        await flush();
+        emulator.row({ strokeRate: 22, power: 120 });
+        await rowFor(30000);
+        const data = session.stop();
+
+        const last = data[data.length - 1];
+        expect(data.length).toBeGreaterThanOrEqual(30);
+        expect(last.distance).toBeGreaterThan(80);
+        expect(last.totalStrokes).toBe(11);
+        expect(last.strokeRate).toBe(22);
+        expect(last.calories).toBeGreaterThan(0);
+        expect(data.some(d => (d.power ?? 0) > 0)).toBeTrue();
+    });
+
+    it('should take the power of the training session from the flywheel physics', async () => {
+        const configManager = jasmine.createSpyObj<ConfigManager>('ConfigManager', ['getSessionMode', 'getPowerModel']);
+        configManager.getSessionMode.and.returnValue('training');
+        configManager.getPowerModel.and.returnValue('physics');
+        const session = new TrainingSession(waterRower, new HeartRateSourceManager(new FakeCentralAdapter()), configManager);
+
+        await session.start();
+        await flush();
+        emulator.row({ strokeRate: 22, power: 120 });
+        await rowFor(30000);
+        const data = session.stop();
+
+        const strokes = session.getStrokes();
+        expect(strokes.length).toBeGreaterThanOrEqual(9);
+        expect(strokes.every(s => (s.power ?? 0) > 0 && (s.peakForce ?? 0) > 0)).toBeTrue();
+        // the datapoints carry the power of the last stroke, not of the formula
+        const powers = data.map(d => d.power).filter(p => (p ?? 0) > 0);
+        expect(powers.length).toBeGreaterThan(0);
+        expect(powers.every(p => strokes.some(s => s.power === p))).toBeTrue();
+    });
+});
@@ -0,0 +1,361 @@
+import debug from 'debug';
+
+import { RowingModel, RowingWorkload } from './rowing-model';
+import { InMemorySerialTransport, LineParser, SerialTransport } from '../transport';
+
+const logger = debug('S4_EMULATOR');
+
+// the S4 reports the pulses counted in the last 25ms
+const TICK_INTERVAL = 25;
+// PING is sent once a second while nobody is rowing
+const PING_INTERVAL = 1000;
+const MEMORY_SIZE = 0x200;
+// 32 pin edges of the paddle equal 35cm
+const PINS_PER_XXCM = 32;
+const DISTANCE_XXCM = 35;
+const PULSES_PER_METER = PINS_PER_XXCM / (DISTANCE_XXCM / 100);
+// energy burnt by the rower for the mechanical work, the S4 uses a comparable efficiency
+const MECHANICAL_EFFICIENCY = 0.25;
+
+// memory map of the S4 firmware 2.x, see docs/Water Rower S4 S5 USB Protocol
+const Registers = {
+    workoutFlags: 0x03E,
+    msDistanceDec: 0x054,
+    msDistance: 0x055,
+    distance: 0x057,
+    clockDownDec: 0x05A,
+    clockDown: 0x05B,
+    totalDistanceDec: 0x080,
+    totalDistance: 0x081,
+    pinsPerXxcm: 0x083,
+    distanceXxcm: 0x084,
+    kcalWatts: 0x088,
+    totalKcal: 0x08A,
+    tankVolume: 0x0A9,
+    strokes: 0x140,
+    strokeAverage: 0x142,
+    strokePull: 0x143,
+    msTotal: 0x148,
+    msAverage: 0x14A,
+    strokeRate: 0x1A9,
+    displaySecDec: 0x1E0,
+    displaySec: 0x1E1,
+    displayMin: 0x1E2,
+    displayHr: 0x1E3,
+    workoutLimit: 0x1EE,
+} as const;
+
+const WORKOUT_DISTANCE_FLAG = 0x10;
+const WORKOUT_DURATION_FLAG = 0x20;
+
+export interface S4EmulatorOptions {
+    model: 4 | 5;
+    firmwareVersion: string; // e.g. 2.10
+    tankVolume: number; // liters
+}
+
+const DEFAULT_EMULATOR_OPTIONS: S4EmulatorOptions = {
+    model: 4,
+    firmwareVersion: '2.10',
+    tankVolume: 17,
+};
+
+/**
+ * Software S4 rowing computer speaking the USB protocol, backed by a simple rowing physics model.
+ * The WaterRower talks to it through the transport created by createTransport().
+ */
+export class S4Emulator {
+    private readonly options: S4EmulatorOptions;
+    private readonly model = new RowingModel();
+    private readonly memory = new Uint8Array(MEMORY_SIZE);
+    // device end of the connection to the WaterRower
+    private port: InMemorySerialTransport | null = null;
+    private readonly parser = new LineParser();
+    private tickTimer: NodeJS.Timeout | null = null;
+    private pulses = 0; // fractional pulses not reported yet
+    private sincePing = 0; // ms
+    private strokeStartTime = 0; // ms of emulated time
+    private emulatedTime = 0; // ms since the last reset
+
+    // session values kept with more precision than the registers
+    private distance = 0; // m
+    private totalDistance = 0; // m, survives a reset
+    private energy = 0; // cal
+    private rowingTime = 0; // s
+    private clockDown = 0; // s
+
+    constructor(options: Partial<S4EmulatorOptions> = {}) {
+        this.options = { ...DEFAULT_EMULATOR_OPTIONS, ...options };
+        this.powerOn();
+    }
+
+    /// plugs the emulator in, replaces the transport of a previous connection
+    public createTransport(): SerialTransport {
+        this.port?.close();
+
+        const [host, device] = InMemorySerialTransport.createPipe();
+        this.port = device;
+        this.parser.reset();
+        device.on('data', data => this.parser.push(data).forEach(packet => this.receive(packet)));
+        device.on('close', () => {
+            if (this.port === device) {
+                this.port = null;
+                this.stopTicking();
+            }
+        });
+        return host;
+    }
+
+    /// pulls with the stroke rate and average power until stopRowing is called
+    public row(workload: RowingWorkload): void {
+        logger(`Rowing at ${workload.strokeRate}spm with ${workload.power}W`);
+        this.model.row(workload);
+    }
+
+    public stopRowing(): void {
+        logger('Stopped rowing');
+        this.model.stop();
+    }
+
+    /// value of the memory location, multi byte values are stored low byte first
+    public readMemory(address: number, length: 1 | 2 | 3 = 1): number {
+        let value = 0;
+        for (let i = length - 1; i >= 0; i--) {
+            value = value * 256 + this.memory[address + i];
+        }
+        return value;
+    }
+
+    /// handles a packet sent by the PC
+    public receive(packet: string): void {
+        const command = packet.trim().toUpperCase();
+        if (command.length === 0) {
+            return;
+        }
+
+        logger(`received ${command}`);
+        const read = /^IR([SDT])([0-9A-F]{3})$/.exec(command);
+        if (read != null) {
+            this.handleRead(read[1], parseInt(read[2], 16));
+            return;
+        }
+
+        const distanceWorkout = /^WSI([1-4])([0-9A-F]{4})$/.exec(command);
+        if (distanceWorkout != null) {
+            this.handleDistanceWorkout(parseInt(distanceWorkout[1], 10), parseInt(distanceWorkout[2], 16));
+            return;
+        }
+
+        const durationWorkout = /^WSU([0-9A-F]{4})$/.exec(command);
+        if (durationWorkout != null) {
+            this.handleDurationWorkout(parseInt(durationWorkout[1], 16));
+            return;
+        }
+
+        switch (command) {
+            case 'USB':
+                this.send('_WR_');
+                this.startTicking();
+                break;
+            case 'EXIT':
+                this.stopTicking();
+                break;
+            case 'IV?': {
+                const [high, low] = this.options.firmwareVersion.split('.');
+                this.send(`IV${this.options.model}${high.padStart(2, '0')}${(low ?? '').padEnd(2, '0')}`);
+                break;
+            }
+            case 'RESET':
+                this.reset();
+                this.send('OK');
+                break;
+            default:
+                // display settings and interactive mode only change the display of the S4
+                if (/^(D[IAD]|AI[AE])/.test(command)) {
+                    this.send('OK');
+                } else {
+                    this.send('ERROR');
+                }
+        }
+    }
+
+    private send(packet: string): void {
+        if (this.port?.isOpen) {
+            this.port.write(packet + '\r\n');
+        }
+    }
+
+    private handleRead(size: string, address: number): void {
+        const length = ({ S: 1, D: 2, T: 3 } as const)[size as 'S' | 'D' | 'T'];
+        if (address + length > MEMORY_SIZE) {
+            this.send('ERROR');
+            return;
+        }
+
+        // the highest location first, two hex digits per location
+        const value = this.readMemory(address, length).toString(16).toUpperCase().padStart(length * 2, '0');
+        this.send(`ID${size}${address.toString(16).toUpperCase().padStart(3, '0')}${value}`);
+    }
+
+    private handleDistanceWorkout(units: number, value: number): void {
+        // 64000m or 5000 strokes at most
+        const max = units === 4 ? 0x1388 : 0xFA00;
+        if (value === 0 || value > max) {
+            this.send('ERROR');
+            return;
+        }
+
+        this.writeMemory(Registers.workoutLimit, value, 2);
+        this.memory[Registers.workoutFlags] = WORKOUT_DISTANCE_FLAG;
+        this.send('OK');
+    }
+
+    private handleDurationWorkout(seconds: number): void {
+        // 5 hours at most
+        if (seconds === 0 || seconds > 0x4650) {
+            this.send('ERROR');
+            return;
+        }
+
+        this.clockDown = seconds;
+        this.writeMemory(Registers.workoutLimit, seconds, 2);
+        this.memory[Registers.workoutFlags] = WORKOUT_DURATION_FLAG;
+        this.updateRegisters(0);
+        this.send('OK');
+    }
+
+    private startTicking(): void {
+        if (this.tickTimer == null) {
+            this.tickTimer = setInterval(() => this.tick(), TICK_INTERVAL);
+        }
+    }
+
+    private stopTicking(): void {
+        if (this.tickTimer != null) {
+            clearInterval(this.tickTimer);
+            this.tickTimer = null;
+        }
+    }
+
+    private tick(): void {
+        const step = this.model.step(TICK_INTERVAL / 1000);
+        this.emulatedTime += TICK_INTERVAL;
+
+        // stroke packets have the highest priority, then the pulses
+        if (step.strokeStarted) {
+            this.handleStrokeStart();
+            this.send('SS');
+        }
+        if (step.strokeEnded) {
+            this.handleStrokeEnd();
+            this.send('SE');
+        }
+
+        this.pulses += step.distance * PULSES_PER_METER;
+        const pulses = Math.min(Math.floor(this.pulses), 0xFF);
+        if (pulses > 0) {
+            this.pulses -= pulses;
+            this.send(`P${pulses.toString(16).toUpperCase().padStart(2, '0')}`);
+        }
+
+        if (step.velocity > 0) {
+            this.distance += step.distance;
+            this.totalDistance += step.distance;
+            this.energy += step.power * (TICK_INTERVAL / 1000) / 4.184 / MECHANICAL_EFFICIENCY;
+            this.rowingTime += TICK_INTERVAL / 1000;
+            if (this.clockDown > 0) {
+                this.clockDown = Math.max(0, this.clockDown - TICK_INTERVAL / 1000);
+            }
+            this.sincePing = 0;
+        } else {
+            this.sincePing += TICK_INTERVAL;
+            if (this.sincePing >= PING_INTERVAL) {
+                this.sincePing = 0;
+                this.send('PING');
+            }
+        }
+
+        this.updateRegisters(step.power);
+    }
+
+    private handleStrokeStart(): void {
+        const strokes = this.readMemory(Registers.strokes, 2) + 1;
+        this.writeMemory(Registers.strokes, strokes & 0xFFFF, 2);
+
+        if (this.strokeStartTime > 0) {
+            const strokeTime = this.emulatedTime - this.strokeStartTime;
+            this.memory[Registers.strokeAverage] = Math.min(Math.round(strokeTime / TICK_INTERVAL), 0xFF);
+            this.memory[Registers.strokeRate] = Math.min(Math.round(60000 / strokeTime), 0xFF);
+        }
+        this.strokeStartTime = this.emulatedTime;
+    }
+
+    private handleStrokeEnd(): void {
+        const pullTime = this.emulatedTime - this.strokeStartTime;
+        this.memory[Registers.strokePull] = Math.min(Math.round(pullTime / TICK_INTERVAL), 0xFF);
+    }
+
+    private updateRegisters(power: number): void {
+        const velocity = this.model.getVelocity();
+        const averageVelocity = this.rowingTime > 0 ? this.distance / this.rowingTime : 0;
+
+        this.memory[Registers.msDistanceDec] = Math.floor(this.distance * 10) % 10;
+        this.writeMemory(Registers.msDistance, Math.floor(this.distance), 2);
+        this.writeMemory(Registers.distance, Math.floor(this.distance), 2);
+        this.memory[Registers.totalDistanceDec] = Math.floor(this.totalDistance * 10) % 10;
+        this.writeMemory(Registers.totalDistance, Math.floor(this.totalDistance), 2);
+        this.writeMemory(Registers.kcalWatts, Math.round(power), 2);
+        this.writeMemory(Registers.totalKcal, Math.floor(this.energy), 3);
+        this.writeMemory(Registers.msTotal, Math.round(velocity * 100), 2);
+        this.writeMemory(Registers.msAverage, Math.round(averageVelocity * 100), 2);
+        if (velocity === 0 && !this.model.isRowing()) {
+            this.memory[Registers.strokeRate] = 0;
+        }
+
+        // the display clock is binary coded decimal
+        const seconds = Math.floor(this.rowingTime);
+        this.memory[Registers.displaySecDec] = toBcd(Math.floor(this.rowingTime * 10) % 10);
+        this.memory[Registers.displaySec] = toBcd(seconds % 60);
+        this.memory[Registers.displayMin] = toBcd(Math.floor(seconds / 60) % 60);
+        this.memory[Registers.displayHr] = toBcd(Math.floor(seconds / 3600) % 10);
+
+        this.memory[Registers.clockDownDec] = Math.floor(this.clockDown * 10) % 10;
+        this.writeMemory(Registers.clockDown, Math.floor(this.clockDown), 2);
+    }
+
+    private writeMemory(address: number, value: number, length: 1 | 2 | 3): void {
+        for (let i = 0; i < length; i++) {
+            this.memory[address + i] = (value >> (8 * i)) & 0xFF;
+        }
+    }
+
+    private powerOn(): void {
+        this.memory[Registers.pinsPerXxcm] = PINS_PER_XXCM;
+        this.memory[Registers.distanceXxcm] = DISTANCE_XXCM;
+        this.memory[Registers.tankVolume] = this.options.tankVolume;
+        this.reset();
+    }
+
+    /// clears the session values like the power button of the S4
+    private reset(): void {
+        logger('Resetting session values');
+        this.distance = 0;
+        this.energy = 0;
+        this.rowingTime = 0;
+        this.clockDown = 0;
+        this.pulses = 0;
+        this.emulatedTime = 0;
+        this.strokeStartTime = 0;
+        this.memory[Registers.workoutFlags] = 0;
+        this.memory[Registers.strokeAverage] = 0;
+        this.memory[Registers.strokePull] = 0;
+        this.memory[Registers.strokeRate] = 0;
+        this.writeMemory(Registers.strokes, 0, 2);
+        this.writeMemory(Registers.workoutLimit, 0, 2);
+        this.updateRegisters(0);
+    }
+}
+
+function toBcd(value: number): number {
+    return Math.floor(value / 10) * 16 + value % 10;
+}
@@ -0,0 +1,88 @@
+import { DataPointName } from './datapoints-config';
+import { FlywheelPhysics, parsePulseFrame } from './flywheel-physics';
+
+describe('FlywheelPhysics', () => {
+    let registers: Partial<Record<DataPointName, number>>;
+    let physics: FlywheelPhysics;
+
+    beforeEach(() => {
+        // 2.5cm per pulse, a pulse per 25ms is 1 m/s
+        registers = { pins_per_xxcm: 4, distance_xxcm: 10, tank_volume: 12 };
+        physics = new FlywheelPhysics(name => registers[name]);
+    });
+
+    it('should parse the pulses of a P frame', () => {
+        expect(parsePulseFrame('P0A')).toBe(10);
+        expect(parsePulseFrame('SS')).toBeUndefined();
+    });
+
+    it('should convert the pulses into the paddle speed', () => {
+        expect(physics.getSpeed(3)).toBeCloseTo(3, 5);
+
+        registers = {};
+        // 32 pin edges per 35cm
+        expect(physics.getSpeed(8)).toBeCloseTo(3.5, 5);
+    });
+
+    it('should measure the drag factor from the deceleration in the recovery', () => {
+        // 1/v grows by 1/12 every 25ms, times the 3kg of water is a drag factor of 10
+        registers.tank_volume = 3;
+        const recovery = [{ time: 1025, pulses: 12 }, { time: 1050, pulses: 6 }, { time: 1075, pulses: 4 }, { time: 1100, pulses: 3 }];
+
+        const stroke = physics.analyzeStroke([], recovery, 2000);
+
+        // smoothed from the default of 2.8
+        expect(stroke.dragFactor).toBeCloseTo(2.8 + (10 - 2.8) * 0.2, 5);
+        expect(physics.getDragFactor()).toBe(stroke.dragFactor);
+    });
+
+    it('should measure the drag of frames received in one chunk', () => {
+        registers.tank_volume = 3;
+        const recovery = [12, 6, 4, 3].map(pulses => ({ time: 1100, pulses }));
+
+        physics.analyzeStroke([], recovery, 2000);
+
+        expect(physics.getDragFactor()).toBeCloseTo(2.8 + (10 - 2.8) * 0.2, 5);
+    });
+
+    it('should ignore a recovery the paddle did not decelerate in', () => {
+        const recovery = [{ time: 1025, pulses: 3 }, { time: 1050, pulses: 4 }, { time: 1075, pulses: 6 }, { time: 1100, pulses: 12 }];
+
+        physics.analyzeStroke([], recovery, 2000);
+
+        expect(physics.getDragFactor()).toBe(2.8);
+    });
+
+    it('should derive the power and the force curve of the stroke', () => {
+        const drive = [{ time: 1025, pulses: 2 }, { time: 1050, pulses: 4 }];
+
+        const stroke = physics.analyzeStroke(drive, [], 2000);
+
+        // 2.8 × (2³ + 4³) × 25ms over 2s
+        expect(stroke.power).toBeCloseTo(2.52, 5);
+        // the drag, then the acceleration of 80 m/s² of the 12kg of water and the drag
+        expect(stroke.forceCurve.length).toBe(2);
+        expect(stroke.forceCurve[0]).toBeCloseTo(11.2, 5);
+        expect(stroke.forceCurve[1]).toBeCloseTo(12 * 80 + 2.8 * 16, 5);
+        expect(stroke.peakForce).toBe(stroke.forceCurve[1]);
+    });
+
+    it('should derive the force of frames received late', () => {
+        // the second frame arrived 75ms after the first, it still counts the pulses of 25ms
+        const drive = [{ time: 1025, pulses: 2 }, { time: 1100, pulses: 4 }];
+
+        const stroke = physics.analyzeStroke(drive, [], 2000);
+
+        expect(stroke.forceCurve[1]).toBeCloseTo(12 * 80 + 2.8 * 16, 5);
+    });
+
+    it('should measure the drag again after a reset', () => {
+        registers.tank_volume = 3;
+        physics.analyzeStroke([], [12, 6, 4, 3].map((pulses, i) => ({ time: 1025 + i * 25, pulses })), 2000);
+        expect(physics.getDragFactor()).not.toBe(2.8);
+
+        physics.reset();
+
+        expect(physics.getDragFactor()).toBe(2.8);
+    });
+});
@@ -0,0 +1,137 @@
+import debug from 'debug';
+
+import { DataPointName } from './datapoints-config';
+import { RegisterReader } from './s4-metrics';
+
+const logger = debug('WR_PHYSICS');
+
+// the S4 reports the pulses counted in the last 25ms
+const PULSE_INTERVAL = 25;
+// 32 pin edges of the paddle equal 35cm unless pins_per_xxcm and distance_xxcm were read
+const DEFAULT_PINS_PER_XXCM = 32;
+const DEFAULT_DISTANCE_XXCM = 35;
+// litres of water in the tank unless tank_volume was read
+const DEFAULT_TANK_VOLUME = 17;
+// the drag of the 2.8 × speed³ formula, until the drag of the tank was measured
+const DEFAULT_DRAG_FACTOR = 2.8;
+// measured drag factors outside are not the water, e.g. the rower held the handle during the recovery
+const MIN_DRAG_FACTOR = 0.5;
+const MAX_DRAG_FACTOR = 20;
+// pulse frames of the recovery needed to measure the deceleration
+const MIN_RECOVERY_SAMPLES = 4;
+// weight of the drag factor measured in the latest recovery
+const DRAG_FACTOR_SMOOTHING = 0.2;
+
+/// the registers calibrating the physics, constant for a rower
+export const FlywheelPhysicsDataPoints: ReadonlyArray<DataPointName> = ['pins_per_xxcm', 'distance_xxcm', 'tank_volume'];
+
+export interface PulseSample {
+    time: number; // ms, when the frame was received, frames of one chunk share it
+    pulses: number;
+}
+
+export interface StrokePhysics {
+    power: number; // W, average over the stroke
+    dragFactor: number; // N·s²/m², the drag of the water is dragFactor × speed²
+    forceCurve: Array<number>; // N, force on the paddle in each pulse frame of the drive
+    peakForce: number; // N
+}
+
+/// count of pulses of a P frame, e.g. P0A, undefined for other frames
+export function parsePulseFrame(data: string): number | undefined {
+    const pulses = parseInt(data.slice(1, 3), 16);
+    return data.startsWith('P') && !isNaN(pulses) ? pulses : undefined;
+}
+
+/**
+ * Models the paddle as the mass of the water it spins against a drag growing with the square of the speed:
+ * m · dv/dt = F - k · v². During the recovery F is 0, so 1/v grows linearly by k/m per second and its slope gives
+ * the drag factor k. During the drive the force on the paddle follows from the speed and its change.
+ */
+export class FlywheelPhysics {
+    private dragFactor = DEFAULT_DRAG_FACTOR;
+
+    constructor(private readonly readRegister: RegisterReader) {
+    }
+
+    public getMetersPerPulse(): number {
+        const pins = this.readRegister('pins_per_xxcm') || DEFAULT_PINS_PER_XXCM;
+        const centimeters = this.readRegister('distance_xxcm') || DEFAULT_DISTANCE_XXCM;
+        return centimeters / 100 / pins;
+    }
+
+    /// m/s of the paddle in a pulse frame
+    public getSpeed(pulses: number): number {
+        return pulses * this.getMetersPerPulse() / (PULSE_INTERVAL / 1000);
+    }
+
+    public getDragFactor(): number {
+        return this.dragFactor;
+    }
+
+    /// measures the drag in the recovery, then the power and the forces with the drag measured so far.
+    /// strokeTime is the ms from the start of the drive to the start of the next drive
+    public analyzeStroke(drive: Array<PulseSample>, recovery: Array<PulseSample>, strokeTime: number): StrokePhysics {
+        this.measureDragFactor(recovery);
+
+        const mass = this.getMass();
+        const k = this.dragFactor;
+        const forceCurve = drive.map((sample, i) => {
+            const speed = this.getSpeed(sample.pulses);
+            const previous = drive[i - 1];
+            // every frame counts the pulses of 25ms, the receive time of chunked frames says nothing about it
+            const acceleration = previous != null ? (speed - this.getSpeed(previous.pulses)) / (PULSE_INTERVAL / 1000) : 0;
+            // the water decelerates the paddle faster than the rower pulls at the end of the drive
+            return Math.max(0, mass * acceleration + k * speed * speed);
+        });
+
+        // the paddle is about as fast at the start of the next drive, the kinetic energy cancels out and
+        // the work of the stroke is what the drag dissipated
+        const work = [...drive, ...recovery]
+            .reduce((sum, sample) => sum + k * Math.pow(this.getSpeed(sample.pulses), 3) * PULSE_INTERVAL / 1000, 0);
+
+        return {
+            power: strokeTime > 0 ? work / (strokeTime / 1000) : 0,
+            dragFactor: k,
+            forceCurve,
+            peakForce: forceCurve.length > 0 ? Math.max(...forceCurve) : 0,
+        };
+    }
+
+    /// the drag is measured again, e.g. after the tank was refilled
+    public reset(): void {
+        this.dragFactor = DEFAULT_DRAG_FACTOR;
+    }
+
+    /// kg of the water in the tank
+    private getMass(): number {
+        return this.readRegister('tank_volume') || DEFAULT_TANK_VOLUME;
+    }
+
+    private measureDragFactor(recovery: Array<PulseSample>): void {
+        // the frames follow each other every 25ms, frames received in one chunk share the time they were received at
+        const points = recovery
+            .map((s, i) => ({ x: i * PULSE_INTERVAL / 1000, pulses: s.pulses }))
+            .filter(p => p.pulses > 0)
+            .map(p => ({ x: p.x, y: 1 / this.getSpeed(p.pulses) }));
+        if (points.length < MIN_RECOVERY_SAMPLES) {
+            return;
+        }
+
+        // least squares slope of 1/v over the time in s
+        const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+        const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+        const covariance = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+        const variance = points.reduce((sum, p) => sum + (p.x - meanX) * (p.x - meanX), 0);
+        if (variance === 0) {
+            return;
+        }
+
+        const measured = covariance / variance * this.getMass();
+        if (measured < MIN_DRAG_FACTOR || measured > MAX_DRAG_FACTOR) {
+            logger(`Drag factor ${measured.toFixed(2)} out of range, ignored`);
+            return;
+        }
+        this.dragFactor += (measured - this.dragFactor) * DRAG_FACTOR_SMOOTHING;
+    }
+}
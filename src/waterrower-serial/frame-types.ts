@@ -6,6 +6,7 @@ export const FrameTypes: Array<{ type: string; pattern: RegExp; }> = [
     { type: 'strokeend', pattern: /SE/ },
     { type: 'exit', pattern: /EXIT/ },
     { type: 'hardwaretype', pattern: /_WR_/ },
+    { type: 'modelinformation', pattern: /IV([45])(\d{2})(\d{2})/ },
     { type: 'datapoint', pattern: /ID([SDT])([0-9A-F]{3})([0-9A-F]+)/ },
     { type: 'ok', pattern: /OK/ },
 
@@ -0,0 +1,6 @@
+export interface ModelInformation {
+    // 4 for a Series 4, 5 for a Series 5 rowing computer
+    model: number;
+    // e.g. '2.10'
+    firmwareVersion: string;
+}
@@ -0,0 +1,53 @@
+import { RegisterStore } from './register-store';
+import { DataPoint } from './data-point';
+import { DataPointName } from './datapoints-config';
+
+describe('RegisterStore', () => {
+    let store: RegisterStore;
+    let changes: Array<DataPoint>;
+
+    const dataPoint = (name: DataPointName, address: string, value: number, time: number): DataPoint =>
+        ({ time: new Date(time), name, address, length: 2, value });
+
+    beforeEach(() => {
+        store = new RegisterStore(name => name === 'distance' ? 600 : Infinity);
+        changes = [];
+        store.changes$.subscribe(d => changes.push(d));
+    });
+
+    it('should keep the last value with its timestamps', () => {
+        store.update(dataPoint('distance', '057', 100, 1000));
+        store.update(dataPoint('distance', '057', 100, 1200));
+        store.update(dataPoint('distance', '057', 104, 1400));
+
+        expect(store.get('distance')).toEqual({ name: 'distance', address: '057', value: 104, updatedAt: 1400, changedAt: 1400 });
+    });
+
+    it('should emit only the changed values', () => {
+        store.update(dataPoint('distance', '057', 100, 1000));
+        store.update(dataPoint('distance', '057', 100, 1200));
+        store.update(dataPoint('distance', '057', 104, 1400));
+
+        expect(changes.map(d => d.value)).toEqual([100, 104]);
+    });
+
+    it('should detect stale registers', () => {
+        store.update(dataPoint('distance', '057', 100, 1000));
+        store.update(dataPoint('tank_volume', '0A9', 17, 1000));
+
+        expect(store.isStale('distance', 1600)).toBeFalse();
+        expect(store.isStale('distance', 1601)).toBeTrue();
+        expect(store.isStale('tank_volume', 100000)).toBeFalse();
+        expect(store.isStale('stroke_rate', 1000)).toBeTrue();
+    });
+
+    it('should take a snapshot ordered by address', () => {
+        store.update(dataPoint('tank_volume', '0A9', 17, 1000));
+        store.update(dataPoint('distance', '057', 100, 1500));
+
+        expect(store.snapshot(2200)).toEqual([
+            { name: 'distance', address: '057', value: 100, updatedAt: 1500, changedAt: 1500, age: 700, stale: true },
+            { name: 'tank_volume', address: '0A9', value: 17, updatedAt: 1000, changedAt: 1000, age: 1200, stale: false },
+        ]);
+    });
+});
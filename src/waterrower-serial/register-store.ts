@@ -0,0 +1,79 @@
+import { Subject } from 'rxjs';
+
+import { DataPoint } from './data-point';
+import { DataPointName } from './datapoints-config';
+
+export interface RegisterValue {
+    name: DataPointName;
+    address: string;
+    value: number;
+    updatedAt: number; // ms, the last reply
+    changedAt: number; // ms, the last reply with a different value
+}
+
+export interface RegisterSnapshot extends RegisterValue {
+    age: number; // ms since the last reply
+    stale: boolean;
+}
+
+/**
+ * Last value of each register of one WaterRower, as received in the datapoint replies
+ */
+export class RegisterStore {
+    private readonly registers = new Map<DataPointName, RegisterValue>();
+
+    // datapoints whose value differs from the previous reply, the first reply of a register included
+    public readonly changes$ = new Subject<DataPoint>();
+
+    /// maxAge is the age in ms after which the value of the register is stale
+    constructor(private readonly maxAge: (name: DataPointName) => number) {
+    }
+
+    public update(dataPoint: DataPoint): void {
+        const time = dataPoint.time.getTime();
+        const previous = this.registers.get(dataPoint.name);
+        const changed = previous == null || previous.value !== dataPoint.value;
+
+        this.registers.set(dataPoint.name, {
+            name: dataPoint.name,
+            address: dataPoint.address,
+            value: dataPoint.value,
+            updatedAt: time,
+            changedAt: changed ? time : previous.changedAt,
+        });
+
+        if (changed) {
+            this.changes$.next(dataPoint);
+        }
+    }
+
+    public get(name: DataPointName): RegisterValue | undefined {
+        return this.registers.get(name);
+    }
+
+    /// registers never read are stale as well
+    public isStale(name: DataPointName, now: number = Date.now()): boolean {
+        const register = this.registers.get(name);
+        return register == null || now - register.updatedAt > this.maxAge(name);
+    }
+
+    /// the registers read so far, ordered by address
+    public snapshot(now: number = Date.now()): Array<RegisterSnapshot> {
+        return [...this.registers.values()]
+            .sort((a, b) => a.address.localeCompare(b.address))
+            .map(register => ({
+                ...register,
+                age: now - register.updatedAt,
+                stale: this.isStale(register.name, now),
+            }));
+    }
+
+    /// forgets the given registers, all registers without names
+    public clear(names?: ReadonlyArray<DataPointName>): void {
+        if (names == null) {
+            this.registers.clear();
+            return;
+        }
+        names.forEach(name => this.registers.delete(name));
+    }
+}
@@ -0,0 +1,95 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+
+import { decodeS4Metrics, S4Metrics } from './s4-metrics';
+import { DataPointName } from './datapoints-config';
+import { ReadValue } from './read-value';
+import { WaterRower } from './waterrower-serial';
+
+describe('decodeS4Metrics', () => {
+    const decode = (registers: Partial<Record<DataPointName, number>>): S4Metrics => decodeS4Metrics(name => registers[name]);
+
+    it('should combine the distance with its decimetres', () => {
+        expect(decode({ m_s_distance: 1234, m_s_distance_dec: 7, distance: 1234 }).distance).toBe(1234.7);
+    });
+
+    it('should fall back to the displayed distance', () => {
+        expect(decode({ distance: 1234 }).distance).toBe(1234);
+    });
+
+    it('should combine the console clock', () => {
+        // 1:02:03.4, decoded from the binary coded decimals by the radix of the datapoints
+        expect(decode({ display_hr: 1, display_min: 2, display_sec: 3, display_sec_dec: 4 }).elapsedTime).toBeCloseTo(3723.4, 5);
+        expect(decode({ display_min: 2, display_sec: 3 }).elapsedTime).toBeUndefined();
+    });
+
+    it('should combine the countdown and the odometer', () => {
+        const metrics = decode({ clock_down: 299, clock_down_dec: 5, total_dis: 51234, total_dis_dec: 3 });
+
+        expect(metrics.countdown).toBe(299.5);
+        expect(metrics.totalDistance).toBe(51234.3);
+    });
+
+    it('should scale the calories and speeds', () => {
+        // triple byte register counting cal
+        expect(decode({ total_kcal: 0x01E240, m_s_total: 385, m_s_average: 362 })).toEqual({
+            calories: 123.456,
+            speed: 3.85,
+            averageSpeed: 3.62,
+        });
+    });
+
+    it('should leave out the metrics whose registers were not read', () => {
+        expect(decode({})).toEqual({});
+    });
+});
+
+describe('WaterRower metrics of a recorded session', () => {
+    let waterRower: WaterRower;
+    let reads: Array<ReadValue>;
+
+    beforeAll(() => {
+        reads = readFileSync(path.join('data', 'recording.txt'), 'utf-8')
+            .split(/\r?\n/)
+            .filter(line => line.length > 0)
+            .map(line => JSON.parse(line) as ReadValue);
+    });
+
+    beforeEach(() => {
+        waterRower = new WaterRower(() => undefined);
+    });
+
+    const replay = (count: number = reads.length): void => reads.slice(0, count).forEach(read => waterRower.reads$.next(read));
+
+    it('should decode the values at the end of the recording', () => {
+        replay();
+
+        // IDD057008E, IDD08A1797, IDD1400014, IDD1480046, IDS1A918
+        expect(waterRower.getMetrics()).toEqual({
+            distance: 142,
+            calories: 6.039,
+            speed: 0.7,
+            strokes: 20,
+            strokeRate: 24,
+        });
+    });
+
+    it('should decode the values before the console was reset', () => {
+        const reset = reads.findIndex(read => read.type === 'ok');
+        replay(reset);
+
+        // IDD0570034, IDD08A047B, IDD1400005
+        expect(waterRower.getMetrics()).toEqual(jasmine.objectContaining({ distance: 52, calories: 1.147, strokes: 5 }));
+    });
+
+    it('should emit the metrics when a register changed', () => {
+        const metrics: Array<S4Metrics> = [];
+        waterRower.metrics$.subscribe(m => metrics.push(m));
+
+        replay();
+
+        // most replies repeat the previous value
+        expect(metrics.length).toBeLessThan(reads.filter(read => read.type === 'datapoint').length / 2);
+        expect(metrics[metrics.length - 1].distance).toBe(142);
+    });
+});
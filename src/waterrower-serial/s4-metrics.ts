@@ -0,0 +1,66 @@
+import { DataPointName } from './datapoints-config';
+
+/// values of the S4 combined from the registers they are split into, undefined until their registers were read
+export interface S4Metrics {
+    distance?: number; // m, with decimetres if m_s_distance_dec was read
+    elapsedTime?: number; // s, with tenths, the clock shown by the console
+    countdown?: number; // s, with tenths, remaining time of a duration workout
+    totalDistance?: number; // m, with decimetres, the odometer kept across resets
+    calories?: number; // kcal
+    speed?: number; // m/s
+    averageSpeed?: number; // m/s
+    strokes?: number;
+    strokeRate?: number; // strokes per minute
+}
+
+/// the registers the metrics are combined from
+export const S4MetricDataPoints: ReadonlyArray<DataPointName> = [
+    'm_s_distance_dec', 'm_s_distance', 'distance',
+    'display_sec_dec', 'display_sec', 'display_min', 'display_hr',
+    'clock_down_dec', 'clock_down',
+    'total_dis_dec', 'total_dis',
+    'total_kcal',
+    'm_s_total', 'm_s_average',
+    'strokes_cnt', 'stroke_rate',
+];
+
+/// value of a register, undefined if it was not read yet
+export type RegisterReader = (name: DataPointName) => number | undefined;
+
+/// whole units and the tenths kept in a separate register, e.g. meters and decimetres
+function withTenths(whole: number | undefined, tenths: number | undefined): number | undefined {
+    if (whole == null) {
+        return undefined;
+    }
+    return tenths == null ? whole : whole + tenths / 10;
+}
+
+/// combines the register values into the metrics
+export function decodeS4Metrics(read: RegisterReader): S4Metrics {
+    // the display clock registers are binary coded decimals, decoded by the radix 10 of their datapoints
+    const hours = read('display_hr');
+    const minutes = read('display_min');
+    const seconds = read('display_sec');
+    const elapsedTime = hours != null && minutes != null && seconds != null
+        ? withTenths(hours * 3600 + minutes * 60 + seconds, read('display_sec_dec'))
+        : undefined;
+
+    const totalKcal = read('total_kcal');
+    const speed = read('m_s_total');
+    const averageSpeed = read('m_s_average');
+    const metrics: S4Metrics = {
+        distance: withTenths(read('m_s_distance'), read('m_s_distance_dec')) ?? read('distance'),
+        elapsedTime,
+        countdown: withTenths(read('clock_down'), read('clock_down_dec')),
+        totalDistance: withTenths(read('total_dis'), read('total_dis_dec')),
+        // counted in cal
+        calories: totalKcal != null ? totalKcal / 1000 : undefined,
+        // counted in cm/s
+        speed: speed != null ? speed / 100 : undefined,
+        averageSpeed: averageSpeed != null ? averageSpeed / 100 : undefined,
+        strokes: read('strokes_cnt'),
+        strokeRate: read('stroke_rate'),
+    };
+
+    return Object.fromEntries(Object.entries(metrics).filter(([, value]) => value != null)) as S4Metrics;
+}
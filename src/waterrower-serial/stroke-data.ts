@@ -0,0 +1,15 @@
+export interface StrokeData {
+    time: number; // ms, start of the drive
+    driveTime: number; // ms from SS to SE
+    recoveryTime: number; // ms from SE to the SS of the next stroke
+    driveRecoveryRatio: number; // drive time / recovery time
+    distance: number; // m covered from the start of the drive to the start of the next stroke
+    peakSpeed: number; // m/s, highest speed of the pulse frames during the stroke
+    averageStrokeTime?: number; // ms, stroke_average register of the S4
+    averageDriveTime?: number; // ms, stroke_pull register of the S4
+    // from the flywheel physics, undefined without pulse frames
+    power?: number; // W, average over the stroke
+    dragFactor?: number; // N·s²/m², the drag measured so far
+    forceCurve?: Array<number>; // N, force on the paddle every 25ms of the drive
+    peakForce?: number; // N
+}
@@ -0,0 +1,78 @@
+import { DataPointName } from './datapoints-config';
+import { StrokeData } from './stroke-data';
+import { StrokeDetector } from './stroke-detector';
+
+describe('StrokeDetector', () => {
+    let registers: Partial<Record<DataPointName, number>>;
+    let detector: StrokeDetector;
+    let strokes: Array<StrokeData>;
+
+    const read = (time: number, type: string, data: string): void => detector.handleRead({ time, type, data });
+
+    beforeEach(() => {
+        registers = {};
+        detector = new StrokeDetector(name => registers[name]);
+        strokes = [];
+        detector.strokes$.subscribe(stroke => strokes.push(stroke));
+    });
+
+    it('should emit the stroke at the start of the next one', () => {
+        read(1000, 'strokestart', 'SS');
+        read(1800, 'strokeend', 'SE');
+        expect(strokes).toEqual([]);
+
+        read(3400, 'strokestart', 'SS');
+
+        expect(strokes).toEqual([jasmine.objectContaining({ time: 1000, driveTime: 800, recoveryTime: 1600, driveRecoveryRatio: 0.5 })]);
+        // no pulse frames for the flywheel physics
+        expect(strokes[0].power).toBeUndefined();
+    });
+
+    it('should take the distance and the peak speed from the pulses', () => {
+        read(1000, 'strokestart', 'SS');
+        read(1025, 'pulse', 'P08');
+        read(1050, 'pulse', 'P10');
+        read(1800, 'strokeend', 'SE');
+        read(2000, 'pulse', 'P08');
+        read(3400, 'strokestart', 'SS');
+
+        // 32 pulses of 35cm / 32, the peak of 16 pulses in 25ms
+        expect(strokes[0].distance).toBeCloseTo(0.35, 5);
+        expect(strokes[0].peakSpeed).toBeCloseTo(16 * 0.35 / 32 / 0.025, 5);
+        // the drag of the 2.8 × speed³ formula dissipated over the 2.4s of the stroke
+        const speeds = [8, 16, 8].map(pulses => pulses * 0.35 / 32 / 0.025);
+        expect(strokes[0].power).toBeCloseTo(speeds.reduce((sum, v) => sum + 2.8 * v * v * v * 0.025, 0) / 2.4, 5);
+        expect(strokes[0].forceCurve?.length).toBe(2);
+    });
+
+    it('should combine the stroke with the registers of the S4', () => {
+        registers = { pins_per_xxcm: 20, distance_xxcm: 50, stroke_average: 100, stroke_pull: 36 };
+
+        read(1000, 'strokestart', 'SS');
+        read(1025, 'pulse', 'P14');
+        read(1800, 'strokeend', 'SE');
+        read(3400, 'strokestart', 'SS');
+
+        expect(strokes[0]).toEqual(jasmine.objectContaining({ distance: 0.5, averageStrokeTime: 2500, averageDriveTime: 900 }));
+    });
+
+    it('should drop strokes without an end of the drive or after a break', () => {
+        read(1000, 'strokestart', 'SS');
+        read(3000, 'strokestart', 'SS');
+        read(3800, 'strokeend', 'SE');
+        read(20000, 'strokestart', 'SS');
+        read(20800, 'strokeend', 'SE');
+        read(22400, 'strokestart', 'SS');
+
+        expect(strokes.map(s => s.time)).toEqual([20000]);
+    });
+
+    it('should forget the stroke in progress on reset', () => {
+        read(1000, 'strokestart', 'SS');
+        read(1800, 'strokeend', 'SE');
+        detector.reset();
+        read(3400, 'strokestart', 'SS');
+
+        expect(strokes).toEqual([]);
+    });
+});
@@ -0,0 +1,107 @@
+import debug from 'debug';
+import { Subject } from 'rxjs';
+
+import { FlywheelPhysics, parsePulseFrame, PulseSample } from './flywheel-physics';
+import { ReadValue } from './read-value';
+import { StrokeData } from './stroke-data';
+import { RegisterReader } from './s4-metrics';
+
+const logger = debug('WR_STROKES');
+
+// the stroke time registers count in units of 25ms
+const REGISTER_TIME_UNIT = 25;
+// a longer recovery is a break, not a stroke
+const MAX_RECOVERY_TIME = 10000;
+
+interface StrokeInProgress {
+    start: number; // ms
+    end: number | null; // ms, null during the drive
+    drive: Array<PulseSample>;
+    recovery: Array<PulseSample>;
+}
+
+/**
+ * Splits the S4 frames into strokes: SS starts the drive, SE starts the recovery and the next SS completes the stroke.
+ * The P frames in between give the distance, the peak speed and the power of the stroke.
+ */
+export class StrokeDetector {
+    private stroke: StrokeInProgress | null = null;
+
+    // completed strokes, emitted at the start of the next stroke
+    public readonly strokes$ = new Subject<StrokeData>();
+
+    constructor(
+        private readonly readRegister: RegisterReader,
+        private readonly physics: FlywheelPhysics = new FlywheelPhysics(readRegister)
+    ) {
+    }
+
+    public handleRead(read: ReadValue): void {
+        switch (read.type) {
+            case 'strokestart':
+                this.handleStrokeStart(read.time);
+                break;
+            case 'strokeend':
+                if (this.stroke != null && this.stroke.end == null) {
+                    this.stroke.end = read.time;
+                }
+                break;
+            case 'pulse': {
+                const pulses = parsePulseFrame(read.data);
+                if (this.stroke != null && pulses != null) {
+                    const phase = this.stroke.end == null ? this.stroke.drive : this.stroke.recovery;
+                    phase.push({ time: read.time, pulses });
+                }
+                break;
+            }
+        }
+    }
+
+    /// forgets the stroke in progress and the measured drag, e.g. when the connection was lost
+    public reset(): void {
+        this.stroke = null;
+        this.physics.reset();
+    }
+
+    private handleStrokeStart(time: number): void {
+        const stroke = this.stroke;
+        this.stroke = { start: time, end: null, drive: [], recovery: [] };
+
+        if (stroke == null) {
+            return;
+        }
+        if (stroke.end == null) {
+            logger('Stroke without SE, dropped');
+            return;
+        }
+        if (time - stroke.end > MAX_RECOVERY_TIME) {
+            logger('Stroke after a break, the recovery is not counted');
+            return;
+        }
+
+        const samples = [...stroke.drive, ...stroke.recovery];
+        const pulses = samples.reduce((sum, s) => sum + s.pulses, 0);
+        const peakPulses = samples.reduce((peak, s) => Math.max(peak, s.pulses), 0);
+        // recordings made before the pulses were kept have none
+        const physics = pulses > 0 ? this.physics.analyzeStroke(stroke.drive, stroke.recovery, time - stroke.start) : undefined;
+        const driveTime = stroke.end - stroke.start;
+        const recoveryTime = time - stroke.end;
+        const averageStrokeTime = this.readRegister('stroke_average');
+        const averageDriveTime = this.readRegister('stroke_pull');
+
+        this.strokes$.next({
+            time: stroke.start,
+            driveTime,
+            recoveryTime,
+            driveRecoveryRatio: recoveryTime > 0 ? driveTime / recoveryTime : 0,
+            distance: pulses * this.physics.getMetersPerPulse(),
+            peakSpeed: this.physics.getSpeed(peakPulses),
+            averageStrokeTime: averageStrokeTime != null ? averageStrokeTime * REGISTER_TIME_UNIT : undefined,
+            averageDriveTime: averageDriveTime != null ? averageDriveTime * REGISTER_TIME_UNIT : undefined,
+            power: physics?.power,
+            dragFactor: physics?.dragFactor,
+            forceCurve: physics?.forceCurve,
+            peakForce: physics?.peakForce,
+        });
+    }
+}
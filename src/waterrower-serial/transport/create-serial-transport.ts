@@ -0,0 +1,15 @@
+import { SerialTransport } from './serial-transport';
+import { SerialPortTransport } from './serial-port-transport';
+import { TcpSerialTransport } from './tcp-serial-transport';
+
+// port name of a remote serial server, e.g. tcp://192.168.1.20:4001
+const TCP_PORT_NAME = /^tcp:\/\/([^:/]+):(\d+)\/?$/;
+
+/// opens the serial port or the TCP connection of the port name
+export function createSerialTransport(portName: string, baudRate: number): SerialTransport {
+    const tcp = TCP_PORT_NAME.exec(portName);
+    if (tcp != null) {
+        return new TcpSerialTransport(tcp[1], parseInt(tcp[2], 10));
+    }
+    return new SerialPortTransport(portName, baudRate);
+}
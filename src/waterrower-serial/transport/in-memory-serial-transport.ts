@@ -0,0 +1,70 @@
+import { EventEmitter } from 'events';
+
+import { SerialTransport } from './serial-transport';
+
+/**
+ * One end of an in-memory serial connection. The chunks written to one end are received
+ * unchanged by the other end, which allows to split or join packets on purpose.
+ */
+export class InMemorySerialTransport extends EventEmitter implements SerialTransport {
+    private peer: InMemorySerialTransport | null = null;
+    private open = false;
+
+    private constructor() {
+        super();
+        // the listeners are attached after the transport was created
+        setImmediate(() => {
+            if (this.peer != null) {
+                this.open = true;
+                this.emit('open');
+            }
+        });
+    }
+
+    /// host and device end of a new connection
+    public static createPipe(): [InMemorySerialTransport, InMemorySerialTransport] {
+        const host = new InMemorySerialTransport();
+        const device = new InMemorySerialTransport();
+        host.peer = device;
+        device.peer = host;
+        return [host, device];
+    }
+
+    public get isOpen(): boolean {
+        return this.open;
+    }
+
+    public write(data: string | Buffer): void {
+        const peer = this.peer;
+        if (!this.open || peer == null) {
+            this.emit('error', new Error('Port is not open'));
+            return;
+        }
+
+        const chunk = Buffer.from(data);
+        setImmediate(() => {
+            if (peer.open) {
+                peer.emit('data', chunk);
+            }
+        });
+    }
+
+    /// closes both ends, like unplugging the cable
+    public close(callback?: (err?: Error | null) => void): void {
+        const peer = this.peer;
+        this.peer = null;
+        this.disconnect();
+        if (peer != null) {
+            peer.peer = null;
+            peer.disconnect();
+        }
+        callback?.(null);
+    }
+
+    private disconnect(): void {
+        if (this.open) {
+            this.open = false;
+            this.emit('close');
+        }
+    }
+}
@@ -0,0 +1,6 @@
+export { SerialTransport } from './serial-transport';
+export { LineParser } from './line-parser';
+export { SerialPortTransport } from './serial-port-transport';
+export { TcpSerialTransport } from './tcp-serial-transport';
+export { InMemorySerialTransport } from './in-memory-serial-transport';
+export { createSerialTransport } from './create-serial-transport';
@@ -0,0 +1,46 @@
+import { LineParser } from './line-parser';
+
+describe('LineParser', () => {
+    let parser: LineParser;
+
+    beforeEach(() => {
+        parser = new LineParser();
+    });
+
+    it('should return a complete packet without terminator', () => {
+        expect(parser.push(Buffer.from('IDD05700FA\r\n'))).toEqual(['IDD05700FA']);
+    });
+
+    it('should keep a partial packet until its terminator arrives', () => {
+        expect(parser.push('IDD05')).toEqual([]);
+        expect(parser.push('700F')).toEqual([]);
+        expect(parser.push('A\r\n')).toEqual(['IDD05700FA']);
+    });
+
+    it('should split concatenated packets in order', () => {
+        expect(parser.push('SS\r\nP03\r\nSE\r\nIDS1A918\r\n')).toEqual(['SS', 'P03', 'SE', 'IDS1A918']);
+    });
+
+    it('should handle a terminator split across chunks', () => {
+        expect(parser.push('PING\r')).toEqual([]);
+        expect(parser.push('\nP01\r\nP0')).toEqual(['PING', 'P01']);
+        expect(parser.push('2\r\n')).toEqual(['P02']);
+    });
+
+    it('should skip empty lines', () => {
+        expect(parser.push('\r\n\r\nOK\r\n')).toEqual(['OK']);
+    });
+
+    it('should drop garbage without terminator', () => {
+        parser.push('X'.repeat(100));
+
+        expect(parser.push('OK\r\n')).toEqual(['OK']);
+    });
+
+    it('should drop a partial packet on reset', () => {
+        parser.push('IDD05');
+        parser.reset();
+
+        expect(parser.push('_WR_\r\n')).toEqual(['_WR_']);
+    });
+});
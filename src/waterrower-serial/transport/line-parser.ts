@@ -0,0 +1,34 @@
+import debug from 'debug';
+
+const logger = debug('WR_SERIAL');
+
+const TERMINATOR = '\r\n';
+// the S4 limits a packet to 50 bytes including the terminator
+const MAX_PACKET_LENGTH = 50;
+
+/**
+ * Splits the received chunks into the CRLF terminated packets of the S4. A packet split
+ * across chunks is kept until its terminator arrives, the packets of one chunk are returned in order.
+ */
+export class LineParser {
+    private received = '';
+
+    /// returns the packets completed by the chunk, without terminator
+    public push(chunk: Buffer | string): Array<string> {
+        this.received += chunk.toString();
+
+        const packets = this.received.split(TERMINATOR);
+        this.received = packets.pop() ?? '';
+        if (this.received.length > MAX_PACKET_LENGTH) {
+            logger(`Dropping ${this.received.length} bytes without packet terminator`);
+            this.received = '';
+        }
+
+        return packets.filter(packet => packet.length > 0);
+    }
+
+    /// drops a partial packet, e.g. of a previous connection
+    public reset(): void {
+        this.received = '';
+    }
+}
@@ -0,0 +1,44 @@
+import { EventEmitter } from 'events';
+import { SerialPort } from 'serialport';
+
+import { SerialTransport } from './serial-transport';
+
+// manufacturer of the USB CDC chip of the S4
+const WATER_ROWER_MANUFACTURERS = [
+    'Microchip Technology, Inc.', // standard
+    'Microchip Technology Inc.', // macOS specific?
+];
+
+/**
+ * S4 connected by USB
+ */
+export class SerialPortTransport extends EventEmitter implements SerialTransport {
+    private readonly port: SerialPort;
+
+    constructor(path: string, baudRate: number) {
+        super();
+        this.port = new SerialPort({ path, baudRate });
+        this.port.on('open', () => this.emit('open'));
+        this.port.on('data', (data: Buffer) => this.emit('data', data));
+        this.port.on('close', () => this.emit('close'));
+        this.port.on('error', (err: Error) => this.emit('error', err));
+    }
+
+    /// path of the first serial port of a WaterRower
+    public static async discoverAsync(): Promise<string | undefined> {
+        const ports = await SerialPort.list();
+        return ports.find(p => WATER_ROWER_MANUFACTURERS.includes(p.manufacturer ?? ''))?.path;
+    }
+
+    public get isOpen(): boolean {
+        return this.port.isOpen;
+    }
+
+    public write(data: string): void {
+        this.port.write(data);
+    }
+
+    public close(callback?: (err?: Error | null) => void): void {
+        this.port.close(callback);
+    }
+}
@@ -0,0 +1,13 @@
+/// The part of the SerialPort API used by the WaterRower. Allows to talk to
+/// something else than the USB port of the S4, e.g. the S4 emulator.
+/// The received chunks are not aligned to the packets, see LineParser.
+export interface SerialTransport {
+    readonly isOpen: boolean;
+
+    write(data: string): void;
+    close(callback?: (err?: Error | null) => void): void;
+
+    on(event: 'open' | 'close', listener: () => void): this;
+    on(event: 'data', listener: (data: Buffer) => void): this;
+    on(event: 'error', listener: (err: Error) => void): this;
+}
@@ -0,0 +1,41 @@
+import { EventEmitter } from 'events';
+import { Socket, connect } from 'net';
+
+import { SerialTransport } from './serial-transport';
+
+/**
+ * S4 attached to a remote serial server, e.g. ser2net in raw mode on a Raspberry Pi next to the rower
+ */
+export class TcpSerialTransport extends EventEmitter implements SerialTransport {
+    private readonly socket: Socket;
+    private connected = false;
+
+    constructor(host: string, port: number) {
+        super();
+        this.socket = connect({ host, port });
+        this.socket.setNoDelay(true);
+        this.socket.on('connect', () => {
+            this.connected = true;
+            this.emit('open');
+        });
+        this.socket.on('data', (data: Buffer) => this.emit('data', data));
+        this.socket.on('close', () => {
+            this.connected = false;
+            this.emit('close');
+        });
+        this.socket.on('error', (err: Error) => this.emit('error', err));
+    }
+
+    public get isOpen(): boolean {
+        return this.connected;
+    }
+
+    public write(data: string): void {
+        this.socket.write(data);
+    }
+
+    public close(callback?: (err?: Error | null) => void): void {
+        this.connected = false;
+        this.socket.end(() => callback?.(null));
+    }
+}
@@ -1,4 +1,5 @@
 import { DataPointName } from './datapoints-config';
+import { SerialTransport } from './transport';
 
 export const DEFAULT_WATER_ROWER_OPTIONS: WaterRowerOptions = {
     baudRate: 19200,
@@ -8,10 +9,19 @@ export const DEFAULT_WATER_ROWER_OPTIONS: WaterRowerOptions = {
     refreshRate: 200,
 };
 
+export interface DataPointPolling {
+    interval?: number; // ms, the refreshRate otherwise, 0 disables the polling
+    priority?: number; // requested before the datapoints of a lower priority, 0 by default
+}
+
 export interface WaterRowerOptions {
     baudRate: number;
     dataDirectory: string;
     datapoints: DataPointName | Array<DataPointName> | undefined;
     portName: string;
     refreshRate: number;
+    // polling of single datapoints differing from the refreshRate
+    datapointPolling?: Partial<Record<DataPointName, DataPointPolling>>;
+    // replaces the serial port, the port name is not used then
+    createTransport?: (options: WaterRowerOptions) => SerialTransport;
 }
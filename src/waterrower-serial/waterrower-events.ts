@@ -4,6 +4,9 @@
 export const WaterRowerEvents = {
     INITIALIZED: Symbol('WaterRower:initialized'),
     ERROR: Symbol('WaterRower:error'),
+    // closed on request, a lost connection is restored and only changes the state
     CLOSE: Symbol('WaterRower:close'),
+    MODEL_INFORMATION: Symbol('WaterRower:modelInformation'),
     DATA: Symbol('WaterRower:data'),
+    STATE_CHANGED: Symbol('WaterRower:stateChanged'),
 } as const;
@@ -0,0 +1,315 @@
+import { AddressInfo, Server, Socket, createServer } from 'net';
+
+import { WaterRower } from './waterrower-serial';
+import { WaterRowerEvents } from './waterrower-events';
+import { DataPoint } from './data-point';
+import { ReadValue } from './read-value';
+import { ConnectionState } from './connection-state';
+import { InMemorySerialTransport, SerialTransport, TcpSerialTransport } from './transport';
+
+describe('WaterRower', () => {
+    let waterRower: WaterRower;
+    let device: InMemorySerialTransport;
+    let written: Array<string>;
+    let datapoints: Array<DataPoint>;
+    let reads: Array<ReadValue>;
+
+    // lets the in-memory pipe deliver its chunks
+    const flush = async (): Promise<void> => {
+        for (let i = 0; i < 5; i++) {
+            await new Promise(resolve => setImmediate(resolve));
+        }
+    };
+
+    const connect = async (createTransport: () => SerialTransport): Promise<void> => {
+        waterRower = new WaterRower(options => {
+            options.createTransport = createTransport;
+            options.refreshRate = 0;
+        });
+        datapoints = [];
+        reads = [];
+        waterRower.datapoints$.subscribe(d => datapoints.push(d));
+        waterRower.reads$.subscribe(r => reads.push(r));
+        waterRower.connectSerial();
+        await flush();
+    };
+
+    afterEach(() => {
+        waterRower.close();
+    });
+
+    describe('over an in-memory pipe', () => {
+        beforeEach(async () => {
+            written = [];
+            await connect(() => {
+                const [host, deviceEnd] = InMemorySerialTransport.createPipe();
+                device = deviceEnd;
+                device.on('data', data => written.push(data.toString()));
+                return host;
+            });
+        });
+
+        it('should send the packets terminated by CRLF', () => {
+            expect(written).toEqual(['USB\r\n']);
+        });
+
+        it('should decode a packet split across chunks', async () => {
+            device.write('IDD0');
+            await flush();
+            device.write('5700F');
+            await flush();
+            device.write('A\r');
+            await flush();
+            expect(datapoints).toEqual([]);
+
+            device.write('\n');
+            await flush();
+
+            expect(datapoints).toEqual([jasmine.objectContaining({ name: 'distance', address: '057', length: 2, value: 250 })]);
+        });
+
+        it('should decode concatenated packets in order', async () => {
+            device.write('_WR_\r\nSS\r\nP05\r\nIDS1A918\r\nSE\r\n');
+            await flush();
+
+            expect(reads.map(r => r.type)).toEqual(['hardwaretype', 'strokestart', 'pulse', 'datapoint', 'strokeend']);
+            expect(reads.map(r => r.data)).toEqual(['_WR_', 'SS', 'P05', 'IDS1A918', 'SE']);
+            expect(datapoints).toEqual([jasmine.objectContaining({ name: 'stroke_rate', value: 24 })]);
+        });
+
+        it('should read the last values received by this instance', async () => {
+            device.write('IDD05700FA\r\nIDS1A918\r\nIDS1A919\r\n');
+            await flush();
+
+            expect(waterRower.readDataPoints(['distance', 'stroke_rate'])).toEqual({ distance: 250, stroke_rate: 25 });
+            expect(waterRower.readDataPoints('strokes_cnt')).toBe(0);
+            expect(new WaterRower(() => undefined).readDataPoints('distance')).toBe(0);
+        });
+
+        it('should convert the pulse frames into the paddle speed', async () => {
+            const speeds: Array<number> = [];
+            waterRower.paddleSpeed$.subscribe(speed => speeds.push(speed));
+
+            device.write('P0A\r\nSS\r\nP00\r\n');
+            await flush();
+
+            // 10 pulses of 35cm / 32 in 25ms
+            expect(speeds.length).toBe(2);
+            expect(speeds[0]).toBeCloseTo(10 * 0.35 / 32 / 0.025, 5);
+            expect(speeds[1]).toBe(0);
+        });
+
+        it('should request the model and the firmware once initialized', async () => {
+            const modelInformation = jasmine.createSpy('modelInformation');
+            waterRower.on(WaterRowerEvents.MODEL_INFORMATION, modelInformation);
+
+            device.write('_WR_\r\n');
+            await flush();
+            expect(written).toEqual(['USB\r\n', 'IV?\r\n']);
+            expect(waterRower.getModelInformation()).toBeNull();
+
+            device.write('IV50207\r\n');
+            await flush();
+
+            expect(waterRower.getModelInformation()).toEqual({ model: 5, firmwareVersion: '2.07' });
+            expect(modelInformation).toHaveBeenCalledOnceWith({ model: 5, firmwareVersion: '2.07' });
+        });
+
+        it('should take an ERROR after a workout command as its reply', async () => {
+            device.write('_WR_\r\nIV40210\r\n');
+            await flush();
+            written = [];
+
+            waterRower.defineDistanceWorkout(2000);
+            waterRower.requestDataPoints('distance');
+            await flush();
+            expect(written).toEqual(['WSI107D0\r\n']);
+
+            // the workout command is retried, the register read waits for it
+            device.write('ERROR\r\n');
+            await flush();
+            device.write('OK\r\n');
+            await flush();
+            device.write('IDD05700FA\r\n');
+            await flush();
+
+            expect(written).toEqual(['WSI107D0\r\n', 'WSI107D0\r\n', 'IRD057\r\n']);
+            expect(waterRower.getCommandStatistics()).toEqual(jasmine.objectContaining({ errors: 1, retries: 1, dropped: 0, pending: 0 }));
+        });
+
+        it('should forget the metrics once the reset was acknowledged', async () => {
+            device.write('_WR_\r\nIV40210\r\nIDD05704D2\r\n');
+            await flush();
+
+            waterRower.reset();
+            await flush();
+            expect(waterRower.getMetrics().distance).toBe(1234);
+
+            device.write('OK\r\n');
+            await flush();
+
+            expect(waterRower.getMetrics().distance).toBeUndefined();
+        });
+
+        it('should reset without initializing the connection again', async () => {
+            device.write('_WR_\r\nIV40210\r\n');
+            await flush();
+            const initialized = jasmine.createSpy('initialized');
+            waterRower.on(WaterRowerEvents.INITIALIZED, initialized);
+            written = [];
+
+            waterRower.reset();
+            device.write('OK\r\n');
+            await flush();
+
+            expect(written).toEqual(['RESET\r\n']);
+            expect(initialized).not.toHaveBeenCalled();
+            expect(waterRower.getConnectionState()).toBe(ConnectionState.READY);
+        });
+
+        it('should only change the state when the device disconnects', async () => {
+            const closed = jasmine.createSpy('closed');
+            waterRower.on(WaterRowerEvents.CLOSE, closed);
+
+            device.close();
+            await flush();
+
+            expect(closed).not.toHaveBeenCalled();
+            expect(waterRower.getConnectionState()).toBe(ConnectionState.ERROR);
+            expect(waterRower.isConnected()).toBeFalse();
+        });
+
+        it('should emit CLOSE when closed on request', () => {
+            const closed = jasmine.createSpy('closed');
+            waterRower.on(WaterRowerEvents.CLOSE, closed);
+
+            waterRower.close();
+
+            expect(closed).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('connection lifecycle', () => {
+        let devices: Array<InMemorySerialTransport>;
+        let states: Array<ConnectionState>;
+
+        const lastDevice = (): InMemorySerialTransport => devices[devices.length - 1];
+
+        beforeEach(async () => {
+            jasmine.clock().install();
+            devices = [];
+            states = [];
+            await connect(() => {
+                const [host, deviceEnd] = InMemorySerialTransport.createPipe();
+                devices.push(deviceEnd);
+                return host;
+            });
+            waterRower.on(WaterRowerEvents.STATE_CHANGED, (state: ConnectionState) => states.push(state));
+        });
+
+        afterEach(() => {
+            jasmine.clock().uninstall();
+        });
+
+        it('should be ready once the WaterRower replied to USB', async () => {
+            expect(waterRower.getConnectionState()).toBe(ConnectionState.INITIALIZING);
+            expect(waterRower.isConnected()).toBeFalse();
+
+            lastDevice().write('_WR_\r\n');
+            await flush();
+
+            expect(states).toEqual([ConnectionState.READY]);
+            expect(waterRower.isConnected()).toBeTrue();
+        });
+
+        it('should reconnect after the connection was lost and keep the streams', async () => {
+            lastDevice().write('_WR_\r\n');
+            await flush();
+            const closed = jasmine.createSpy('closed');
+            waterRower.on(WaterRowerEvents.CLOSE, closed);
+
+            lastDevice().close();
+            await flush();
+            // the session is not stopped by a lost connection
+            expect(closed).not.toHaveBeenCalled();
+            expect(waterRower.getConnectionState()).toBe(ConnectionState.ERROR);
+
+            jasmine.clock().tick(1000);
+            await flush();
+            lastDevice().write('_WR_\r\nIDS1A914\r\n');
+            await flush();
+
+            expect(devices.length).toBe(2);
+            expect(states).toEqual([
+                ConnectionState.READY,
+                ConnectionState.ERROR,
+                ConnectionState.CONNECTING,
+                ConnectionState.INITIALIZING,
+                ConnectionState.READY,
+            ]);
+            expect(datapoints).toEqual([jasmine.objectContaining({ name: 'stroke_rate', value: 20 })]);
+        });
+
+        it('should retry with backoff while the WaterRower does not reply', async () => {
+            jasmine.clock().tick(5000);
+            expect(waterRower.getConnectionState()).toBe(ConnectionState.ERROR);
+
+            jasmine.clock().tick(1000);
+            await flush();
+            expect(devices.length).toBe(2);
+
+            jasmine.clock().tick(5000);
+            jasmine.clock().tick(1999);
+            await flush();
+            expect(devices.length).toBe(2);
+
+            jasmine.clock().tick(1);
+            await flush();
+            expect(devices.length).toBe(3);
+        });
+
+        it('should not reconnect after it was closed', async () => {
+            waterRower.close();
+            jasmine.clock().tick(60000);
+            await flush();
+
+            expect(devices.length).toBe(1);
+            expect(waterRower.getConnectionState()).toBe(ConnectionState.DISCONNECTED);
+        });
+    });
+
+    describe('over TCP', () => {
+        let server: Server;
+        let serverSocket: Promise<Socket>;
+
+        beforeEach(async () => {
+            server = createServer();
+            serverSocket = new Promise(resolve => server.once('connection', resolve));
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        });
+
+        afterEach(async () => {
+            (await serverSocket).destroy();
+            await new Promise(resolve => server.close(resolve));
+        });
+
+        it('should talk to a remote serial server', async () => {
+            const { port } = server.address() as AddressInfo;
+            await connect(() => new TcpSerialTransport('127.0.0.1', port));
+            const initialized = new Promise(resolve => waterRower.once(WaterRowerEvents.INITIALIZED, resolve));
+
+            const socket = await serverSocket;
+            const received = await new Promise<string>(resolve => socket.once('data', data => resolve(data.toString())));
+            expect(received).toBe('USB\r\n');
+
+            socket.write('_W');
+            socket.write('R_\r\nIDS1A91');
+            socket.write('4\r\n');
+            await initialized;
+            await new Promise(resolve => setTimeout(resolve, 50));
+
+            expect(waterRower.isConnected()).toBeTrue();
+            expect(datapoints).toEqual([jasmine.objectContaining({ name: 'stroke_rate', value: 20 })]);
+        });
+    });
+});
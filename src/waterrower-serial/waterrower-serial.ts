@@ -1,5 +1,4 @@
 import { Observable, Subject, Subscription, concatMap, delay, filter, from, lastValueFrom, map, of, tap, zip } from 'rxjs';
-import { SerialPort } from 'serialport';
 import { EventEmitter } from 'events';
 import * as path from 'path';
 
@@ -9,22 +8,73 @@ import { DEFAULT_WATER_ROWER_OPTIONS, WaterRowerOptions } from './water-rower-op
 import { ReadValue } from './read-value';
 import { DataPoint } from './data-point';
 import { FrameTypes } from './frame-types';
-import { DataPoints } from './datapoints-config';
+import { DataPointName, DataPoints } from './datapoints-config';
+import { ModelInformation } from './model-information';
+import { WaterRowerEvents } from './waterrower-events';
+import { ConnectionState } from './connection-state';
+import { CommandOptions, CommandQueue, CommandStatistics } from './command-queue';
+import { RegisterSnapshot, RegisterStore } from './register-store';
+import { S4MetricDataPoints, S4Metrics, decodeS4Metrics } from './s4-metrics';
+import { FlywheelPhysics, parsePulseFrame } from './flywheel-physics';
+import { StrokeDetector } from './stroke-detector';
+import { StrokeData } from './stroke-data';
+import { LineParser, SerialPortTransport, SerialTransport, createSerialTransport } from './transport';
+import { RowerDataSource } from '../rower/rower-data-source';
 import debug from 'debug';
 
 const logger = debug('WR_SERIAL');
 
-export class WaterRower extends EventEmitter {
+// Backoff of the reconnection after the connection failed or was lost, e.g. the USB cable was unplugged
+const RECONNECT_INITIAL_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 10000;
+// the S4 replies to USB right away, a port without reply is not a WaterRower
+const INITIALIZE_TIMEOUT = 5000;
+// control commands are written before the pending register reads
+const CONTROL_PRIORITY = 10;
+// a register is stale once this many polls were missed
+const STALE_POLLS = 3;
+
+// the S4 acknowledges the reset, the workout and the display commands with OK or rejects them with ERROR
+const isAcknowledgement = (read: ReadValue): boolean => read.type === 'ok';
+
+export class WaterRower extends EventEmitter implements RowerDataSource {
 
     private recordingSubscription: Subscription | null = null;
-    private options: WaterRowerOptions = DEFAULT_WATER_ROWER_OPTIONS;
-    private serialPort: SerialPort | null = null;
-    private requestTime: NodeJS.Timeout | null = null;
+    // copied, the options are changed by the options function
+    private options: WaterRowerOptions = { ...DEFAULT_WATER_ROWER_OPTIONS };
+    private serialPort: SerialTransport | null = null;
+    // the received chunks split or join the packets
+    private readonly lineParser = new LineParser();
+    private pollTimers: Array<NodeJS.Timeout> = [];
+    private readonly commands = new CommandQueue(packet => this.send(packet));
+    private readonly registers = new RegisterStore(name => this.getMaxAge(name));
+    private readonly physics = new FlywheelPhysics(name => this.registers.get(name)?.value);
+    private readonly strokeDetector = new StrokeDetector(name => this.registers.get(name)?.value, this.physics);
+    private modelInformation: ModelInformation | null = null;
+    private state = ConnectionState.DISCONNECTED;
+    // false once closed on request, the connection is not restored then
+    private keepConnected = false;
+    // the port was discovered and is discovered again on reconnect, the rower may be plugged into another port
+    private portDiscovered = false;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private reconnectAttempt = 0;
+    private initializeTimer: NodeJS.Timeout | null = null;
 
     // reads$ is all serial messages from the WR
     public reads$ = new Subject<ReadValue>();
     // datapoints$ isonly the reads that are a report of a memory location's value 
     public datapoints$: Observable<DataPoint> = of();
+    // only the datapoints whose value changed
+    public datapointChanges$: Observable<DataPoint> = this.registers.changes$;
+    // the metrics combined from the registers, whenever one of the registers changed
+    public metrics$: Observable<S4Metrics> = this.datapointChanges$.pipe(map(() => this.getMetrics()));
+    // the strokes detected from the stroke start and end frames
+    public strokes$: Observable<StrokeData> = this.strokeDetector.strokes$;
+    // m/s of the paddle, from each pulse frame
+    public paddleSpeed$: Observable<number> = this.reads$.pipe(
+        filter(read => read.type === 'pulse'),
+        map(read => this.physics.getSpeed(parsePulseFrame(read.data) ?? 0))
+    );
 
     constructor(optionsFn: (o: WaterRowerOptions) => void) {
         super();
@@ -37,17 +87,67 @@ export class WaterRower extends EventEmitter {
         });
     }
 
+    public connect(): void {
+        this.connectSerial();
+    }
+
+    /// connects and keeps the connection until close is called
     public connectSerial(): void {
-        if (this.options.portName?.length === 0) {
+        if (this.state !== ConnectionState.DISCONNECTED && this.state !== ConnectionState.ERROR) {
+            logger(`Already connecting or connected (${this.state})`);
+            return;
+        }
+
+        this.keepConnected = true;
+        this.cancelReconnect();
+        this.openConnection();
+    }
+
+    public isConnected(): boolean {
+        return this.state === ConnectionState.READY;
+    }
+
+    public getConnectionState(): ConnectionState {
+        return this.state;
+    }
+
+    public getDeviceName(): string {
+        return 'Waterrower';
+    }
+
+    public getPortName(): string | undefined {
+        return this.options.portName;
+    }
+
+    /// model and firmware version reported by the rowing computer, null until the IV reply was received
+    public getModelInformation(): ModelInformation | null {
+        return this.modelInformation;
+    }
+
+    private openConnection(): void {
+        this.setState(ConnectionState.CONNECTING);
+
+        if (this.options.createTransport != null) {
+            logger('Setting up custom transport ...');
+            this.setupSerialPort(this.options);
+        } else if (this.options.portName?.length === 0 || this.portDiscovered) {
             logger('No port configured. Attempting to discover...');
 
             this.discoverPort(name => {
+                // closed while discovering
+                if (this.state !== ConnectionState.CONNECTING) {
+                    return;
+                }
+
                 if (name) {
                     logger(`Discovered a WaterRower on ${name} ...`);
                     this.options.portName = name;
+                    this.portDiscovered = true;
                     this.setupSerialPort(this.options);
                 } else {
+                    // retried until the WaterRower is plugged in
                     logger('We didn\'t find any connected WaterRowers');
+                    this.connectionLost();
                 }
             });
         } else {
@@ -56,58 +156,179 @@ export class WaterRower extends EventEmitter {
         }
     }
 
-    public isConnected(): boolean {
-        return this.serialPort != null && this.serialPort.isOpen;
-    }
-
-    public getPortName(): string | undefined {
-        return this.options.portName;
-    }
-
     private discoverPort(callback: (name?: string) => void): void {
-        SerialPort.list().then((ports) => {
-            const p = ports.find(
-                p => [
-                    'Microchip Technology, Inc.', // standard
-                    'Microchip Technology Inc.', // macOS specific?
-                ].includes(p.manufacturer ?? '')
-            );
-
-            if (p) {
-                callback(p.path);
-            } else {
+        SerialPortTransport.discoverAsync()
+            .then(callback)
+            .catch((err: Error) => {
+                logger(`Failed to list the serial ports: ${err.message}`);
                 callback();
-            }
-        });
+            });
     }
 
     private setupSerialPort(options: WaterRowerOptions): void {
-        this.serialPort = new SerialPort({
-            path: options.portName ?? '',
-            baudRate: options.baudRate ?? this.options.baudRate,
-        });
+        this.lineParser.reset();
+        const port = options.createTransport?.(options)
+            ?? createSerialTransport(options.portName ?? '', options.baudRate ?? this.options.baudRate);
+        this.serialPort = port;
+
+        // setup port events, the events of a previous port are ignored
+        port.on('open', () => {
+            if (this.serialPort !== port) {
+                return;
+            }
 
-        // setup port events
-        this.serialPort.on('open', () => {
             logger(`A connection to the WaterRower has been established on ${options.portName}`);
+            this.setState(ConnectionState.INITIALIZING);
+            this.initializeTimer = setTimeout(() => {
+                logger('The WaterRower did not reply to USB');
+                this.emit(WaterRowerEvents.ERROR, new Error('No reply of the WaterRower'));
+                this.connectionLost();
+            }, INITIALIZE_TIMEOUT);
             this.initialize();
-            if (options.refreshRate !== 0) {
-                this.requestTime = setInterval(() => this.requestDataPoints(this.options.datapoints), this.options.refreshRate);
+        });
+        port.on('data', (data: Buffer) => {
+            if (this.serialPort !== port) {
+                return;
             }
+
+            this.lineParser.push(data).forEach(frame => {
+                const type = FrameTypes.find(t => t.pattern.test(frame));
+                this.reads$.next({ time: Date.now(), type: (type?.type ?? 'other'), data: frame });
+            });
         });
-        this.serialPort.on('data', (data: string) => {
-            const type = FrameTypes.find(t => t.pattern.test(data));
-            this.reads$.next({ time: Date.now(), type: (type?.type ?? 'other'), data: data.toString() });
+        // closed by the other side, e.g. the USB cable was unplugged
+        port.on('close', () => {
+            if (this.serialPort === port) {
+                logger('The connection to the WaterRower was lost');
+                this.connectionLost();
+            }
         });
-        this.serialPort.on('closed', () => this.close);
-        this.serialPort.on('disconnect', () => this.close);
-        this.serialPort.on('error', err => {
-            this.emit('error', err);
-            this.close();
+        port.on('error', err => {
+            if (this.serialPort === port) {
+                logger(`Serial port error: ${err.message}`);
+                this.emit(WaterRowerEvents.ERROR, err);
+                this.connectionLost();
+            }
+        });
+    }
+
+    /// the USB reply, the WaterRower is ready to answer requests
+    private handleInitialized(): void {
+        if (this.state === ConnectionState.INITIALIZING) {
+            this.clearInitializeTimer();
+            this.reconnectAttempt = 0;
+            this.setState(ConnectionState.READY);
+            this.startPolling();
+        }
+
+        this.emit(WaterRowerEvents.INITIALIZED);
+        this.sendCommand('IV?', { priority: CONTROL_PRIORITY, isResponse: read => read.type === 'modelinformation' });
+    }
+
+    /// polls the datapoints, grouped by their polling interval
+    private startPolling(): void {
+        const datapoints = this.options.datapoints;
+        const names: Array<DataPointName> = datapoints == null
+            ? DataPoints.map(d => d.name)
+            : (Array.isArray(datapoints) ? datapoints : [datapoints]);
+
+        const groups = new Map<number, Array<DataPointName>>();
+        names.forEach(name => {
+            const interval = this.getPollingInterval(name);
+            if (interval > 0) {
+                groups.set(interval, [...(groups.get(interval) ?? []), name]);
+            }
         });
+
+        this.stopPolling();
+        this.pollTimers = [...groups].map(([interval, group]) => setInterval(() => this.requestDataPoints(group), interval));
+    }
+
+    /// 0 if the datapoint is not polled
+    private getPollingInterval(name: DataPointName): number {
+        const datapoints = this.options.datapoints;
+        const polled = datapoints == null || datapoints === name || (Array.isArray(datapoints) && datapoints.includes(name));
+        return polled ? (this.options.datapointPolling?.[name]?.interval ?? this.options.refreshRate) : 0;
+    }
+
+    /// the value of a datapoint not polled does not get stale
+    private getMaxAge(name: DataPointName): number {
+        const interval = this.getPollingInterval(name);
+        return interval > 0 ? interval * STALE_POLLS : Infinity;
+    }
+
+    private stopPolling(): void {
+        this.pollTimers.forEach(timer => clearInterval(timer));
+        this.pollTimers = [];
+    }
+
+    /// reported as STATE_CHANGED only, CLOSE is emitted when the connection was closed on request.
+    /// A session keeps running while the connection is restored
+    private connectionLost(): void {
+        this.closePort();
+        this.setState(ConnectionState.ERROR);
+        this.scheduleReconnect();
+    }
+
+    private scheduleReconnect(): void {
+        if (!this.keepConnected || this.reconnectTimer != null) {
+            return;
+        }
+
+        const delay = Math.min(RECONNECT_INITIAL_DELAY * Math.pow(2, this.reconnectAttempt), RECONNECT_MAX_DELAY);
+        this.reconnectAttempt++;
+        logger(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempt})`);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.openConnection();
+        }, delay);
+    }
+
+    private cancelReconnect(): void {
+        if (this.reconnectTimer != null) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        this.reconnectAttempt = 0;
+    }
+
+    private clearInitializeTimer(): void {
+        if (this.initializeTimer != null) {
+            clearTimeout(this.initializeTimer);
+            this.initializeTimer = null;
+        }
+    }
+
+    /// releases the port, the streams stay open for the next connection
+    private closePort(): void {
+        this.clearInitializeTimer();
+        this.stopPolling();
+        this.commands.clear();
+        this.strokeDetector.reset();
+
+        this.modelInformation = null;
+        const port = this.serialPort;
+        this.serialPort = null;
+        if (port?.isOpen) {
+            port.close(err => err && logger(err));
+        }
+    }
+
+    private setState(state: ConnectionState): void {
+        if (state === this.state) {
+            return;
+        }
+
+        logger(`Connection state: ${this.state} -> ${state}`);
+        this.state = state;
+        this.emit(WaterRowerEvents.STATE_CHANGED, state);
     }
 
     private setupStreams(): void {
+        // the replies complete the pending commands
+        this.reads$.subscribe(read => this.commands.handleRead(read));
+        this.reads$.subscribe(read => this.strokeDetector.handleRead(read));
+
         // this is the important stream for reading memory locations from the rower
         // IDS is a single, IDD is a double, and IDT is a triple byte memory location
         this.datapoints$ = this.reads$.pipe(
@@ -142,20 +363,49 @@ export class WaterRower extends EventEmitter {
             }),
             filter(dataPoint => dataPoint !== null)
         );
+        this.datapoints$.subscribe(dataPoint => this.registers.update(dataPoint));
 
         // when the WR comes back with _WR_ then consider the WR initialized
         this.reads$
             .pipe(
                 filter(d => d.type == 'hardwaretype')
             )
-            .subscribe(() => {
-                this.emit('initialized');
+            .subscribe(() => this.handleInitialized());
+
+        // IV + model + version high + version low, e.g. IV40210 for a S4 with firmware 2.10
+        this.reads$
+            .pipe(
+                filter(d => d.type == 'modelinformation')
+            )
+            .subscribe(d => {
+                const m = FrameTypes.find(t => t.type == 'modelinformation')?.pattern.exec(d.data);
+                if (m == null) {
+                    logger(`parsing error: ${d.data}`);
+                    return;
+                }
+
+                this.modelInformation = {
+                    model: parseInt(m[1], 10),
+                    firmwareVersion: `${parseInt(m[2], 10)}.${m[3]}`,
+                };
+                logger(`Model information: S${this.modelInformation.model}, firmware ${this.modelInformation.firmwareVersion}`);
+                this.emit(WaterRowerEvents.MODEL_INFORMATION, this.modelInformation);
             });
     }
 
+    /// latency and drops of the commands since the WaterRower was created
+    public getCommandStatistics(): CommandStatistics {
+        return this.commands.getStatistics();
+    }
+
+    /// queues a command, written after the reply of the previous one
+    private sendCommand(value: string, options: CommandOptions = {}): void {
+        this.commands.enqueue(value, options).catch((err: Error) => logger(err.message));
+    }
+
     /// send a serial message
     private send(value: string): void {
-        if (this.serialPort != null) {
+        if (this.serialPort?.isOpen) {
             this.serialPort.write(value + '\r\n');
         }
     }
@@ -163,83 +413,102 @@ export class WaterRower extends EventEmitter {
     /// initialize the connection    
     private initialize(): void {
         logger('Initializing port...');
-        this.send('USB');
+        this.sendCommand('USB', { priority: CONTROL_PRIORITY, isResponse: read => read.type === 'hardwaretype' });
     }
 
+    /// closes the connection on request, connectSerial connects again
     public close(): void {
         logger('Closing WaterRower...');
+        this.keepConnected = false;
+        this.cancelReconnect();
         this.send('EXIT');
-        this.emit('close');
-        this.reads$.complete();
-        if (this.serialPort) {
-            this.serialPort.close(err => logger(err));
-            this.serialPort = null;
-        }
-
-        if (this.requestTime) {
-            clearInterval(this.requestTime);
-            this.requestTime = null;
-        }
+        this.closePort();
+        this.setState(ConnectionState.DISCONNECTED);
+        this.emit(WaterRowerEvents.CLOSE);
     }
 
-    /// reset console
+    /// reset console, the connection stays initialized and INITIALIZED is not emitted again
     reset(): void {
         logger('Resetting WaterRower...');
-        this.send('RESET'); //reset the waterrower 
-        this.initialize();
+        // the metrics of the previous session are forgotten once the reset was acknowledged, they are read again
+        this.commands.enqueue('RESET', { priority: CONTROL_PRIORITY, isResponse: isAcknowledgement })
+            .then(() => this.registers.clear(S4MetricDataPoints))
+            .catch((err: Error) => logger(err.message));
     }
 
     /// Issues a request for one, more, or all data points.
     /// There is no return value. Data point values can be read very
-    /// shortly after the request is made 
+    /// shortly after the request is made. The requests are queued,
+    /// a data point already pending is not requested again
     requestDataPoints(points?: string | Array<string>): void {
-        const delayMs = 50;
-
         const reqValue = (name: string): void => {
             logger('requesting ' + name);
             const dataPoint = DataPoints.find(d => d.name == name);
             if (dataPoint == null) {
                 return;
             }
-            this.send(`IR${dataPoint.length}${dataPoint.address}`);
+            // the reply is recognized by the address, e.g. IDD057 for IRD057
+            const pattern = FrameTypes.find(t => t.type == 'datapoint')?.pattern;
+            this.sendCommand(`IR${dataPoint.length}${dataPoint.address}`, {
+                priority: this.options.datapointPolling?.[dataPoint.name]?.priority,
+                isResponse: read => read.type === 'datapoint' && pattern?.exec(read.data)?.[2] === dataPoint.address,
+            });
         };
 
         if (points) {
             if (Array.isArray(points)) {
-                points.forEach((p, i) => setTimeout(() => reqValue(p), delayMs * i));
+                points.forEach(p => reqValue(p));
             } else if (typeof points === 'string') {
                 reqValue(points);
             } else {
                 throw ('requestDataPoint requires a string, an array of strings, or nothing at all');
             }
         } else {
-            DataPoints.forEach((d, i) => setTimeout(() => reqValue(d.name), delayMs * i));
+            DataPoints.forEach(d => reqValue(d.name));
         }
     }
 
+    /// last values received, 0 for datapoints not read yet
     readDataPoints(points?: string | Array<string>): Record<string, number> | number {
+        const value = (name: DataPointName): number => this.registers.get(name)?.value ?? 0;
+
         if (points) {
             if (Array.isArray(points)) {
                 return DataPoints
                     .filter(dp => points.some(p => p == dp.name)) //filter to the points that were passed in
                     .reduce((p, c) => {
-                        p[c.name] = c.value;
+                        p[c.name] = value(c.name);
                         return p;
                     }, {} as Record<string, number>); //build up an array of the chosen points
             } else if (typeof points === 'string') {
-                return DataPoints.find(d => d.name == points)?.value ?? 0;
+                return value(points as DataPointName);
             } else {
                 throw ('readDataPoints requires a string, an array of strings, or nothing at all');
             }
         } else {
             return DataPoints
                 .reduce((p, c) => {
-                    p[c.name] = c.value;
+                    p[c.name] = value(c.name);
                     return p;
                 }, {} as Record<string, number>);
         }
     }
 
+    /// true if the datapoint was not received within STALE_POLLS polling intervals or never
+    isDataPointStale(name: DataPointName): boolean {
+        return this.registers.isStale(name);
+    }
+
+    /// distance, clocks and calories combined from the registers received so far
+    getMetrics(): S4Metrics {
+        return decodeS4Metrics(name => this.registers.get(name)?.value);
+    }
+
+    /// the registers received so far with their age, for debugging
+    getRegisterSnapshot(): Array<RegisterSnapshot> {
+        return this.registers.snapshot();
+    }
+
     startRecording(name?: string): void {
         const now = new Date();
         const fileName = name ?? `${now.getFullYear()}-${now.getMonth() + 1}-${now.getDate()}-${now.getHours()}-${now.getMinutes()}`;
@@ -254,7 +523,7 @@ export class WaterRower extends EventEmitter {
 
         this.recordingSubscription = this.reads$
             .pipe(
-                filter(r => r.type != 'pulse'), //pulses are noisy
+                // the pulses are kept, the flywheel physics of a replay depend on them
                 map(r => JSON.stringify(r)),
                 tap(json => logger(`save recording ${json}`)),
                 tap(json => appendFileSync(filePath, json + '\n'))
@@ -324,12 +593,12 @@ export class WaterRower extends EventEmitter {
 
     /// set up new workout session on the WR with set distance
     defineDistanceWorkout(distance: number, units: Units = Units.Meters): void {
-        this.send(`WSI${units}${distance.toString(16).padStart(4, '0').toUpperCase()}`);
+        this.sendCommand(`WSI${units}${distance.toString(16).padStart(4, '0').toUpperCase()}`, { priority: CONTROL_PRIORITY, isResponse: isAcknowledgement });
     }
 
     /// set up new workout session on the WR with set duration
     defineDurationWorkout(seconds: number): void {
-        this.send(`WSU${seconds.toString(16).padStart(4, '0').toUpperCase()}`);
+        this.sendCommand(`WSU${seconds.toString(16).padStart(4, '0').toUpperCase()}`, { priority: CONTROL_PRIORITY, isResponse: isAcknowledgement });
     }
 
     /// change the display to meters, miles, kilometers, or strokes
@@ -342,7 +611,7 @@ export class WaterRower extends EventEmitter {
             case Units.Strokes: value += 'ST'; break;
             default: throw 'units must be meters, miles, kilometers, or strokes';
         }
-        this.send(value);
+        this.sendCommand(value, { priority: CONTROL_PRIORITY, isResponse: isAcknowledgement });
     }
 
     /// change the intensity display
@@ -356,7 +625,7 @@ export class WaterRower extends EventEmitter {
             case DisplaySetIntensity.Watts: value += 'WA'; break;
             case DisplaySetIntensity.CaloriesPerHour: value += 'CH'; break;
         }
-        this.send(value);
+        this.sendCommand(value, { priority: CONTROL_PRIORITY, isResponse: isAcknowledgement });
     }
 
     /// change the average intensity display
@@ -369,6 +638,6 @@ export class WaterRower extends EventEmitter {
             case AverageIntensityDisplayOptions._2km: value += '2KM'; break;
             default: throw 'units must be meters, miles, kilometers, or strokes';
         }
-        this.send(value);
+        this.sendCommand(value, { priority: CONTROL_PRIORITY, isResponse: isAcknowledgement });
     }
 }
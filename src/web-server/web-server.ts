@@ -7,15 +7,23 @@ import express, {
 import { createServer as createHttpServer, Server as HttpServer } from 'http';
 import { createServer as createHttpsServer, Server as HttpsServer } from 'https';
 import { Server as SocketIOServer } from 'socket.io';
+import { auditTime } from 'rxjs';
 import path from 'path';
 import { networkInterfaces } from 'os';
 
 import { TrainingSessionEvents } from '../training/training-session-events';
 import { WaterRowerEvents } from '../waterrower-serial/waterrower-events';
-import { HeartRateMonitorEvents } from '../ble/heart-rate-monitor-events';
+import { HeartRateScannerEvents } from '../ble/heart-rate-scanner-events';
+import { HeartRateSourceManagerEvents } from '../heart-rate/heart-rate-source-manager-events';
+import { BleBridgeEvents } from '../ble/ble-bridge-events';
 import { readdirSync, statSync, readFileSync, existsSync } from 'fs';
 
-import { HeartRateMonitor } from '../ble/heart-rate-monitor';
+import { DiscoveredDevice, HeartRateScanner } from '../ble/heart-rate-scanner';
+import { HeartRateSourceManager } from '../heart-rate/heart-rate-source-manager';
+import { HeartRateSourceInfo } from '../heart-rate/heart-rate-source';
+import { BrowserHeartRateSample } from '../heart-rate/browser-heart-rate-source';
+import { BleBridge } from '../ble/ble-bridge';
+import { OpCodeResut } from '../ble/ftms/IndoorBike/indoor-bike-data';
 import { FitFileGenerator } from '../fit/fit-file-generator';
 import {
     GarminUploader,
@@ -26,31 +34,54 @@ import {
     TrainingSession,
 } from '../training/training-session';
 import { WaterRower } from '../waterrower-serial/waterrower-serial';
+import { StrokeData } from '../waterrower-serial/stroke-data';
+import { RowerDataSource } from '../rower/rower-data-source';
+import { FtmsRowerClient } from '../ble/ftms-rower-client';
 import { ConfigManager } from '../helper/config-manager';
 
 const logger = debug('WEB_SERVER');
 
+// ms between the paddle speeds sent to the web UI
+const PADDLE_SPEED_INTERVAL = 250;
+
 export interface WebServerOptions {
-    waterRower: WaterRower;
-    heartRateMonitor: HeartRateMonitor;
+    waterRower: RowerDataSource;
+    heartRateSources: HeartRateSourceManager;
+    heartRateScanner: HeartRateScanner;
     configManager: ConfigManager;
+    bleBridge?: BleBridge;
+}
+
+/// heart rate sample posted by the web UI, every field is validated before use
+interface BrowserHRMSampleBody {
+    deviceId?: unknown;
+    deviceName?: unknown;
+    heartRate?: unknown;
+    rrIntervals?: unknown;
+    sensorContact?: unknown;
+    energyExpended?: unknown;
+    batteryLevel?: unknown;
 }
 
 export class WebServer {
     private app: express.Application;
     private httpServer: HttpServer | HttpsServer | null = null;
     private io: SocketIOServer;
-    private waterRower: WaterRower;
-    private heartRateMonitor: HeartRateMonitor;
+    private waterRower: RowerDataSource;
+    private heartRateSources: HeartRateSourceManager;
+    private heartRateScanner: HeartRateScanner;
     private currentSession: TrainingSession | null;
     private fitGenerator: FitFileGenerator;
     private garminUploader: GarminUploader;
     private configManager: ConfigManager;
+    private bleBridge: BleBridge | null;
 
     constructor(options: WebServerOptions) {
         this.waterRower = options.waterRower;
-        this.heartRateMonitor = options.heartRateMonitor;
+        this.heartRateSources = options.heartRateSources;
+        this.heartRateScanner = options.heartRateScanner;
         this.configManager = options.configManager;
+        this.bleBridge = options.bleBridge ?? null;
         this.currentSession = null;
         this.garminUploader = new GarminUploader();
         this.fitGenerator = new FitFileGenerator(options.configManager);
@@ -90,6 +121,10 @@ export class WebServer {
         this.setupRoutes();
         this.setupSocketIO();
         this.setupDeviceEventListeners();
+
+        if (this.bleBridge) {
+            this.setupBleControl(this.bleBridge);
+        }
     }
 
     private setupSessionEventListeners(session: TrainingSession): void {
@@ -119,6 +154,10 @@ export class WebServer {
             this.io.emit('session:datapoint', dataPoint);
         });
 
+        session.on(TrainingSessionEvents.STROKE, (stroke: StrokeData) => {
+            this.io.emit('session:stroke', stroke);
+        });
+
         session.on(TrainingSessionEvents.ERROR, (error) => {
             logger('Session error:', error);
             this.io.emit('session:error', { error: error.message });
@@ -129,9 +168,17 @@ export class WebServer {
         // Listen to WaterRower lifecycle events
         this.waterRower.on(WaterRowerEvents.INITIALIZED, () => {
             logger('WaterRower initialized');
+            // remember the FTMS rower found by the discovery
+            if (this.waterRower instanceof FtmsRowerClient) {
+                const deviceId = this.waterRower.getDeviceId();
+                if (deviceId && this.configManager.getFtmsRowerDevice()?.id !== deviceId) {
+                    this.configManager.setFtmsRowerDevice(deviceId, this.waterRower.getDeviceName());
+                }
+            }
             this.emitWaterRowerStatus();
         });
 
+        // closed on request, a lost connection is reconnected while the session keeps running
         this.waterRower.on(WaterRowerEvents.CLOSE, () => {
             logger('WaterRower connection closed');
             this.emitWaterRowerStatus();
@@ -142,28 +189,77 @@ export class WebServer {
             }
         });
 
+        this.waterRower.on(WaterRowerEvents.STATE_CHANGED, () => {
+            this.emitWaterRowerStatus();
+        });
+
+        // the S4 reports the paddle every 25ms, the web UI is updated a few times a second
+        if (this.waterRower instanceof WaterRower) {
+            this.waterRower.paddleSpeed$
+                .pipe(auditTime(PADDLE_SPEED_INTERVAL))
+                .subscribe(speed => this.io.emit('waterrower:paddleSpeed', { speed }));
+        }
+
         this.waterRower.on(WaterRowerEvents.ERROR, (error) => {
             logger('WaterRower error:', error);
             this.io.emit('waterrower:error', { error: error.message });
             this.emitWaterRowerStatus();
         });
 
-        // Listen to HeartRateMonitor lifecycle events
-        this.heartRateMonitor.on(HeartRateMonitorEvents.CONNECTED, () => {
-            logger('HeartRateMonitor connected');
+        // Listen to heart rate source lifecycle events
+        this.heartRateSources.on(HeartRateSourceManagerEvents.PRIMARY_CHANGED, (primary: HeartRateSourceInfo | null) => {
+            logger(`Heart rate source: ${primary?.name ?? 'none'}`);
             this.emitHRMStatus();
         });
 
-        this.heartRateMonitor.on(HeartRateMonitorEvents.DISCONNECTED, () => {
-            logger('HeartRateMonitor disconnected');
+        this.heartRateSources.on(HeartRateSourceManagerEvents.SOURCES_UPDATED, () => {
             this.emitHRMStatus();
         });
 
-        this.heartRateMonitor.on(HeartRateMonitorEvents.ERROR, (error) => {
-            logger('HeartRateMonitor error:', error);
+        this.heartRateSources.on(HeartRateSourceManagerEvents.ERROR, (error) => {
+            logger('Heart rate source error:', error);
             this.io.emit('hrm:error', { error: error.message });
             this.emitHRMStatus();
         });
+
+        this.heartRateSources.on(HeartRateSourceManagerEvents.BATTERY_LOW, (source: HeartRateSourceInfo) => {
+            logger(`${source.name} battery low: ${source.batteryLevel}%`);
+            this.io.emit('hrm:warning', { warning: `${source.name} battery low (${source.batteryLevel}%)` });
+            this.emitHRMStatus();
+        });
+
+        this.heartRateSources.on(HeartRateSourceManagerEvents.SENSOR_CONTACT_LOST, (source: HeartRateSourceInfo) => {
+            logger(`${source.name} lost skin contact`);
+            this.io.emit('hrm:warning', { warning: `${source.name} lost skin contact` });
+            this.emitHRMStatus();
+        });
+
+        this.heartRateScanner.on(HeartRateScannerEvents.DISCOVERY_STARTED, () => {
+            this.io.emit('hrm:discovery', { scanning: true });
+        });
+
+        this.heartRateScanner.on(HeartRateScannerEvents.DISCOVERY_STOPPED, () => {
+            this.io.emit('hrm:discovery', { scanning: false });
+        });
+
+        this.heartRateScanner.on(HeartRateScannerEvents.DEVICE_DISCOVERED, (device: DiscoveredDevice) => {
+            this.io.emit('hrm:device', device);
+        });
+
+        // Listen to BLE peripheral lifecycle events
+        if (this.bleBridge) {
+            this.bleBridge.on(BleBridgeEvents.STATE_CHANGED, () => this.emitBleStatus());
+            this.bleBridge.on(BleBridgeEvents.ADVERTISING_STARTED, () => this.emitBleStatus());
+            this.bleBridge.on(BleBridgeEvents.ADVERTISING_STOPPED, () => this.emitBleStatus());
+            this.bleBridge.on(BleBridgeEvents.CENTRAL_CONNECTED, () => this.emitBleStatus());
+            this.bleBridge.on(BleBridgeEvents.CENTRAL_DISCONNECTED, () => this.emitBleStatus());
+            this.bleBridge.on(BleBridgeEvents.CENTRALS_UPDATED, () => this.emitBleCentrals());
+            this.bleBridge.on(BleBridgeEvents.ERROR, (error) => {
+                logger('BLE bridge error:', error);
+                this.io.emit('ble:error', { error: error.message });
+                this.emitBleStatus();
+            });
+        }
     }
 
     private setupMiddleware(): void {
@@ -209,17 +305,35 @@ export class WebServer {
         this.app.get('/api/fit-files/:filename', (req, res) => { this.handleDownloadFitFile(req, res); });
 
         // Heart Rate Monitor (HRM) endpoints used by the web UI - delegate to handlers
-        this.app.get('/api/hrm/discover', (req, res) => { this.handleDiscoverHRM(req, res); });
+        this.app.get('/api/hrm/devices', (req, res) => { this.handleGetHRMDevices(req, res); });
+        this.app.post('/api/hrm/discover/start', (req, res) => { this.handleStartHRMDiscovery(req, res); });
+        this.app.post('/api/hrm/discover/stop', (req, res) => { this.handleStopHRMDiscovery(req, res); });
         this.app.post('/api/hrm/connect', (req, res) => { this.handleConnectHRM(req, res); });
         this.app.post('/api/hrm/disconnect', (req, res) => { this.handleDisconnectHRM(req, res); });
+        this.app.post('/api/hrm/browser/sample', (req, res) => { this.handleBrowserHRMSample(req, res); });
+        this.app.post('/api/hrm/browser/disconnect', (req, res) => { this.handleBrowserHRMDisconnect(req, res); });
+        this.app.get('/api/hrm/sources', (req, res) => { this.handleGetHRMSources(req, res); });
+        this.app.post('/api/hrm/sources/priority', (req, res) => { this.handleSetHRMSourcePriority(req, res); });
+        this.app.post('/api/hrm/sources/remove', (req, res) => { this.handleRemoveHRMSource(req, res); });
+        this.app.get('/api/hrm/battery-threshold', (req, res) => { this.handleGetHRMBatteryThreshold(req, res); });
+        this.app.post('/api/hrm/battery-threshold', (req, res) => { this.handleSetHRMBatteryThreshold(req, res); });
 
         // WaterRower connection endpoints used by the web UI - delegate to handlers
         this.app.post('/api/waterrower/connect', (req, res) => { this.handleConnectWaterRower(req, res); });
+        this.app.get('/api/waterrower/statistics', (req, res) => { this.handleGetWaterRowerStatistics(req, res); });
+        this.app.get('/api/waterrower/registers', (req, res) => { this.handleGetWaterRowerRegisters(req, res); });
+
+        // BLE peripheral status
+        this.app.get('/api/ble/status', (req, res) => { this.handleGetBleStatus(req, res); });
+        this.app.get('/api/ble/centrals', (req, res) => { this.handleGetBleCentrals(req, res); });
+        this.app.post('/api/ble/centrals/disconnect', (req, res) => { this.handleDisconnectBleCentral(req, res); });
 
         // Session mode configuration endpoints
         this.app.get('/api/session/mode', (req, res) => { this.handleGetSessionMode(req, res); });
         this.app.post('/api/session/mode', (req, res) => { this.handleSetSessionMode(req, res); });
         this.app.get('/api/recordings', (req, res) => { this.handleListRecordings(req, res); });
+        this.app.get('/api/session/power-model', (req, res) => { this.handleGetPowerModel(req, res); });
+        this.app.post('/api/session/power-model', (req, res) => { this.handleSetPowerModel(req, res); });
 
         // Serve the web UI
         this.app.get('/', (req, res) => { res.sendFile(path.resolve(path.join('www-root', 'index.html'))); });
@@ -234,9 +348,34 @@ export class WebServer {
             this.emitHRMStatus();
             this.emitWaterRowerStatus();
             this.emitGarminStatus();
+            this.emitBleStatus();
+            this.emitBleCentrals();
+
+            // heart rate straps connected to this client with Web Bluetooth
+            const browserDevices = new Set<string>();
+            socket.on('hrm:browser:sample', (body, ack?: (result: { success: boolean; error?: string }) => void) => {
+                const result = this.ingestBrowserHRMSample(body);
+                if (result.success) {
+                    browserDevices.add(body.deviceId);
+                }
+                // the acknowledgement is optional, a client may send anything in its place
+                if (typeof ack === 'function') {
+                    ack({ success: result.success, error: result.error });
+                }
+            });
+
+            socket.on('hrm:browser:disconnect', (body) => {
+                const deviceId = body?.deviceId;
+                if (typeof deviceId === 'string' && browserDevices.delete(deviceId)) {
+                    this.heartRateSources.disconnectBrowserDeviceAsync(deviceId)
+                        .catch(error => logger(`Failed to disconnect browser HRM ${deviceId}:`, error));
+                }
+            });
 
             socket.on('disconnect', () => {
                 logger(`Client disconnected: ${socket.id}`);
+                browserDevices.forEach(deviceId => this.heartRateSources.disconnectBrowserDeviceAsync(deviceId)
+                    .catch(error => logger(`Failed to disconnect browser HRM ${deviceId}:`, error)));
             });
         });
     }
@@ -257,10 +396,17 @@ export class WebServer {
 
     private emitHRMStatus(): void {
         try {
-            const connected = this.heartRateMonitor.isConnected();
-            const deviceName = this.heartRateMonitor.getDeviceName();
-            const batteryLevel = this.heartRateMonitor.getBatteryLevel();
-            this.io.emit('hrm:updated', { connected, deviceName, batteryLevel });
+            // the summary describes the primary source, the list every registered one
+            const sources = this.heartRateSources.getSources();
+            const primary = this.heartRateSources.getPrimary();
+            const connected = primary != null;
+            const deviceName = primary?.name ?? '';
+            const batteryLevel = primary?.batteryLevel ?? null;
+            const lowBattery = primary?.lowBattery ?? false;
+            const sensorContact = primary?.sensorContact ?? null;
+            const reconnecting = !connected && sources.some(s => s.reconnecting);
+            const source = primary?.id ?? null;
+            this.io.emit('hrm:updated', { connected, deviceName, batteryLevel, lowBattery, sensorContact, reconnecting, source, sources });
         } catch (error: any) {
             logger('Error emitting HRM status:', error);
         }
@@ -269,13 +415,38 @@ export class WebServer {
     private emitWaterRowerStatus(): void {
         try {
             const connected = this.waterRower.isConnected();
-            const deviceName = 'Waterrower';
-            this.io.emit('waterrower:updated', { connected, deviceName });
+            const deviceName = this.waterRower.getDeviceName();
+            const state = this.waterRower.getConnectionState();
+            this.io.emit('waterrower:updated', { connected, deviceName, state });
         } catch (error: any) {
             logger('Error emitting WaterRower status:', error);
         }
     }
 
+    private emitBleStatus(): void {
+        if (!this.bleBridge) {
+            return;
+        }
+
+        try {
+            this.io.emit('ble:updated', this.bleBridge.getStatus());
+        } catch (error: any) {
+            logger('Error emitting BLE status:', error);
+        }
+    }
+
+    private emitBleCentrals(): void {
+        if (!this.bleBridge) {
+            return;
+        }
+
+        try {
+            this.io.emit('ble:centrals', { centrals: this.bleBridge.getCentrals() });
+        } catch (error: any) {
+            logger('Error emitting BLE centrals:', error);
+        }
+    }
+
     private emitGarminStatus(): void {
         const credentials = this.configManager.getGarminCredentials();
         this.io.emit('garmin:updated', {
@@ -307,15 +478,7 @@ export class WebServer {
 
             logger(`Starting new training session in ${sessionMode} mode...`);
 
-            // Create session with configManager
-            this.currentSession = new TrainingSession(
-                this.waterRower,
-                this.heartRateMonitor,
-                this.configManager
-            );
-
-            // Setup event listeners for the new session
-            this.setupSessionEventListeners(this.currentSession);
+            this.currentSession = this.createSession();
 
             // Handle replay mode
             if (sessionMode === 'replay') {
@@ -331,6 +494,9 @@ export class WebServer {
                 await this.currentSession.start();
 
                 // Then start playback
+                if (!this.waterRower.playRecording) {
+                    throw new Error(`Replay is not supported by ${this.waterRower.getDeviceName()}`);
+                }
                 logger(`Starting playback of recording: ${recordingFile}`);
                 await this.waterRower.playRecording(recordingFile);
             } else {
@@ -358,38 +524,7 @@ export class WebServer {
                 return;
             }
 
-            logger('Stopping training session...');
-            const dataPoints = this.currentSession.stop();
-            const summary = this.currentSession.getSummary();
-
-            // Generate FIT file
-            const fitFilePath = this.fitGenerator.generateFitFile(
-                summary,
-                dataPoints,
-            );
-
-            const response = {
-                success: true,
-                summary,
-                dataPoints: dataPoints.length
-            };
-
-            // Auto-upload to Garmin if configured
-            const garminCredentials = this.configManager.getGarminCredentials();
-            if (garminCredentials && req.body.autoUpload !== false) {
-                try {
-                    if (!this.garminUploader.isLoggedIn()) {
-                        await this.garminUploader.login(garminCredentials);
-                    }
-
-                    await this.garminUploader.uploadActivity(fitFilePath);
-                } catch (error: any) {
-                    logger('Auto-upload to Garmin failed:', error);
-                    response.success = false;
-                }
-            }
-
-            this.currentSession.disconnectPeripherals();
+            const response = await this.finishSessionAsync(this.currentSession, req.body.autoUpload !== false);
             res.json(response);
         } catch (error: any) {
             logger('Error stopping session:', error);
@@ -399,6 +534,135 @@ export class WebServer {
         }
     }
 
+    private createSession(): TrainingSession {
+        // Create session with configManager
+        const session = new TrainingSession(
+            this.waterRower,
+            this.heartRateSources,
+            this.configManager
+        );
+
+        // Setup event listeners for the new session
+        this.setupSessionEventListeners(session);
+        this.bleBridge?.attachSession(session);
+
+        return session;
+    }
+
+    /**
+     * Stop the session, generate the FIT file and upload it to Garmin Connect if configured
+     */
+    private async finishSessionAsync(session: TrainingSession, autoUpload: boolean) {
+        const { summary, dataPoints, fitFilePath } = this.saveSession(session);
+
+        const response = {
+            success: true,
+            summary,
+            dataPoints,
+        };
+
+        if (autoUpload) {
+            response.success = await this.uploadToGarminAsync(fitFilePath);
+        }
+
+        session.disconnectPeripherals();
+        return response;
+    }
+
+    /**
+     * Stop the session and generate the FIT file
+     */
+    private saveSession(session: TrainingSession) {
+        logger('Stopping training session...');
+        const dataPoints = session.stop();
+        const summary = session.getSummary();
+
+        // Generate FIT file
+        const fitFilePath = this.fitGenerator.generateFitFile(
+            summary,
+            dataPoints,
+        );
+
+        return { summary, dataPoints: dataPoints.length, fitFilePath };
+    }
+
+    /// false if the upload failed, true if it succeeded or no Garmin account is configured
+    private async uploadToGarminAsync(fitFilePath: string): Promise<boolean> {
+        const garminCredentials = this.configManager.getGarminCredentials();
+        if (!garminCredentials) {
+            return true;
+        }
+
+        try {
+            if (!this.garminUploader.isLoggedIn()) {
+                await this.garminUploader.login(garminCredentials);
+            }
+
+            await this.garminUploader.uploadActivity(fitFilePath);
+            return true;
+        } catch (error: any) {
+            logger('Auto-upload to Garmin failed:', error);
+            return false;
+        }
+    }
+
+    private setupBleControl(bleBridge: BleBridge): void {
+        // Map the FTMS control point procedures requested by apps like Zwift or Kinomap to the training session
+        bleBridge.setControlHandler({
+            startOrResume: async () => {
+                if (this.currentSession?.getState() === SessionState.ACTIVE) {
+                    return OpCodeResut.Success;
+                }
+
+                if (this.currentSession?.getState() === SessionState.PAUSED) {
+                    this.currentSession.resume();
+                    return OpCodeResut.Success;
+                }
+
+                // replay needs a recording selected in the web UI and can not be started remotely
+                if (this.configManager.getSessionMode() === 'replay' || !this.waterRower.isConnected()) {
+                    return OpCodeResut.OperationFailed;
+                }
+
+                logger('Starting new training session requested via BLE...');
+                this.currentSession = this.createSession();
+                await this.currentSession.start();
+                return OpCodeResut.Success;
+            },
+            pause: async () => {
+                if (this.currentSession?.getState() !== SessionState.ACTIVE) {
+                    return OpCodeResut.OperationFailed;
+                }
+
+                this.currentSession.pause();
+                return OpCodeResut.Success;
+            },
+            stop: async () => {
+                const state = this.currentSession?.getState();
+                if (this.currentSession == null || (state !== SessionState.ACTIVE && state !== SessionState.PAUSED)) {
+                    return OpCodeResut.OperationFailed;
+                }
+
+                logger('Stopping training session requested via BLE...');
+                const { fitFilePath } = this.saveSession(this.currentSession);
+                // the session stopped whatever the upload does, and the rower and the heart rate sources
+                // stay connected so the app can start the next session
+                void this.uploadToGarminAsync(fitFilePath);
+                return OpCodeResut.Success;
+            },
+            reset: async () => {
+                // never drop a running workout because an app resets the machine on connect
+                const state = this.currentSession?.getState();
+                if (state === SessionState.ACTIVE || state === SessionState.PAUSED) {
+                    return OpCodeResut.OperationFailed;
+                }
+
+                this.waterRower.reset();
+                return OpCodeResut.Success;
+            },
+        });
+    }
+
     private handlePauseSession(req: Request, res: Response): void {
         try {
             if (!this.currentSession) {
@@ -457,13 +721,31 @@ export class WebServer {
         }
     }
 
-    private async handleDiscoverHRM(req: Request, res: Response): Promise<void> {
+    private handleGetHRMDevices(req: Request, res: Response): void {
+        res.json({
+            scanning: this.heartRateScanner.isDiscovering(),
+            devices: this.heartRateScanner.getDiscoveredDevices(),
+        });
+    }
+
+    private async handleStartHRMDiscovery(req: Request, res: Response): Promise<void> {
         try {
-            const devices = await this.heartRateMonitor.discoverAsync();
-            res.status(200).json(devices);
-        } catch (error) {
-            console.error('Error discovering HRM devices:', error);
-            res.status(500).json({ message: 'Error discovering HRM devices' });
+            // the devices are streamed with hrm:device while the scan is running
+            await this.heartRateScanner.startDiscoveryAsync();
+            res.json({ success: true, devices: this.heartRateScanner.getDiscoveredDevices() });
+        } catch (error: any) {
+            logger('Error starting HRM discovery:', error);
+            res.status(500).json({ success: false, error: error.message || 'Failed to start discovery' });
+        }
+    }
+
+    private async handleStopHRMDiscovery(req: Request, res: Response): Promise<void> {
+        try {
+            await this.heartRateScanner.stopDiscoveryAsync();
+            res.json({ success: true, devices: this.heartRateScanner.getDiscoveredDevices() });
+        } catch (error: any) {
+            logger('Error stopping HRM discovery:', error);
+            res.status(500).json({ success: false, error: error.message || 'Failed to stop discovery' });
         }
     }
 
@@ -475,11 +757,10 @@ export class WebServer {
                 return;
             }
 
-            await this.heartRateMonitor.connectAsync(deviceId);
-
             // Save device selection to config
             const name = deviceName || 'Unknown Device';
-            this.configManager.setHRMDevice(deviceId, name);
+            await this.heartRateSources.connectBleDeviceAsync(deviceId, name);
+            this.configManager.addHRMDevice(deviceId, name);
             logger(`HRM device saved to config: ${name}`);
 
             res.json({ success: true });
@@ -490,20 +771,146 @@ export class WebServer {
 
     private handleDisconnectHRM(req: Request, res: Response): void {
         try {
-            this.heartRateMonitor.disconnectAsync();
+            // without device every source is disconnected
+            const { deviceId } = req.body || {};
+            if (deviceId) {
+                this.heartRateSources.disconnectBleDeviceAsync(deviceId)
+                    .catch(error => logger(`Failed to disconnect HRM ${deviceId}:`, error));
+            } else {
+                this.heartRateSources.disconnectAllAsync()
+                    .catch(error => logger('Failed to disconnect the HRMs:', error));
+            }
+            // a pending reconnection is cancelled without DISCONNECTED event
+            this.emitHRMStatus();
             res.json({ success: true });
         } catch (error: any) {
             res.status(500).json({ success: false, error: error.message || 'Failed to disconnect' });
         }
     }
 
+    private handleBrowserHRMSample(req: Request, res: Response): void {
+        const { status, success, error } = this.ingestBrowserHRMSample(req.body);
+        res.status(status).json({ success, error });
+    }
+
+    private async handleBrowserHRMDisconnect(req: Request, res: Response): Promise<void> {
+        const { deviceId } = req.body || {};
+        if (typeof deviceId !== 'string' || !deviceId) {
+            res.status(400).json({ success: false, error: 'deviceId required' });
+            return;
+        }
+
+        await this.heartRateSources.disconnectBrowserDeviceAsync(deviceId);
+        res.json({ success: true });
+    }
+
+    /// validates a heart rate sample captured by the web UI and feeds it into the heart rate sources
+    private ingestBrowserHRMSample(body: unknown): { status: number; success: boolean; error?: string } {
+        const { deviceId, deviceName, heartRate, rrIntervals, sensorContact, energyExpended, batteryLevel } = (body ?? {}) as BrowserHRMSampleBody;
+        if (typeof deviceId !== 'string' || !deviceId) {
+            return { status: 400, success: false, error: 'deviceId required' };
+        }
+        if (typeof heartRate !== 'number' || !Number.isInteger(heartRate) || heartRate < 0 || heartRate > 255) {
+            return { status: 400, success: false, error: 'heartRate must be an integer between 0 and 255' };
+        }
+        if (rrIntervals != null && (!Array.isArray(rrIntervals) || !rrIntervals.every(rr => typeof rr === 'number' && rr > 0 && rr < 65536))) {
+            return { status: 400, success: false, error: 'rrIntervals must be an array of intervals in ms' };
+        }
+        if (sensorContact != null && typeof sensorContact !== 'boolean') {
+            return { status: 400, success: false, error: 'sensorContact must be a boolean' };
+        }
+        if (energyExpended != null && typeof energyExpended !== 'number') {
+            return { status: 400, success: false, error: 'energyExpended must be a number' };
+        }
+        if (batteryLevel != null && (typeof batteryLevel !== 'number' || batteryLevel < 0 || batteryLevel > 100)) {
+            return { status: 400, success: false, error: 'batteryLevel must be between 0 and 100' };
+        }
+
+        const sample: BrowserHeartRateSample = {
+            heartRate,
+            rrIntervals: rrIntervals as Array<number> | undefined,
+            sensorContact: sensorContact as boolean | undefined,
+            energyExpended: energyExpended as number | undefined,
+            batteryLevel: batteryLevel as number | undefined,
+        };
+        const name = typeof deviceName === 'string' && deviceName ? deviceName : 'Browser Heart Rate';
+        try {
+            if (!this.heartRateSources.pushBrowserSample(deviceId, name, sample)) {
+                return { status: 429, success: false, error: 'Too many samples' };
+            }
+        } catch (error) {
+            // every browser strap is streaming, a new one is a conflict rather than a rate limit
+            return { status: 409, success: false, error: (error as Error).message };
+        }
+        return { status: 200, success: true };
+    }
+
+    private handleGetHRMSources(req: Request, res: Response): void {
+        res.json({
+            source: this.heartRateSources.getPrimary()?.id ?? null,
+            sources: this.heartRateSources.getSources(),
+        });
+    }
+
+    private handleSetHRMSourcePriority(req: Request, res: Response): void {
+        const { ids } = req.body || {};
+        if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+            res.status(400).json({ success: false, error: 'ids must be an array of source ids' });
+            return;
+        }
+
+        this.heartRateSources.setPriorities(ids);
+        // the straps are reconnected in this order on the next start
+        const deviceIds = this.heartRateSources.getSources()
+            .map(s => HeartRateSourceManager.bleDeviceId(s.id))
+            .filter((id): id is string => id != null);
+        this.configManager.setHRMDeviceOrder(deviceIds);
+        res.json({ success: true, sources: this.heartRateSources.getSources() });
+    }
+
+    private async handleRemoveHRMSource(req: Request, res: Response): Promise<void> {
+        try {
+            const { id } = req.body || {};
+            if (typeof id !== 'string' || !id) {
+                res.status(400).json({ success: false, error: 'id required' });
+                return;
+            }
+
+            await this.heartRateSources.removeSourceAsync(id);
+            const deviceId = HeartRateSourceManager.bleDeviceId(id);
+            if (deviceId != null) {
+                this.configManager.removeHRMDevice(deviceId);
+            }
+            res.json({ success: true, sources: this.heartRateSources.getSources() });
+        } catch (error: any) {
+            res.status(500).json({ success: false, error: error.message || 'Failed to remove source' });
+        }
+    }
+
+    private handleGetHRMBatteryThreshold(req: Request, res: Response): void {
+        res.json({ threshold: this.configManager.getHRMLowBatteryThreshold() });
+    }
+
+    private handleSetHRMBatteryThreshold(req: Request, res: Response): void {
+        const { threshold } = req.body || {};
+        if (typeof threshold !== 'number' || !Number.isInteger(threshold) || threshold < 0 || threshold > 100) {
+            res.status(400).json({ success: false, error: 'threshold must be an integer between 0 and 100' });
+            return;
+        }
+
+        this.configManager.setHRMLowBatteryThreshold(threshold);
+        this.heartRateSources.setLowBatteryThreshold(threshold);
+        this.emitHRMStatus();
+        res.json({ success: true, threshold });
+    }
+
     private async handleConnectWaterRower(req: Request, res: Response): Promise<void> {
         try {
-            this.waterRower.connectSerial();
+            this.waterRower.connect();
             const success = this.waterRower.isConnected();
 
             // Save the port to config if connected
-            if (success) {
+            if (success && this.waterRower instanceof WaterRower) {
                 const port = this.waterRower.getPortName();
                 if (port) {
                     this.configManager.setWaterRowerPort(port);
@@ -517,6 +924,62 @@ export class WebServer {
         }
     }
 
+    private handleGetWaterRowerStatistics(req: Request, res: Response): void {
+        if (!(this.waterRower instanceof WaterRower)) {
+            res.status(404).json({ error: 'Command statistics are only available for the serial connection' });
+            return;
+        }
+
+        res.json(this.waterRower.getCommandStatistics());
+    }
+
+    private handleGetWaterRowerRegisters(req: Request, res: Response): void {
+        if (!(this.waterRower instanceof WaterRower)) {
+            res.status(404).json({ error: 'Registers are only available for the serial connection' });
+            return;
+        }
+
+        res.json({ registers: this.waterRower.getRegisterSnapshot(), metrics: this.waterRower.getMetrics() });
+    }
+
+    private handleGetBleStatus(req: Request, res: Response): void {
+        if (!this.bleBridge) {
+            res.status(404).json({ error: 'BLE peripheral is not enabled' });
+            return;
+        }
+
+        res.json(this.bleBridge.getStatus());
+    }
+
+    private handleGetBleCentrals(req: Request, res: Response): void {
+        if (!this.bleBridge) {
+            res.status(404).json({ error: 'BLE peripheral is not enabled' });
+            return;
+        }
+
+        res.json({ centrals: this.bleBridge.getCentrals() });
+    }
+
+    private handleDisconnectBleCentral(req: Request, res: Response): void {
+        if (!this.bleBridge) {
+            res.status(404).json({ success: false, error: 'BLE peripheral is not enabled' });
+            return;
+        }
+
+        const { address } = req.body ?? {};
+        if (!address) {
+            res.status(400).json({ success: false, error: 'Address is required' });
+            return;
+        }
+
+        if (!this.bleBridge.disconnectCentral(address)) {
+            res.status(404).json({ success: false, error: `Central ${address} is not connected` });
+            return;
+        }
+
+        res.json({ success: true });
+    }
+
     private handleListFitFiles(req: Request, res: Response): void {
         try {
             const fitFilesDir = this.configManager.getFitFilesDirectory();
@@ -582,6 +1045,22 @@ export class WebServer {
         }
     }
 
+    private handleGetPowerModel(req: Request, res: Response): void {
+        res.json({ powerModel: this.configManager.getPowerModel() });
+    }
+
+    /// applies to the sessions started afterwards
+    private handleSetPowerModel(req: Request, res: Response): void {
+        const { powerModel } = req.body || {};
+        if (powerModel !== 'formula' && powerModel !== 'physics') {
+            res.status(400).json({ success: false, error: 'powerModel must be formula or physics' });
+            return;
+        }
+
+        this.configManager.setPowerModel(powerModel);
+        res.json({ success: true, powerModel });
+    }
+
     private handleSetSessionMode(req: Request, res: Response): void {
         try {
             const { mode, recordingFile } = req.body;
@@ -606,7 +1085,7 @@ export class WebServer {
 
     private handleListRecordings(req: Request, res: Response): void {
         try {
-            const recordings = this.waterRower.getRecordings();
+            const recordings = this.waterRower.getRecordings?.() ?? [];
             res.json({ recordings });
         } catch (error: any) {
             logger('Error listing recordings:', error);
@@ -3,12 +3,21 @@ const socket = io();
 
 let selectedHRM = null;
 let hrmDevices = [];
+let hrmSources = [];
+// strap connected to this browser with Web Bluetooth, its samples are pushed to the server
+let browserHRM = null;
 
 // Initialize
 document.addEventListener('DOMContentLoaded', () => {
     checkGarminStatus();
     setupSocketListeners();
     loadSessionMode();
+    loadPowerModel();
+
+    // Web Bluetooth is only available in secure contexts of supporting browsers
+    if (navigator.bluetooth) {
+        document.getElementById('btnBrowserHRM').classList.remove('hidden');
+    }
 });
 
 // Toggle configuration menu
@@ -45,11 +54,39 @@ function setupSocketListeners() {
         }
     });
 
+    // Speed of the paddle from the pulse frames of the S4, a few times a second
+    socket.on('waterrower:paddleSpeed', (data) => {
+        document.getElementById('paddleSpeedValue').textContent = data.speed.toFixed(1);
+    });
+
+    // Strokes detected from the stroke start and end frames of the S4
+    socket.on('session:stroke', (stroke) => {
+        if (stroke) {
+            const driveTime = (stroke.driveTime / 1000).toFixed(1);
+            const recoveryTime = (stroke.recoveryTime / 1000).toFixed(1);
+            document.getElementById('strokeTimesValue').textContent = `${driveTime} / ${recoveryTime}`;
+            document.getElementById('strokeDistanceValue').textContent = stroke.distance > 0 ? stroke.distance.toFixed(2) : '--';
+        }
+    });
+
     // HRM status changes
     socket.on('hrm:updated', (data) => {
         updateHRMUI(data);
     });
 
+    // HRM discovery streams every strap as soon as it is seen
+    socket.on('hrm:discovery', (data) => {
+        updateHRMDiscoveryUI(data.scanning);
+    });
+
+    socket.on('hrm:device', (device) => {
+        addHRMDevice(device);
+    });
+
+    socket.on('hrm:warning', (data) => {
+        showHRMAlert('error', data.warning);
+    });
+
     // WaterRower status changes
     socket.on('waterrower:updated', (data) => {
         updateWaterRowerUI(data);
@@ -60,6 +97,15 @@ function setupSocketListeners() {
         updateGarminStatusUI(data);
     });
 
+    // BLE peripheral status changes
+    socket.on('ble:updated', (data) => {
+        updateBleUI(data);
+    });
+
+    socket.on('ble:centrals', (data) => {
+        updateBleCentralsUI(data);
+    });
+
     // Server shutdown notification
     socket.on('server:shutdown', () => {
         console.log('Server is shutting down');
@@ -295,10 +341,15 @@ function updateHRMUI(data) {
     const hrmStatusText = document.getElementById('hrmStatusText');
     const hrmBattery = document.getElementById('hrmBattery');
 
+    updateHRMSourcesUI(data.sources || []);
+
     if (data.connected) {
-        hrmStatus.textContent = `Connected (${data.deviceName || 'HRM'})`;
+        hrmStatus.textContent = data.sensorContact === false
+            ? `No skin contact (${data.deviceName || 'HRM'})`
+            : `Connected (${data.deviceName || 'HRM'})`;
         hrmStatus.className = 'state-indicator state-active';
-        btnConnect.classList.add('hidden');
+        // another source can be added while connected
+        btnConnect.classList.toggle('hidden', selectedHRM == null);
         btnDisconnect.classList.remove('hidden');
         hrmStatusText.textContent = 'Connected';
         hrmStatusText.className = 'state-indicator state-connected';
@@ -309,7 +360,7 @@ function updateHRMUI(data) {
             let batteryColor = '#10b981'; // green
             let batteryIcon = '🔋';
 
-            if (batteryPercent <= 20) {
+            if (data.lowBattery) {
                 batteryColor = '#ef4444'; // red
                 batteryIcon = '🪫';
             } else if (batteryPercent <= 40) {
@@ -321,6 +372,14 @@ function updateHRMUI(data) {
         } else {
             hrmBattery.hidden = true;
         }
+    } else if (data.reconnecting) {
+        hrmStatus.textContent = 'Reconnecting...';
+        hrmStatus.className = 'state-indicator state-idle';
+        btnConnect.classList.add('hidden');
+        btnDisconnect.classList.remove('hidden');
+        hrmStatusText.textContent = 'Reconnecting...';
+        hrmStatusText.className = 'state-indicator state-disconnected';
+        hrmBattery.hidden = true;
     } else {
         hrmStatus.textContent = 'Disconnected';
         hrmStatus.className = 'state-indicator state-idle';
@@ -332,6 +391,77 @@ function updateHRMUI(data) {
     }
 }
 
+function updateHRMSourcesUI(sources) {
+    hrmSources = sources;
+    const listDiv = document.getElementById('hrmSourcesList');
+
+    // a single source needs no priorities
+    if (sources.length < 2) {
+        listDiv.innerHTML = '';
+        return;
+    }
+
+    listDiv.innerHTML = sources.map((source, index) => {
+        let state = source.connected ? 'Connected' : (source.reconnecting ? 'Reconnecting...' : 'Disconnected');
+        if (source.connected && source.sensorContact === false) {
+            state = 'No skin contact';
+        }
+        const battery = source.batteryLevel != null ? ` • ${source.lowBattery ? '🪫' : '🔋'} ${source.batteryLevel}%` : '';
+
+        return `
+            <div style="display: flex; justify-content: space-between; align-items: center; padding: 6px 0; border-bottom: 1px solid #e5e7eb;">
+                <div style="flex: 1;">
+                    <div style="font-weight: ${source.primary ? 600 : 500}; color: #333;">${index + 1}. ${source.name}${source.primary ? ' ❤️' : ''}</div>
+                    <div style="font-size: 0.85em; color: #666;">${state}${battery}</div>
+                </div>
+                <button class="btn-secondary" onclick="raiseHRMSourcePriority('${source.id}')" ${index === 0 ? 'disabled' : ''} style="flex:0; padding: 6px 12px; font-size: 0.9em;">▲</button>
+                <button class="btn-secondary" onclick="removeHRMSource('${source.id}')" style="flex:0; padding: 6px 12px; font-size: 0.9em;">Remove</button>
+            </div>
+        `;
+    }).join('');
+}
+
+async function raiseHRMSourcePriority(id) {
+    const ids = hrmSources.map(s => s.id);
+    const index = ids.indexOf(id);
+    if (index <= 0) {
+        return;
+    }
+    [ids[index - 1], ids[index]] = [ids[index], ids[index - 1]];
+
+    try {
+        const response = await fetch(`${API_BASE}/hrm/sources/priority`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ids })
+        });
+        const data = await response.json();
+        if (!data.success) {
+            showHRMAlert('error', data.error || 'Failed to change the priority');
+        }
+    } catch (error) {
+        console.error(error);
+        showHRMAlert('error', 'Error: ' + error.message);
+    }
+}
+
+async function removeHRMSource(id) {
+    try {
+        const response = await fetch(`${API_BASE}/hrm/sources/remove`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ id })
+        });
+        const data = await response.json();
+        if (!data.success) {
+            showHRMAlert('error', data.error || 'Failed to remove the source');
+        }
+    } catch (error) {
+        console.error(error);
+        showHRMAlert('error', 'Error: ' + error.message);
+    }
+}
+
 function updateWaterRowerUI(data) {
     const wrStatus = document.getElementById('wrStatus');
     const btnConnect = document.getElementById('btnConnectWR');
@@ -343,6 +473,14 @@ function updateWaterRowerUI(data) {
         btnConnect.disabled = true;
         wrStatusText.textContent = 'Connected';
         wrStatusText.className = 'state-indicator state-connected';
+    } else if (data.state && data.state !== 'disconnected') {
+        // connecting, initializing or reconnecting after the connection was lost
+        const text = data.state === 'error' ? 'Reconnecting...' : 'Connecting...';
+        wrStatus.textContent = text;
+        wrStatus.className = 'state-indicator state-idle';
+        btnConnect.disabled = true;
+        wrStatusText.textContent = text;
+        wrStatusText.className = 'state-indicator state-disconnected';
     } else {
         wrStatus.textContent = 'Disconnected';
         wrStatus.className = 'state-indicator state-idle';
@@ -352,6 +490,75 @@ function updateWaterRowerUI(data) {
     }
 }
 
+function updateBleUI(data) {
+    const bleStatusText = document.getElementById('bleStatusText');
+
+    if (data.centrals && data.centrals.length > 0) {
+        bleStatusText.textContent = `${data.centrals.length} connected`;
+        bleStatusText.className = 'state-indicator state-connected';
+    } else if (data.advertising) {
+        bleStatusText.textContent = `Advertising as ${data.deviceName}`;
+        bleStatusText.className = 'state-indicator state-connected';
+    } else {
+        bleStatusText.textContent = data.state === 'poweredOn' ? 'Idle' : 'Off';
+        bleStatusText.className = 'state-indicator state-disconnected';
+    }
+}
+
+function updateBleCentralsUI(data) {
+    const listDiv = document.getElementById('bleCentralsList');
+
+    if (!data.centrals || data.centrals.length === 0) {
+        listDiv.innerHTML = '<p style="text-align: center; color: #666;">No clients connected</p>';
+        return;
+    }
+
+    listDiv.innerHTML = data.centrals.map(central => {
+        const subscriptions = central.subscriptions.map(s => `
+            <div style="font-size: 0.85em; color: #666;">
+                ${s.name} • ${s.notificationRate.toFixed(1)}/s • ${s.lastPayload ?? '-'}
+            </div>
+        `).join('');
+
+        return `
+            <div style="display: flex; justify-content: space-between; align-items: center; padding: 10px; border-bottom: 1px solid #e5e7eb;">
+                <div style="flex: 1;">
+                    <div style="font-weight: 500; color: #333;">${central.address}</div>
+                    ${subscriptions || '<div style="font-size: 0.85em; color: #666;">No subscriptions</div>'}
+                </div>
+                <button class="btn-secondary" onclick="disconnectBleCentral('${central.address}')" style="flex:0; padding: 6px 12px; font-size: 0.9em;">
+                    Disconnect
+                </button>
+            </div>
+        `;
+    }).join('');
+}
+
+async function disconnectBleCentral(address) {
+    try {
+        const response = await fetch(`${API_BASE}/ble/centrals/disconnect`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ address })
+        });
+        const data = await response.json();
+
+        if (!data.success) {
+            showBleAlert('error', data.error || 'Failed to disconnect client');
+        }
+    } catch (error) {
+        showBleAlert('error', 'Failed to disconnect client: ' + error.message);
+    }
+}
+
+function showBleAlert(type, message) {
+    const alertDiv = document.getElementById('bleAlert');
+    alertDiv.className = `alert alert-${type}`;
+    alertDiv.textContent = message;
+    alertDiv.classList.remove('hidden');
+    setTimeout(() => alertDiv.classList.add('hidden'), 5000);
+}
+
 function updateGarminStatusUI(data) {
     const statusText = data.configured && data.authenticated ?
         '✅ Connected' :
@@ -368,36 +575,59 @@ function updateGarminStatusUI(data) {
 }
 
 async function discoverHRM() {
+    const btnDiscover = document.getElementById('btnDiscoverHRM');
+    const scanning = btnDiscover.dataset.scanning === 'true';
     try {
-        const btnDiscover = document.getElementById('btnDiscoverHRM');
         btnDiscover.disabled = true;
-        btnDiscover.textContent = 'Discovering...';
-        const response = await fetch(`${API_BASE}/hrm/discover`);
+        const response = await fetch(`${API_BASE}/hrm/discover/${scanning ? 'stop' : 'start'}`, { method: 'POST' });
         const data = await response.json();
         btnDiscover.disabled = false;
-        btnDiscover.textContent = 'Discover Devices';
-
-        if (data.length > 0) {
-            selectedHRM = data[0].id;
-            hrmDevices = data;
-            const select = document.getElementById('hrmDeviceSelect');
-            select.innerHTML = hrmDevices.map(d =>
-                `<option value="${d.id}">${d.name || d.id}</option>`
-            ).join('');
-            select.style.display = '';
-            document.getElementById('btnConnectHRM').classList.remove('hidden');
-            showHRMAlert('success', `Found ${hrmDevices.length} device(s)`);
-        } else {
-            showHRMAlert('error', 'No HRM devices found.');
+
+        if (!data.success) {
+            showHRMAlert('error', data.error || 'Discovery failed');
+            return;
         }
+        // recently seen devices are offered right away, new ones arrive via hrm:device
+        data.devices.forEach(addHRMDevice);
     } catch (error) {
         console.error(error);
         showHRMAlert('error', 'Discovery error: ' + error.message);
-        document.getElementById('btnDiscoverHRM').disabled = false;
-        document.getElementById('btnDiscoverHRM').textContent = 'Discover Devices';
+        btnDiscover.disabled = false;
+    }
+}
+
+function updateHRMDiscoveryUI(scanning) {
+    const btnDiscover = document.getElementById('btnDiscoverHRM');
+    btnDiscover.dataset.scanning = scanning;
+    btnDiscover.textContent = scanning ? 'Stop Scan' : 'Discover';
+
+    if (!scanning && hrmDevices.length === 0) {
+        showHRMAlert('error', 'No HRM devices found.');
     }
 }
 
+function addHRMDevice(device) {
+    const index = hrmDevices.findIndex(d => d.id === device.id);
+    if (index >= 0) {
+        hrmDevices[index] = device;
+    } else {
+        hrmDevices.push(device);
+    }
+
+    if (selectedHRM == null) {
+        selectedHRM = device.id;
+    }
+
+    const select = document.getElementById('hrmDeviceSelect');
+    select.innerHTML = hrmDevices.map(d => {
+        const battery = d.batteryLevel != null ? `, 🔋 ${d.batteryLevel}%` : '';
+        return `<option value="${d.id}">${d.name || d.id} (${d.rssi} dBm${battery})</option>`;
+    }).join('');
+    select.value = selectedHRM;
+    select.style.display = '';
+    document.getElementById('btnConnectHRM').classList.remove('hidden');
+}
+
 function selectHRMDevice() {
     const select = document.getElementById('hrmDeviceSelect');
     selectedHRM = select.value;
@@ -445,6 +675,111 @@ async function disconnectHRM() {
     }
 }
 
+async function toggleBrowserHRM() {
+    if (browserHRM) {
+        disconnectBrowserHRM();
+        return;
+    }
+
+    try {
+        const device = await navigator.bluetooth.requestDevice({
+            filters: [{ services: ['heart_rate'] }],
+            optionalServices: ['battery_service']
+        });
+        const server = await device.gatt.connect();
+        const measurement = await (await server.getPrimaryService('heart_rate'))
+            .getCharacteristic('heart_rate_measurement');
+
+        browserHRM = { device, batteryLevel: undefined };
+        device.addEventListener('gattserverdisconnected', handleBrowserHRMDisconnected);
+        measurement.addEventListener('characteristicvaluechanged', (event) => {
+            sendBrowserHRMSample(device, parseHeartRateMeasurement(event.target.value));
+        });
+        await measurement.startNotifications();
+        await readBrowserHRMBattery(server);
+
+        document.getElementById('btnBrowserHRM').textContent = `Disconnect ${device.name || 'strap'}`;
+        showHRMAlert('success', `Streaming heart rate of ${device.name || 'strap'} from this device`);
+    } catch (error) {
+        console.error(error);
+        // the user closed the device chooser
+        if (error.name !== 'NotFoundError') {
+            showHRMAlert('error', 'Web Bluetooth error: ' + error.message);
+        }
+    }
+}
+
+async function readBrowserHRMBattery(server) {
+    try {
+        const battery = await (await server.getPrimaryService('battery_service'))
+            .getCharacteristic('battery_level');
+        browserHRM.batteryLevel = (await battery.readValue()).getUint8(0);
+        battery.addEventListener('characteristicvaluechanged', (event) => {
+            browserHRM.batteryLevel = event.target.value.getUint8(0);
+        });
+        await battery.startNotifications();
+    } catch (error) {
+        // not every strap offers the battery service or its notifications
+        console.warn('Battery level not available:', error);
+    }
+}
+
+// Heart Rate Measurement as specified by the Bluetooth Heart Rate Service
+function parseHeartRateMeasurement(value) {
+    const flags = value.getUint8(0);
+    let offset = 1;
+    let heartRate;
+    if (flags & 0x01) {
+        heartRate = value.getUint16(offset, true);
+        offset += 2;
+    } else {
+        heartRate = value.getUint8(offset);
+        offset += 1;
+    }
+
+    const sample = { heartRate };
+    if (flags & 0x04) {
+        sample.sensorContact = (flags & 0x02) !== 0;
+    }
+    if (flags & 0x08) {
+        sample.energyExpended = value.getUint16(offset, true);
+        offset += 2;
+    }
+    if (flags & 0x10) {
+        sample.rrIntervals = [];
+        for (; offset + 2 <= value.byteLength; offset += 2) {
+            sample.rrIntervals.push(Math.round(value.getUint16(offset, true) * 1000 / 1024));
+        }
+    }
+    return sample;
+}
+
+function sendBrowserHRMSample(device, sample) {
+    socket.emit('hrm:browser:sample', {
+        deviceId: device.id,
+        deviceName: device.name,
+        batteryLevel: browserHRM?.batteryLevel,
+        ...sample
+    }, (result) => {
+        if (!result.success) {
+            console.warn('Heart rate sample rejected:', result.error);
+        }
+    });
+}
+
+function disconnectBrowserHRM() {
+    const { device } = browserHRM;
+    device.removeEventListener('gattserverdisconnected', handleBrowserHRMDisconnected);
+    device.gatt.disconnect();
+    handleBrowserHRMDisconnected({ target: device });
+}
+
+function handleBrowserHRMDisconnected(event) {
+    socket.emit('hrm:browser:disconnect', { deviceId: event.target.id });
+    browserHRM = null;
+    document.getElementById('btnBrowserHRM').textContent = 'Connect via this device';
+}
+
 function showHRMAlert(type, message) {
     const alertDiv = document.getElementById('hrmAlert');
     alertDiv.className = `alert alert-${type}`;
@@ -662,6 +997,48 @@ async function updateRecordingFile() {
     }
 }
 
+async function loadPowerModel() {
+    try {
+        const response = await fetch(`${API_BASE}/session/power-model`);
+        const data = await response.json();
+
+        document.getElementsByName('powerModel').forEach(radio => {
+            radio.checked = radio.value === data.powerModel;
+        });
+    } catch (error) {
+        console.error('Error loading power model:', error);
+    }
+}
+
+async function updatePowerModel() {
+    const powerModel = document.querySelector('input[name="powerModel"]:checked').value;
+
+    try {
+        const response = await fetch(`${API_BASE}/session/power-model`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ powerModel })
+        });
+
+        const data = await response.json();
+        if (data.success) {
+            showPowerModelAlert('success', `Power model set to ${powerModel}`);
+        } else {
+            showPowerModelAlert('error', data.error || 'Failed to set power model');
+        }
+    } catch (error) {
+        showPowerModelAlert('error', 'Error: ' + error.message);
+    }
+}
+
+function showPowerModelAlert(type, message) {
+    const alertDiv = document.getElementById('powerModelAlert');
+    alertDiv.className = `alert alert-${type}`;
+    alertDiv.textContent = message;
+    alertDiv.classList.remove('hidden');
+    setTimeout(() => alertDiv.classList.add('hidden'), 5000);
+}
+
 function showSessionModeAlert(type, message) {
     const alertDiv = document.getElementById('sessionModeAlert');
     alertDiv.className = `alert alert-${type}`;